@@ -51,7 +51,8 @@ export class CodeGenerator {
 
     return await this.aiClient.generateText(
       'You are an expert Next.js developer creating API routes for a Spotify clone. Focus on simple, safe database queries that avoid relationships unless explicitly confirmed.',
-      prompt
+      prompt,
+      'api'
     );
   }
 
@@ -81,7 +82,8 @@ export class CodeGenerator {
 
     return await this.aiClient.generateText(
       'You are an expert React developer creating components for a Spotify clone.',
-      prompt
+      prompt,
+      'component'
     );
   }
 
@@ -108,7 +110,8 @@ export class CodeGenerator {
 
     return await this.aiClient.generateText(
       'You are an expert database developer creating PostgreSQL migrations for a Spotify clone.',
-      prompt
+      prompt,
+      'sql'
     );
   }
 
@@ -143,6 +146,7 @@ export class CodeGenerator {
     this.logger.generating('Supabase client configuration');
 
     const code = `import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -151,26 +155,10 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-// Database types - will be generated based on your schema
-export type Database = {
-  public: {
-    Tables: {
-      // Tables will be defined here
-    };
-    Views: {
-      // Views will be defined here
-    };
-    Functions: {
-      // Functions will be defined here
-    };
-  };
-};
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
-// Helper types
-export type Tables<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Row'];
-export type Enums<T extends keyof Database['public']['Enums']> = Database['public']['Enums'][T];
+// Database types are generated from the live schema: npm run db-agent:types:generate
+export type { Database, Tables, TablesInsert, TablesUpdate, Enums } from './database.types';
 `;
 
     return code;
@@ -1,26 +1,72 @@
+import path from 'path';
 import { Logger } from '../utils/logger';
 import { FileManager } from '../utils/file-manager';
 import { ProjectContext, ImplementedFeature, OperationHistory } from './project-analyzer';
 import { AIClient } from '../utils/ai-client';
 import { CodeGenerator } from './code-generator';
-import { MigrationExecutor, MigrationResult } from '../utils/migration-executor';
+import { MigrationExecutor, MigrationResult, TEMPORARY_MIGRATION_PREFIX } from '../utils/migration-executor';
 import { StateAnalyzer } from '../utils/state-analyzer';
 import { IdempotentSQLGenerator } from '../utils/idempotent-sql-generator';
 import { HardcodedDataExtractor, MultiTableDataResult } from '../utils/hardcoded-data-extractor';
 import { SchemaDataMapper, MultiTableMappingResult } from '../utils/schema-data-mapper';
 import { APIRouteOrchestrator } from '../utils/api-route-orchestrator';
+import { createUnifiedDiff } from '../utils/unified-diff';
+import { RunTransaction } from '../utils/run-transaction';
+import { RunCheckpoint } from '../utils/run-checkpoint';
+import { DatabaseDriver } from '../utils/database-driver';
+import { getDatabaseDriver } from '../utils/database-connection';
+import { describeSchemaTables, pullSchemaSnapshot, saveSchemaSnapshot } from '../utils/schema-snapshot';
+import { formatZodIssues, parseStructuredOutput } from '../utils/structured-output';
+import { UsageBudget, UsageSummary, UsageTotals, UsageTracker } from '../utils/usage-tracker';
+import { AgentConfig, getAgentConfig } from '../config/agent-config';
+import { findFeature, matchedKeyword, matchFeatures } from '../config/feature-registry';
+import { findOperationPlugin, getOperationPlugins, OperationPlugin, OperationPluginContext } from '../config/operation-plugins';
+import { formatMigrationSections } from '../utils/migration-format';
+import { z } from 'zod';
+
+
+export const OPERATION_TYPES = [
+  'create_table',
+  'create_api',
+  'update_component',
+  'install_dependency',
+  'run_migration',
+  'create_types',
+  'create_hooks'
+] as const;
+
+export type BuiltinOperationType = typeof OPERATION_TYPES[number];
+
+// Listed in the planning prompt, followed by the operation types registered by plugins
+const OPERATION_TYPE_DESCRIPTIONS: Record<BuiltinOperationType, string> = {
+  create_table: 'Create database table with schema',
+  create_api: 'Create API endpoints',
+  update_component: 'Update existing React components',
+  install_dependency: 'Install npm packages',
+  run_migration: 'Run database migrations',
+  create_types: 'Generate TypeScript types',
+  create_hooks: 'Create custom React hooks'
+};
+
+// Built-in operation types followed by those of registered plugins
+export function availableOperationTypes(): string[] {
+  return [...OPERATION_TYPES, ...getOperationPlugins().map(plugin => plugin.name)];
+}
 
-// CRITICAL FIX: Default user UUID for development/demo purposes
-// This ensures consistent UUID format for all user_id fields that expect UUID type
-const DEFAULT_USER_UUID = '00000000-0000-0000-0000-000000000001';
+function isBuiltinOperationType(type: string): type is BuiltinOperationType {
+  return (OPERATION_TYPES as readonly string[]).includes(type);
+}
 
 export interface DatabaseOperation {
-  type: 'create_table' | 'create_api' | 'update_component' | 'install_dependency' | 'run_migration' | 'create_types' | 'create_hooks';
+  // A built-in operation type or the name of a registered plugin
+  type: string;
   description: string;
   files: string[];
   dependencies?: string[];
   tableSchema?: any;
   apiEndpoints?: string[];
+  // Plugin-specific settings, e.g. the name and query of a view
+  parameters?: Record<string, unknown>;
 }
 
 export interface QueryPlan {
@@ -31,6 +77,82 @@ export interface QueryPlan {
   requirements: string[];
 }
 
+// Shape the AI must return for a plan; responses are validated against it before execution
+const databaseOperationSchema = z.object({
+  type: z.string().min(1),
+  description: z.string().min(1),
+  files: z.array(z.string()).default([]),
+  dependencies: z.array(z.string()).optional(),
+  tableSchema: z.any().optional(),
+  apiEndpoints: z.array(z.string()).optional(),
+  parameters: z.record(z.unknown()).optional()
+}).superRefine((operation, ctx) => {
+  if (isBuiltinOperationType(operation.type)) return;
+
+  const plugin = findOperationPlugin(operation.type);
+  if (!plugin) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['type'],
+      message: `Unknown operation type "${operation.type}"; expected one of ${availableOperationTypes().join(', ')}`
+    });
+    return;
+  }
+
+  let problems: string[];
+  try {
+    problems = plugin.validate?.(operation) ?? [];
+  } catch (error) {
+    problems = [error instanceof Error ? error.message : String(error)];
+  }
+  for (const problem of problems) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${plugin.name}: ${problem}` });
+  }
+});
+
+// Problems with an operation the planning schema would reject, e.g. after it was edited during review
+export function validateOperation(operation: DatabaseOperation): string[] {
+  const result = databaseOperationSchema.safeParse(operation);
+  return result.success ? [] : formatZodIssues(result.error);
+}
+
+const queryPlanResponseSchema = z.object({
+  analysis: z.string().min(1),
+  operations: z.array(databaseOperationSchema),
+  estimatedTime: z.number().nonnegative(),
+  requirements: z.array(z.string()).default([])
+});
+
+// Number of times a plan that fails validation is sent back to the AI for repair
+const MAX_PLAN_REPAIR_ATTEMPTS = 2;
+
+export interface ExecuteQueryOptions {
+  // Called with the generated plan before execution; return null to cancel
+  reviewPlan?: (plan: QueryPlan) => Promise<QueryPlan | null>;
+  // Token/cost limits for the run; defaults to DB_AGENT_MAX_TOKENS / DB_AGENT_MAX_COST_USD
+  budget?: UsageBudget;
+}
+
+export interface ResumeRunOptions {
+  // Discard the failed operation's saved AI responses instead of reusing them
+  regenerate?: boolean;
+  budget?: UsageBudget;
+}
+
+export interface OperationPreview {
+  operation: DatabaseOperation;
+  migrations: { file: string; tableName: string; sql: string }[];
+  apiRoutes: { endpoint: string; filePath: string; reason: string; code?: string }[];
+  fileDiffs: { file: string; diff: string }[];
+  notes: string[];
+}
+
+export interface QueryPlanPreview {
+  plan: QueryPlan;
+  operations: OperationPreview[];
+  skippedOperations: number;
+}
+
 export class DatabaseAgent {
   private logger: Logger;
   private fileManager: FileManager;
@@ -42,6 +164,13 @@ export class DatabaseAgent {
   private dataExtractor: HardcodedDataExtractor;
   private dataMapper: SchemaDataMapper;
   private apiOrchestrator: APIRouteOrchestrator;
+  private usageTracker: UsageTracker;
+  private transaction: RunTransaction;
+  private config: AgentConfig;
+  private queryRunning = false;
+  // operationIds: history entries recorded by this attempt, marked undone when it is rolled back
+  private currentRun: { runId: string; query: string; operationIds: string[] } | null = null;
+  private cancelRequested = false;
 
   constructor() {
     this.logger = new Logger();
@@ -54,45 +183,350 @@ export class DatabaseAgent {
     this.dataExtractor = new HardcodedDataExtractor();
     this.dataMapper = new SchemaDataMapper();
     this.apiOrchestrator = new APIRouteOrchestrator();
+    this.usageTracker = UsageTracker.getInstance();
+    this.transaction = new RunTransaction(this.fileManager, this.migrationExecutor);
+    this.config = getAgentConfig();
   }
 
-  async executeQuery(query: string, projectContext: ProjectContext): Promise<void> {
+  async executeQuery(query: string, projectContext: ProjectContext, options: ExecuteQueryOptions = {}): Promise<void> {
     this.logger.section('Database Agent Execution');
     this.logger.info(`Query: "${query}"`);
 
-    try {
+    await this.runInTransaction(`run-${Date.now()}`, query, options.budget, async () => {
       // Phase 0: Initialize migration executor if needed
       await this.initializeMigrationExecutor();
 
       // Phase 1: Analyze the query and create a plan
       this.logger.agentStatus('thinking');
-      const plan = await this.analyzeQuery(query, projectContext);
+      let plan = await this.analyzeQuery(query, projectContext);
       
       this.logger.subsection('Execution Plan');
       this.logger.info(plan.analysis);
       this.logger.info(`Operations: ${plan.operations.length}`);
 
+      // Phase 1b: Let the caller approve or edit the plan
+      if (options.reviewPlan) {
+        const reviewedPlan = await options.reviewPlan(plan);
+        if (!reviewedPlan) {
+          this.logger.warn('Plan cancelled - no operations were executed');
+          return false;
+        }
+        plan = this.checkReviewedPlan(reviewedPlan);
+      }
+
       // Phase 2: Validate requirements
       this.logger.agentStatus('analyzing');
       await this.validateRequirements(plan.requirements, projectContext);
 
       // Phase 3: Execute operations
       this.logger.agentStatus('executing');
-      await this.executeOperations(plan.operations, projectContext);
+      const filteredOperations = await this.filterRedundantOperations(plan.operations, projectContext);
+      if (filteredOperations.length === 0) {
+        this.logger.info('No operations needed - all requested functionality already exists!');
+        return true;
+      }
+      this.logger.info(`Executing ${filteredOperations.length} operations (${plan.operations.length - filteredOperations.length} skipped as redundant)`);
+
+      // Checkpoint the plan so a failed run can be resumed without planning again
+      const checkpoint = await RunCheckpoint.create(projectContext.projectRoot, this.currentRun!.runId, query, filteredOperations);
+      await this.executeOperations(checkpoint, projectContext);
+      return true;
+    });
+  }
 
-      this.logger.success('Query executed successfully! 🎉');
+  /**
+   * Continue a failed or interrupted run from its checkpoint. The plan is reused as-is; operations that
+   * completed before are re-applied from their saved AI responses, and execution carries on from the
+   * operation that failed.
+   */
+  async resumeRun(runId: string | undefined, projectContext: ProjectContext, options: ResumeRunOptions = {}): Promise<void> {
+    const checkpoint = await RunCheckpoint.load<DatabaseOperation>(projectContext.projectRoot, runId);
+    const resumeIndex = checkpoint.firstUnfinishedIndex();
+
+    this.logger.section('Resuming Database Agent Run');
+    this.logger.info(`Run: ${checkpoint.runId} (attempt ${checkpoint.attempts + 1})`);
+    this.logger.info(`Query: "${checkpoint.query}"`);
+    this.logger.info(`Continuing from operation ${resumeIndex + 1} of ${checkpoint.operations.length}`);
+
+    if (options.regenerate) {
+      await checkpoint.discardResponses(resumeIndex);
+      this.logger.info('Saved AI responses for that operation were discarded and will be generated again');
+    }
+    await checkpoint.startAttempt();
+
+    await this.runInTransaction(checkpoint.runId, checkpoint.query, options.budget, async () => {
+      await this.initializeMigrationExecutor();
+      this.logger.agentStatus('executing');
+      await this.executeOperations(checkpoint, projectContext);
+      return true;
+    });
+  }
+
+  // Shared run lifecycle: budget, cancellation state and an all-or-nothing transaction around the work
+  private async runInTransaction(runId: string, query: string, budget: UsageBudget | undefined, run: () => Promise<boolean>): Promise<void> {
+    this.usageTracker.startRun(budget ?? UsageTracker.budgetFromEnv());
+    this.queryRunning = true;
+    this.cancelRequested = false;
+    this.currentRun = { runId, query, operationIds: [] };
+    this.transaction.begin();
+
+    try {
+      const executed = await run();
+
+      this.transaction.commit();
+      if (executed) {
+        this.logger.success('Query executed successfully! 🎉');
+      }
       
     } catch (error) {
       this.logger.error(`Query execution failed: ${error instanceof Error ? error.message : String(error)}`);
       
-      // Attempt rollback
+      // Roll back files, executed migrations and inserted seed data together
       this.logger.warn('Attempting to rollback changes...');
-      await this.fileManager.rollbackOperations();
+      const report = await this.transaction.rollback();
+
+      // So `undo` does not offer the rolled-back operations again
+      const operationIds = this.currentRun?.operationIds ?? [];
+      if (report.failures.length === 0 && operationIds.length > 0) {
+        const projectAnalyzer = new (await import('./project-analyzer')).ProjectAnalyzer();
+        await projectAnalyzer.markOperationsUndone(operationIds);
+      }
       
       throw error;
+    } finally {
+      this.queryRunning = false;
+      this.currentRun = null;
+      this.displayUsageSummary(this.usageTracker.getRunSummary());
     }
   }
 
+  // Token usage and estimated cost for the run, broken down by planning and operation type
+  displayUsageSummary(summary: UsageSummary): void {
+    if (summary.calls === 0) {
+      return;
+    }
+
+    this.logger.subsection('AI Usage');
+    this.logger.info(`${summary.calls} AI calls, ${summary.totalTokens} tokens (${summary.promptTokens} prompt / ${summary.completionTokens} completion), ~$${summary.costUsd.toFixed(4)}`);
+    for (const [scope, totals] of Object.entries(summary.byScope)) {
+      this.logger.listItem(`${scope}: ${totals.calls} calls, ${totals.totalTokens} tokens, ~$${totals.costUsd.toFixed(4)}`);
+    }
+    if (summary.unpricedModels.length > 0) {
+      this.logger.warn(`No pricing known for: ${summary.unpricedModels.join(', ')} (cost not included)`);
+    }
+  }
+
+  /**
+   * Ask the AI for a new plan for the same query, taking reviewer feedback on the previous plan into account
+   */
+  async revisePlan(plan: QueryPlan, feedback: string, projectContext: ProjectContext): Promise<QueryPlan> {
+    this.logger.agentStatus('thinking');
+    return this.analyzeQuery(plan.query, projectContext, { previousPlan: plan, feedback });
+  }
+
+  /**
+   * Dry run: analyze the query and preview every operation without touching disk or Supabase
+   */
+  async previewQuery(query: string, projectContext: ProjectContext, budget?: UsageBudget): Promise<QueryPlanPreview> {
+    this.logger.section('Database Agent Dry Run');
+    this.logger.info(`Query: "${query}"`);
+    this.usageTracker.startRun(budget ?? UsageTracker.budgetFromEnv());
+
+    this.logger.agentStatus('thinking');
+    const plan = await this.analyzeQuery(query, projectContext);
+
+    this.logger.agentStatus('analyzing');
+    const filteredOperations = await this.filterRedundantOperations(plan.operations, projectContext);
+
+    const operations: OperationPreview[] = [];
+    for (const operation of filteredOperations) {
+      operations.push(await this.previewOperation(operation, projectContext));
+    }
+
+    return {
+      plan,
+      operations,
+      skippedOperations: plan.operations.length - filteredOperations.length
+    };
+  }
+
+  // Render a plan preview produced by previewQuery
+  displayPlanPreview(preview: QueryPlanPreview): void {
+    this.logger.section('Execution Plan Preview (dry run)');
+    this.logger.info(preview.plan.analysis);
+    this.logger.info(`Operations: ${preview.operations.length} (${preview.skippedOperations} skipped as redundant)`);
+    this.logger.info(`Estimated time: ${preview.plan.estimatedTime}s`);
+
+    if (preview.plan.requirements.length > 0) {
+      this.logger.subsection('Requirements');
+      preview.plan.requirements.forEach(requirement => this.logger.listItem(requirement));
+    }
+
+    preview.operations.forEach((operationPreview, index) => {
+      const { operation } = operationPreview;
+      this.logger.subsection(`${index + 1}. [${operation.type}] ${operation.description}`);
+      operation.files.forEach(file => this.logger.listItem(file));
+
+      for (const migration of operationPreview.migrations) {
+        this.logger.info(`Migration for table "${migration.tableName}": ${migration.file}`);
+        this.logger.codeBlock(migration.sql, 'sql');
+      }
+
+      for (const route of operationPreview.apiRoutes) {
+        this.logger.info(`API route ${route.endpoint} (${route.filePath}): ${route.reason}`);
+        if (route.code) {
+          this.logger.codeBlock(route.code, 'typescript');
+        }
+      }
+
+      for (const fileDiff of operationPreview.fileDiffs) {
+        this.logger.info(`Changes to ${fileDiff.file}:`);
+        this.logger.codeBlock(fileDiff.diff || '(no changes)', 'diff');
+      }
+
+      operationPreview.notes.forEach(note => this.logger.info(note));
+    });
+
+    this.displayUsageSummary(this.usageTracker.getRunSummary());
+    this.logger.separator();
+    this.logger.success('Dry run complete - no files or database changes were made');
+  }
+
+  private async previewOperation(operation: DatabaseOperation, projectContext: ProjectContext): Promise<OperationPreview> {
+    const preview: OperationPreview = {
+      operation,
+      migrations: [],
+      apiRoutes: [],
+      fileDiffs: [],
+      notes: []
+    };
+
+    try {
+      switch (operation.type) {
+        case 'create_table': {
+          const tableTypes = this.detectTableTypesFromDescription(operation.description);
+          if (tableTypes.length === 0) {
+            preview.notes.push('No table types detected - this operation would be skipped');
+            break;
+          }
+
+          for (const tableName of tableTypes) {
+            const tableOperation: DatabaseOperation = tableTypes.length === 1
+              ? operation
+              : {
+                  type: 'create_table',
+                  description: `Create ${tableName} table from multi-table operation: ${operation.description}`,
+                  files: []
+                };
+            const columns = this.extractColumns(tableOperation, projectContext);
+            const sql = await this.sqlGenerator.generateCompleteMigration(
+              tableOperation.description,
+              tableName,
+              columns,
+              {
+                includeIndexes: true,
+                includePolicies: true,
+                tableExists: projectContext.systemState?.database.connectedTables.includes(tableName) ?? false
+              }
+            );
+            preview.migrations.push({
+              file: this.buildMigrationFilePath(tableOperation.description, tableName),
+              tableName,
+              sql
+            });
+            await this.previewAPIRoute(preview, tableOperation.description, tableName);
+          }
+          preview.notes.push('Seed data extracted from components is inserted after the migration runs');
+          break;
+        }
+
+        case 'create_api':
+          await this.previewAPIRoute(preview, operation.description, this.extractTableName(operation.description));
+          break;
+
+        case 'update_component':
+          for (const file of operation.files) {
+            const existingComponent = await this.fileManager.readFile(file);
+            const updatedComponent = await this.aiClient.generateText(
+              this.buildComponentPrompt(operation, file, existingComponent),
+              operation.description,
+              'component'
+            );
+            preview.fileDiffs.push({ file, diff: createUnifiedDiff(file, existingComponent, updatedComponent) });
+          }
+          break;
+
+        case 'create_types': {
+          const typesFile = this.config.typesFile;
+          const existingTypes = await this.fileManager.readFile(typesFile).catch(() => null);
+          const typesCode = await this.aiClient.generateText(
+            this.buildTypesPrompt(operation, projectContext, existingTypes),
+            operation.description
+          );
+          preview.fileDiffs.push({ file: typesFile, diff: createUnifiedDiff(typesFile, existingTypes || '', typesCode) });
+          break;
+        }
+
+        case 'install_dependency': {
+          const packageJson = JSON.parse(JSON.stringify(projectContext.packageJson));
+          packageJson.dependencies = packageJson.dependencies || {};
+          for (const dependency of operation.dependencies || []) {
+            if (!packageJson.dependencies[dependency]) {
+              packageJson.dependencies[dependency] = 'latest';
+            }
+          }
+          preview.fileDiffs.push({
+            file: 'package.json',
+            diff: createUnifiedDiff('package.json', JSON.stringify(projectContext.packageJson, null, 2), JSON.stringify(packageJson, null, 2))
+          });
+          break;
+        }
+
+        case 'run_migration': {
+          const migrationFiles = operation.files.filter(file => file.endsWith('.sql'));
+          preview.notes.push(migrationFiles.length > 0
+            ? `Would execute migration(s): ${migrationFiles.join(', ')}`
+            : 'No SQL migration files to execute');
+          break;
+        }
+
+        case 'create_hooks': {
+          const hookFile = this.determineHookFile(operation.description);
+          const hookExists = await this.fileManager.fileExists(hookFile);
+          preview.notes.push(hookExists
+            ? `Hook file ${hookFile} already exists and would be checked for the requested functionality`
+            : `Would create hook file: ${hookFile}`);
+          break;
+        }
+
+        default: {
+          const plugin = findOperationPlugin(operation.type);
+          preview.notes.push(plugin
+            ? `Would run the ${plugin.name} plugin operation${operation.parameters ? ` with parameters ${JSON.stringify(operation.parameters)}` : ''}`
+            : `Unknown operation type: ${operation.type} - this operation would be skipped`);
+        }
+      }
+    } catch (error) {
+      preview.notes.push(`Preview failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return preview;
+  }
+
+  private async previewAPIRoute(preview: OperationPreview, description: string, tableName: string): Promise<void> {
+    const apiPreview = await this.apiOrchestrator.previewAPIGeneration(description, tableName);
+    if (!apiPreview.config) {
+      return;
+    }
+
+    preview.apiRoutes.push({
+      endpoint: apiPreview.config.endpoint,
+      filePath: apiPreview.config.filePath,
+      reason: apiPreview.reason,
+      code: apiPreview.previewCode
+    });
+  }
+
   private async initializeMigrationExecutor(): Promise<void> {
     try {
       await this.migrationExecutor.initialize();
@@ -110,92 +544,19 @@ export class DatabaseAgent {
     suggestedOperations?: DatabaseOperation[];
   }> {
     const queryLower = query.toLowerCase();
-    
-    // Check for recently played functionality
-    if (queryLower.includes('recently played') || queryLower.includes('recent songs') || queryLower.includes('recently_played')) {
-      const recentlyPlayedFeature = projectContext.implementedFeatures.find(f => f.name === 'recently_played');
-      if (recentlyPlayedFeature?.implemented) {
-        return {
-          exists: true,
-          feature: 'recently_played',
-          message: `Recently played functionality is already implemented! 
-             Table: ${recentlyPlayedFeature.tables.join(', ')}
-             API: ${recentlyPlayedFeature.apis.join(', ')}
-             Components: ${recentlyPlayedFeature.components.join(', ')}
-            
-            The recently played songs feature is fully functional. You can access it through the existing API endpoints and components.`,
-          suggestedOperations: []
-        };
-      }
-    }
-
-    // Check for made for you functionality
-    if (queryLower.includes('made for you') || queryLower.includes('recommendations') || queryLower.includes('personalized')) {
-      const madeForYouFeature = projectContext.implementedFeatures.find(f => f.name === 'made_for_you');
-      if (madeForYouFeature?.implemented) {
-        return {
-          exists: true,
-          feature: 'made_for_you',
-          message: `Made for you functionality is already implemented!
-             Table: ${madeForYouFeature.tables.join(', ')}
-             API: ${madeForYouFeature.apis.join(', ')}
-             Components: ${madeForYouFeature.components.join(', ')}
-            
-            The personalized recommendations feature is fully functional.`,
-          suggestedOperations: []
-        };
-      }
-    }
-
-    // Check for popular albums functionality
-    if (queryLower.includes('popular albums') || queryLower.includes('trending albums') || queryLower.includes('popular music')) {
-      const popularAlbumsFeature = projectContext.implementedFeatures.find(f => f.name === 'popular_albums');
-      if (popularAlbumsFeature?.implemented) {
-        return {
-          exists: true,
-          feature: 'popular_albums',
-          message: `Popular albums functionality is already implemented!
-             Table: ${popularAlbumsFeature.tables.join(', ')}
-             API: ${popularAlbumsFeature.apis.join(', ')}
-             Components: ${popularAlbumsFeature.components.join(', ')}
-            
-            The popular albums feature is fully functional.`,
-          suggestedOperations: []
-        };
-      }
-    }
-
-    // Check for playlist functionality
-    if (queryLower.includes('playlist') || queryLower.includes('user playlist')) {
-      const playlistFeature = projectContext.implementedFeatures.find(f => f.name === 'user_playlists');
-      if (playlistFeature?.implemented) {
-        return {
-          exists: true,
-          feature: 'user_playlists',
-          message: `User playlist functionality is already implemented!
-             Table: ${playlistFeature.tables.join(', ')}
-             API: ${playlistFeature.apis.join(', ')}
-             Components: ${playlistFeature.components.join(', ')}
-            
-            The user playlist management feature is fully functional.`,
-          suggestedOperations: []
-        };
-      }
-    }
 
-    // Check for search functionality
-    if (queryLower.includes('search') || queryLower.includes('find songs') || queryLower.includes('discovery')) {
-      const searchFeature = projectContext.implementedFeatures.find(f => f.name === 'search_functionality');
-      if (searchFeature?.implemented) {
+    for (const feature of matchFeatures(query)) {
+      const implementedFeature = projectContext.implementedFeatures.find(f => f.name === feature.name);
+      if (implementedFeature?.implemented) {
         return {
           exists: true,
-          feature: 'search_functionality',
-          message: `Search functionality is already implemented!
-             Table: ${searchFeature.tables.join(', ')}
-             API: ${searchFeature.apis.join(', ')}
-             Components: ${searchFeature.components.join(', ')}
+          feature: feature.name,
+          message: `${feature.description} is already implemented!
+             Table: ${implementedFeature.tables.join(', ')}
+             API: ${implementedFeature.apis.join(', ')}
+             Components: ${implementedFeature.components.join(', ')}
             
-            The search and discovery feature is fully functional.`,
+            The ${feature.description.toLowerCase()} feature is fully functional. You can access it through the existing API endpoints and components.`,
           suggestedOperations: []
         };
       }
@@ -223,11 +584,15 @@ export class DatabaseAgent {
     };
   }
 
-  private async analyzeQuery(query: string, projectContext: ProjectContext): Promise<QueryPlan> {
+  private async analyzeQuery(
+    query: string,
+    projectContext: ProjectContext,
+    revision?: { previousPlan: QueryPlan; feedback: string }
+  ): Promise<QueryPlan> {
 
     // First, check if this query is asking for something that already exists
     const existingFeatureCheck = await this.checkForExistingFeature(query, projectContext);
-    if (existingFeatureCheck.exists) {
+    if (existingFeatureCheck.exists && !revision) {
       this.logger.info(`Feature already implemented: ${existingFeatureCheck.feature}`);
       return {
         query,
@@ -290,7 +655,8 @@ export class DatabaseAgent {
         "type": "string - operation type",
         "description": "string - what this operation does",
         "files": ["string - file paths"],
-        "dependencies": ["string - npm packages or requirements"]
+        "dependencies": ["string - npm packages or requirements"],
+        "parameters": {"name": "value - only for operation types that list parameters"}
       }],
       "estimatedTime": 60,
       "requirements": ["string - what needs to be installed/configured"]
@@ -299,26 +665,21 @@ export class DatabaseAgent {
     CRITICAL: Do NOT wrap the JSON in markdown code blocks. Do NOT add any explanatory text before or after the JSON. Return ONLY the raw JSON object.
 
     ## Available Operation Types:
-    - create_table: Create database table with schema
-    - create_api: Create API endpoints
-    - update_component: Update existing React components
-    - install_dependency: Install npm packages
-    - run_migration: Run database migrations
-    - create_types: Generate TypeScript types
-    - create_hooks: Create custom React hooks
+    ${this.describeOperationTypes().join('\n')}
 
     ## CRITICAL: PROJECT STRUCTURE REQUIREMENTS
-    - This project uses src/ directory structure
-    - API routes MUST be in src/app/api/ directory (NOT app/api/)
-    - Components are in src/components/
-    - Types are in src/lib/types/
-    - All file paths must include the src/ prefix
+    - API routes MUST be in ${this.config.apiRoot}/, one route.ts per endpoint directory
+    - Components are in ${path.posix.dirname(this.config.mainComponent)}/
+    - Types are in ${path.posix.dirname(this.config.typesFile)}/
+    - Hooks are in ${this.config.hooksDir}/
+    - Migrations are written to ${this.config.migrationOutputDir}/
+    - All file paths are relative to the project root and must use exactly these directories
 
     ## File Path Examples:
-    - API routes: "src/app/api/albums/popular/route.ts"
-    - Components: "src/components/spotify-main-content.tsx" 
-    - Types: "src/lib/types/database.ts"
-    - Hooks: "src/hooks/database.ts"
+    - API routes: "${this.config.apiRoot}/albums/popular/route.ts"
+    - Components: "${this.config.mainComponent}"
+    - Types: "${this.config.typesFile}"
+    - Hooks: "${this.config.hooksDir}/database.ts"
 
     ## Important Notes:
     - Always preserve existing UI/UX while adding database functionality
@@ -326,285 +687,112 @@ export class DatabaseAgent {
     - Create proper TypeScript types for all database operations
     - Include error handling and loading states in components
     - Follow Next.js 13+ app directory conventions
-    - ALWAYS use src/ prefix in file paths`;
+    - ALWAYS use the project directories listed above in file paths`;
 
-    const response = await this.aiClient.generateText(systemPrompt, query);
-    
-    try {
-      this.logger.info('Extracting JSON from AI response...');
-      this.logger.info(`Response length: ${response.length}`);
-      
-      let jsonString = this.extractJSON(response);
-      
-      if (!jsonString) {
-        
-        // Try to find JSON in the response using more aggressive patterns
-        const alternativePatterns = [
-          /(?:here'?s?|here is|below is|the json|response|plan)\s*:?\s*\n?([\s\S]*)/gi,
-          /(?:analysis|plan|execution plan|response)\s*:?\s*\n?([\s\S]*)/gi,
-          /\{[\s\S]*\}/g
-        ];
-        
-        for (const pattern of alternativePatterns) {
-          const matches = response.matchAll(pattern);
-          for (const match of matches) {
-            const candidate = match[1] || match[0];
-            if (candidate) {
-              const extractedJson = this.extractJSON(candidate);
-              if (extractedJson) {
-                jsonString = extractedJson;
-                break;
-              }
-            }
-          }
-          if (jsonString) break;
-        }
-      }
-      
-      if (!jsonString) {
-        this.logger.error('No valid JSON found in AI response after all extraction attempts');
-        this.logger.info('Response preview (first 1000 chars):');
-        this.logger.codeBlock(response.substring(0, 1000) + (response.length > 1000 ? '\n... (truncated)' : ''), 'text');
-        
-        const desperateMatch = response.match(/\{[\s\S]*\}/g);
-        if (desperateMatch) {
-          for (const candidate of desperateMatch) {
-            try {
-              JSON.parse(candidate);
-              jsonString = candidate;
-              break;
-            } catch {
-              continue;
-            }
-          }
-        }
-        
-        if (!jsonString) {
-          throw new Error('No valid JSON found in AI response');
-        }
-      }
-      
-      this.logger.success('JSON extracted successfully');
-      
-      const plan = JSON.parse(jsonString);
-      
-      // Validate the plan structure
-      if (!plan.analysis || !plan.operations || typeof plan.estimatedTime !== 'number' || !plan.requirements) {
-        this.logger.error(`Missing fields: ${[
-          !plan.analysis ? 'analysis' : null,
-          !plan.operations ? 'operations' : null,
-          typeof plan.estimatedTime !== 'number' ? 'estimatedTime' : null,
-          !plan.requirements ? 'requirements' : null
-        ].filter(Boolean).join(', ')}`);
-        this.logger.codeBlock(jsonString, 'json');
-        throw new Error('Invalid plan structure from AI response');
-      }
-      
-      this.logger.success('AI response parsed and validated successfully');
-      
-      const sanitizedOperations = plan.operations.map((operation: any) => {
-        if (operation.files && Array.isArray(operation.files)) {
-          operation.files = operation.files.map((filePath: string) => this.sanitizeAIGeneratedPath(filePath));
-        }
-        return operation;
-      });
-      
-      return {
-        query,
-        analysis: plan.analysis,
-        operations: sanitizedOperations,
-        estimatedTime: plan.estimatedTime,
-        requirements: plan.requirements
-      };
-    } catch (error) {
-      this.logger.error('Failed to parse AI response.');
-      this.logger.info(`Response length: ${response.length}`);
-      this.logger.info('Response preview:');
-      this.logger.codeBlock(response.substring(0, 1000) + (response.length > 1000 ? '\n... (truncated)' : ''), 'text');
-      
-      // Try to provide more specific error guidance
-      if (response.includes('I cannot') || response.includes('I apologize') || response.includes('unable to')) {
-        this.logger.warn('AI response indicates it cannot fulfill the request. This might be due to:');
-        this.logger.warn('1. The request being too complex or ambiguous');
-        this.logger.warn('2. Missing context or information needed to proceed');
-        this.logger.warn('3. The AI model being confused by the system prompt');
-        this.logger.info('Try rephrasing your query or providing more specific details.');
+    const userPrompt = revision
+      ? `${query}
+
+    ## Previous Plan:
+    ${JSON.stringify({
+      analysis: revision.previousPlan.analysis,
+      operations: revision.previousPlan.operations,
+      estimatedTime: revision.previousPlan.estimatedTime,
+      requirements: revision.previousPlan.requirements
+    }, null, 2)}
+
+    ## Reviewer Feedback:
+    ${revision.feedback}
+
+    Revise the previous plan to address the feedback and return the complete updated plan.`
+      : query;
+
+    let response = await this.aiClient.generateText(systemPrompt, userPrompt, 'planning');
+
+    for (let attempt = 0; ; attempt++) {
+      this.logger.info(`Validating AI plan (response length: ${response.length})...`);
+      const result = parseStructuredOutput(response, queryPlanResponseSchema);
+
+      if (result.success) {
+        this.logger.success('AI response parsed and validated successfully');
+
+        const operations: DatabaseOperation[] = result.data.operations.map(operation => ({
+          ...operation,
+          files: operation.files.map(filePath => this.sanitizeAIGeneratedPath(filePath))
+        }));
+
+        return {
+          query,
+          analysis: result.data.analysis,
+          operations,
+          estimatedTime: result.data.estimatedTime,
+          requirements: result.data.requirements
+        };
       }
-      
-      if (response.includes('```') && !response.includes('```json')) {
-        this.logger.warn('AI response contains code blocks but not JSON. The model may be responding with explanatory text instead of pure JSON.');
+
+      this.logger.warn(`AI plan failed validation (attempt ${attempt + 1} of ${MAX_PLAN_REPAIR_ATTEMPTS + 1}):`);
+      result.errors.forEach(validationError => this.logger.listItem(validationError));
+
+      if (attempt >= MAX_PLAN_REPAIR_ATTEMPTS) {
+        this.reportUnparseablePlan(response);
+        throw new Error(`Failed to parse AI response: plan is still invalid after ${MAX_PLAN_REPAIR_ATTEMPTS} repair attempts (${result.errors.join('; ')})`);
       }
-      
-      throw new Error(`Failed to parse AI response: ${error instanceof Error ? error.message : String(error)}`);
+
+      this.logger.agentStatus('thinking');
+      response = await this.aiClient.generateText(systemPrompt, this.buildPlanRepairPrompt(userPrompt, response, result.errors), 'planning');
     }
   }
 
-  private extractJSON(text: string): string | null {
-    try {
-      const trimmed = text.trim();
-      if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
-        try {
-          JSON.parse(trimmed);
-          return trimmed;
-        } catch {
-        }
-      }
+  // Reviewed plans get the same checks as AI plans, since operations may have been edited
+  private checkReviewedPlan(plan: QueryPlan): QueryPlan {
+    const problems = plan.operations.flatMap((operation, index) =>
+      validateOperation(operation).map(problem => `operations.${index}.${problem}`));
+    if (problems.length > 0) {
+      throw new Error(`Reviewed plan is invalid (${problems.join('; ')})`);
+    }
 
-      const codeBlockPatterns = [
-        /```json\s*\n?([\s\S]*?)\n?```/gi,
-        /```\s*\n?([\s\S]*?)\n?```/gi,
-        /`([\s\S]*?)`/gi
-      ];
-
-      for (const pattern of codeBlockPatterns) {
-        const matches = text.matchAll(pattern);
-        for (const match of matches) {
-          const candidate = match[1]?.trim();
-          if (candidate && candidate.startsWith('{') && candidate.endsWith('}')) {
-            try {
-              JSON.parse(candidate);
-              return candidate;
-            } catch {
-              continue;
-            }
-          }
-        }
-      }
+    return {
+      ...plan,
+      operations: plan.operations.map(operation => ({
+        ...operation,
+        files: operation.files.map(filePath => this.sanitizeAIGeneratedPath(filePath))
+      }))
+    };
+  }
 
-      const start = text.indexOf('{');
-      if (start === -1) return null;
+  private buildPlanRepairPrompt(userPrompt: string, invalidResponse: string, errors: string[]): string {
+    return `${userPrompt}
 
-      let braceCount = 0;
-      let end = -1;
-      let inString = false;
-      let escapeNext = false;
-      
-      for (let i = start; i < text.length; i++) {
-        const char = text[i];
-        
-        if (escapeNext) {
-          escapeNext = false;
-          continue;
-        }
-        
-        if (char === '\\' && inString) {
-          escapeNext = true;
-          continue;
-        }
-        
-        if (char === '"' && !escapeNext) {
-          inString = !inString;
-          continue;
-        }
-        
-        if (!inString) {
-          if (char === '{') {
-            braceCount++;
-          } else if (char === '}') {
-            braceCount--;
-            if (braceCount === 0) {
-              end = i;
-              break;
-            }
-          }
-        }
-      }
-      
-      if (end === -1) return null;
-      
-      const jsonString = text.substring(start, end + 1);
-      
-      // Validate that it's actually valid JSON
-      JSON.parse(jsonString);
-      
-      return jsonString;
-    } catch (error) {
-      return this.fallbackJSONExtraction(text);
-    }
+    ## Your Previous Response:
+    ${invalidResponse.substring(0, 4000)}
+
+    ## Validation Errors:
+    ${errors.map(validationError => `- ${validationError}`).join('\n')}
+
+    Your previous response did not match the required plan format. Fix every validation error above.
+    Valid operation types are: ${availableOperationTypes().join(', ')}.
+    Return ONLY the corrected raw JSON object - no markdown, no explanations.`;
   }
 
-  private fallbackJSONExtraction(text: string): string | null {
-    try {
-      const patterns = [
-        // JSON in code blocks
-        /```json\s*\n?([\s\S]*?)\n?```/gi,
-        /```\s*\n?([\s\S]*?)\n?```/gi,
-        // JSON in backticks
-        /`([\s\S]*?)`/gi,
-        // JSON at the end of text
-        /(\{[\s\S]*?\})\s*$/,
-        // JSON at the beginning of text
-        /^(\{[\s\S]*?\})/,
-        // JSON anywhere in the text
-        /(\{[\s\S]*?\})/g
-      ];
-
-      for (const pattern of patterns) {
-        const matches = text.matchAll(pattern);
-        for (const match of matches) {
-          const candidate = match[1]?.trim();
-          if (candidate && candidate.startsWith('{') && candidate.endsWith('}')) {
-            try {
-              JSON.parse(candidate);
-              return candidate;
-            } catch {
-              continue;
-            }
-          }
-        }
-      }
+  // One "- type: description" line per built-in and plugin operation type
+  private describeOperationTypes(): string[] {
+    return [
+      ...OPERATION_TYPES.map(type => `- ${type}: ${OPERATION_TYPE_DESCRIPTIONS[type]}`),
+      ...getOperationPlugins().map(plugin => `- ${plugin.name}: ${plugin.description}`)
+    ];
+  }
 
-      // Method 2: Line-by-line JSON reconstruction
-      const lines = text.split('\n');
-      let jsonLines: string[] = [];
-      let inJson = false;
-      let braceCount = 0;
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const trimmed = line.trim();
-        
-        if (!inJson && trimmed.startsWith('{')) {
-          inJson = true;
-          jsonLines = [line];
-          braceCount = (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
-        } else if (inJson) {
-          jsonLines.push(line);
-          braceCount += (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
-          
-          // End of JSON
-          if (braceCount === 0) {
-            try {
-              const jsonString = jsonLines.join('\n');
-              JSON.parse(jsonString);
-              return jsonString;
-            } catch {
-              // Reset and continue looking
-              inJson = false;
-              jsonLines = [];
-              braceCount = 0;
-            }
-          }
-        }
-      }
-      
-      const cleanedText = text
-        .replace(/^[\s\S]*?(?=\{)/m, '') // Remove text before first {
-        .replace(/\}[\s\S]*$/m, '}')      // Remove text after last }
-        .replace(/\n\s*\n/g, '\n')        // Remove double newlines
-        .trim();
-      
-      if (cleanedText.startsWith('{') && cleanedText.endsWith('}')) {
-        try {
-          JSON.parse(cleanedText);
-          return cleanedText;
-        } catch {
-        }
-      }
-      
-      return null;
-    } catch {
-      return null;
+  // Diagnostics for a response that could not be turned into a valid plan
+  private reportUnparseablePlan(response: string): void {
+    this.logger.error('Failed to parse AI response.');
+    this.logger.info('Response preview:');
+    this.logger.codeBlock(response.substring(0, 1000) + (response.length > 1000 ? '\n... (truncated)' : ''), 'text');
+
+    if (response.includes('I cannot') || response.includes('I apologize') || response.includes('unable to')) {
+      this.logger.warn('AI response indicates it cannot fulfill the request. This might be due to:');
+      this.logger.warn('1. The request being too complex or ambiguous');
+      this.logger.warn('2. Missing context or information needed to proceed');
+      this.logger.warn('3. The AI model being confused by the system prompt');
+      this.logger.info('Try rephrasing your query or providing more specific details.');
     }
   }
 
@@ -627,25 +815,30 @@ export class DatabaseAgent {
     }
   }
 
-  private async executeOperations(operations: DatabaseOperation[], projectContext: ProjectContext): Promise<void> {
-    // Filter operations to avoid duplicates
-    const filteredOperations = await this.filterRedundantOperations(operations, projectContext);
-    
-    if (filteredOperations.length === 0) {
-      this.logger.info('No operations needed - all requested functionality already exists!');
-      return;
-    }
-
-    const totalOperations = filteredOperations.length;
-    this.logger.info(`Executing ${totalOperations} operations (${operations.length - filteredOperations.length} skipped as redundant)`);
+  private async executeOperations(checkpoint: RunCheckpoint<DatabaseOperation>, projectContext: ProjectContext): Promise<void> {
+    const totalOperations = checkpoint.operations.length;
+    const resumeIndex = checkpoint.firstUnfinishedIndex();
 
-    for (let i = 0; i < filteredOperations.length; i++) {
-      const operation = filteredOperations[i];
+    for (let i = 0; i < totalOperations; i++) {
+      // Operations mutate their file lists while executing; the checkpoint keeps the planned version
+      const operation: DatabaseOperation = JSON.parse(JSON.stringify(checkpoint.operations[i].operation));
       this.logger.progress(i + 1, totalOperations, operation.description);
+      if (i < resumeIndex) {
+        this.logger.info('Re-applying operation completed in a previous attempt (saved AI responses are reused)');
+      }
 
       const operationId = `${Date.now()}-${i}`;
       let success = false;
 
+      if (this.cancelRequested) {
+        throw new Error('Operation cancelled');
+      }
+      this.usageTracker.assertWithinBudget();
+      this.usageTracker.setScope(operation.type);
+      const usageMark = this.usageTracker.mark();
+      const fileMark = this.fileManager.getHistory().length;
+      AIClient.setResponseCache(checkpoint.responseCache(i));
+
       try {
         switch (operation.type) {
           case 'create_table':
@@ -676,19 +869,35 @@ export class DatabaseAgent {
             await this.executeCreateHooks(operation, projectContext);
             success = true;
             break;
-          default:
-            this.logger.warn(`Unknown operation type: ${operation.type}`);
+          default: {
+            const plugin = findOperationPlugin(operation.type);
+            if (!plugin) {
+              this.logger.warn(`Unknown operation type: ${operation.type}`);
+              break;
+            }
+            await this.executePluginOperation(plugin, operation, projectContext);
+            success = true;
+          }
         }
 
         // Record successful operation
-        await this.recordOperation(operationId, operation, success, projectContext);
+        await this.recordOperation(operationId, operation, success, projectContext, this.usageTracker.summarize(usageMark), fileMark);
+        await checkpoint.markOperation(i, 'completed');
 
       } catch (error) {
-        this.logger.error(`Operation failed: ${error instanceof Error ? error.message : String(error)}`);
-        await this.recordOperation(operationId, operation, false, projectContext);
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Operation failed: ${message}`);
+        await this.recordOperation(operationId, operation, false, projectContext, this.usageTracker.summarize(usageMark), fileMark);
+        await checkpoint.markOperation(i, 'failed', message);
+        await checkpoint.markFailed();
+        this.logger.info(`Run checkpoint saved - fix the problem and run 'db-agent resume ${checkpoint.runId}' to continue`);
         throw error;
+      } finally {
+        AIClient.setResponseCache(null);
       }
     }
+
+    await checkpoint.complete();
   }
 
   private async executeCreateTable(operation: DatabaseOperation, projectContext: ProjectContext): Promise<void> {
@@ -809,7 +1018,8 @@ export class DatabaseAgent {
         includeIndexes: true,
         includePolicies: true,
         includeSeedData: shouldEmbedSeedData,
-        seedData: shouldEmbedSeedData ? (seedData || undefined) : undefined
+        seedData: shouldEmbedSeedData ? (seedData || undefined) : undefined,
+        tableExists: tableAlreadyExists
       }
     );
 
@@ -829,14 +1039,12 @@ export class DatabaseAgent {
     }
     
     // Create migration file with enhanced naming
-    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
-    const operationName = `${operation.description}_${tableName}`.replace(/\s+/g, '_').toLowerCase();
-    const migrationFile = `src/lib/migrations/${timestamp}_${operationName}.sql`;
+    const migrationFile = this.buildMigrationFilePath(operation.description, tableName);
     
     this.logger.info(` Creating migration file: ${migrationFile}`);
     
     // Ensure migrations directory exists
-    await this.fileManager.ensureDirectory('src/lib/migrations');
+    await this.fileManager.ensureDirectory(this.config.migrationOutputDir);
     
     await this.fileManager.createFile(migrationFile, sqlCode);
     
@@ -881,6 +1089,12 @@ export class DatabaseAgent {
           // Add the API file to operation tracking
           if (apiResult.filePath) {
             operation.files.push(apiResult.filePath);
+            this.fileManager.trackChange({
+              type: apiResult.backupPath ? 'update' : 'create',
+              path: apiResult.filePath,
+              content: await this.fileManager.readFile(apiResult.filePath),
+              backup: apiResult.backupPath || undefined
+            });
           }
         } else if (apiResult.skipped) {
           this.logger.info(` API route already exists: ${apiResult.details}`);
@@ -893,6 +1107,13 @@ export class DatabaseAgent {
     }
   }
 
+  // Timestamped migration path for a table created by the given operation
+  private buildMigrationFilePath(description: string, tableName: string): string {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
+    const operationName = `${description}_${tableName}`.replace(/\s+/g, '_').toLowerCase();
+    return `${this.config.migrationOutputDir}/${timestamp}_${operationName}.sql`;
+  }
+
   /**
    * Execute multiple table creation (NEW: Multi-table support)
    */
@@ -954,6 +1175,7 @@ export class DatabaseAgent {
       
       const migrationPaths = [migrationFile];
       const results = await this.migrationExecutor.executeMigrations(migrationPaths);
+      this.transaction.recordMigrations(results);
       
       const successful = results.filter(r => r.success);
       const failed = results.filter(r => !r.success);
@@ -1022,27 +1244,16 @@ export class DatabaseAgent {
   private async isTableAlreadyPopulated(tableName: string): Promise<boolean> {
     try {
       // Check if table has any rows - if it does, consider it populated
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-      
-      if (!supabaseUrl || !supabaseKey) {
-        this.logger.warn('Supabase credentials not available, cannot check population status');
-        return false;
-      }
-
-      const { createClient } = require('@supabase/supabase-js');
-      const supabase = createClient(supabaseUrl, supabaseKey);
-      
-      const { data, error, count } = await supabase
-        .from(tableName)
-        .select('*', { count: 'exact', head: true });
+      const driver = await getDatabaseDriver();
 
-      if (error) {
-        this.logger.warn(`Could not check population status for "${tableName}": ${error.message}`);
+      let rowCount: number;
+      try {
+        rowCount = await driver.countRows(tableName);
+      } catch (error) {
+        this.logger.warn(`Could not check population status for "${tableName}": ${error instanceof Error ? error.message : String(error)}`);
         return false; 
       }
 
-      const rowCount = count || 0;
       this.logger.info(`Table "${tableName}" currently has ${rowCount} rows`);
       
       return rowCount > 0;
@@ -1070,11 +1281,11 @@ export class DatabaseAgent {
       
       // Use the existing migration executor to run the INSERT statements
       const insertSQL = this.generateInsertSQL(tableName, seedData);
-      const tempMigrationFile = `temp_populate_${tableName}_${Date.now()}.sql`;
+      const tempMigrationFile = `${TEMPORARY_MIGRATION_PREFIX}${tableName}_${Date.now()}.sql`;
       
       // Write temporary SQL file
-      await this.fileManager.ensureDirectory('src/lib/migrations');
-      const tempPath = `src/lib/migrations/${tempMigrationFile}`;
+      await this.fileManager.ensureDirectory(this.config.migrationOutputDir);
+      const tempPath = `${this.config.migrationOutputDir}/${tempMigrationFile}`;
       await this.fileManager.createFile(tempPath, insertSQL);
       
       this.logger.info(` Created temporary population script: ${tempMigrationFile}`);
@@ -1082,6 +1293,12 @@ export class DatabaseAgent {
       
       // Execute the INSERT statements
       const results = await this.migrationExecutor.executeMigrations([tempPath]);
+      if (results.some(result => result.success && !result.skipped)) {
+        const keyColumn = this.getConflictColumnForTable(tableName);
+        const keys = seedData.map(record => record[keyColumn]);
+        const keysKnown = keys.every(key => typeof key === 'string' || typeof key === 'number');
+        this.transaction.recordSeedData(tableName, keyColumn, keysKnown ? keys : null, tempMigrationFile);
+      }
       
       // Clean up temporary file
       await this.fileManager.deleteFile(tempPath);
@@ -1237,35 +1454,21 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
       }
     }
     
-    const spotifyTableMap = [
-      { keywords: ['recently played', 'recent songs', 'recent tracks'], table: 'recently_played' },
-      { keywords: ['made for you', 'personalized', 'recommendations'], table: 'playlists' },
-      { keywords: ['popular albums', 'trending albums', 'popular music'], table: 'albums' },
-      { keywords: ['user playlist', 'playlist', 'user list'], table: 'user_playlists' },
-      { keywords: ['search', 'find songs', 'discovery'], table: 'search_history' },
-      { keywords: ['track', 'song', 'music'], table: 'tracks' },
-      { keywords: ['user', 'account', 'profile'], table: 'users' }
-    ];
-    
-    const lowerDescription = description.toLowerCase();
-    for (const mapping of spotifyTableMap) {
-      for (const keyword of mapping.keywords) {
-        if (lowerDescription.includes(keyword)) {
-          const tableName = mapping.table;
-          this.logger.success(` Matched Spotify table by keyword "${keyword}": "${tableName}"`);
-          
-          // PHASE 3: Migration file naming validation
-          const nameValidation = this.validateTableName(tableName, description);
-          if (!nameValidation.isValid) {
-            this.logger.warn(` Table name validation warning: ${nameValidation.warning}`);
-            const suggestedName = nameValidation.suggestedName || tableName;
-            this.logger.info(` Suggested table name: ${suggestedName}`);
-            return suggestedName;
-          }
-          
-          return tableName;
-        }
+    const feature = findFeature(description);
+    if (feature) {
+      const tableName = feature.table;
+      this.logger.success(` Matched ${feature.name} feature by keyword "${matchedKeyword(feature, description)}": "${tableName}"`);
+
+      // PHASE 3: Migration file naming validation
+      const nameValidation = this.validateTableName(tableName, description);
+      if (!nameValidation.isValid) {
+        this.logger.warn(` Table name validation warning: ${nameValidation.warning}`);
+        const suggestedName = nameValidation.suggestedName || tableName;
+        this.logger.info(` Suggested table name: ${suggestedName}`);
+        return suggestedName;
       }
+
+      return tableName;
     }
     
     const wordMatches = description.match(/\b(\w+(?:_\w+)*)\b/g);
@@ -1318,7 +1521,7 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
       let operationName = filename.replace('.sql', '').replace(/^\d+_/, '');
       
       // Generate correct path
-      const correctedPath = `src/lib/migrations/${timestamp}_${operationName}.sql`;
+      const correctedPath = `${this.config.migrationOutputDir}/${timestamp}_${operationName}.sql`;
       
       this.logger.success(` Corrected path: ${correctedPath}`);
       return correctedPath;
@@ -1339,18 +1542,8 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
    * Detects all table types mentioned in an operation description (ADDED: Multi-table support)
    */
   private detectTableTypesFromDescription(description: string): string[] {
-    const lowerDesc = description.toLowerCase();
-    const detectedTypes: string[] = [];
-    
-    if (lowerDesc.includes('recently played') || lowerDesc.includes('recently_played')) {
-      detectedTypes.push('recently_played');
-    }
-    if (lowerDesc.includes('made for you') || lowerDesc.includes('playlist')) {
-      detectedTypes.push('playlists');
-    }
-    if (lowerDesc.includes('popular albums') || (lowerDesc.includes('albums') && !lowerDesc.includes('playlist'))) {
-      detectedTypes.push('albums');
-    }
+    // Only features with an API template have the column schemas and seed data to build a table from
+    const detectedTypes = [...new Set(matchFeatures(description).filter(feature => feature.apiTemplate).map(feature => feature.table))];
     
     this.logger.info(` Detected table types from "${description}": ${detectedTypes.join(', ')}`);
     return detectedTypes;
@@ -1374,7 +1567,7 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
       this.logger.info(` Detected 'recently played' - adding track history schema`);
       columns.push(
         { name: 'track_id', type: 'TEXT', constraints: 'NOT NULL', default: '' },
-        { name: 'user_id', type: 'UUID', constraints: 'NOT NULL', default: `'${DEFAULT_USER_UUID}'` },
+        { name: 'user_id', type: 'UUID', constraints: 'NOT NULL', default: `'${this.config.defaultUserUuid}'` },
         { name: 'title', type: 'TEXT', constraints: 'NOT NULL', default: '' },
         { name: 'artist', type: 'TEXT', constraints: 'NOT NULL', default: '' },
         { name: 'album', type: 'TEXT', constraints: 'NOT NULL', default: '' },
@@ -1483,7 +1676,7 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
               image_url: item.albumArt || item.image || null,
               duration: typeof item.duration === 'number' ? item.duration : 180,
               played_at: new Date(Date.now() - (index + 1) * 60 * 60 * 1000).toISOString(), // Staggered play times
-              user_id: DEFAULT_USER_UUID,
+              user_id: this.config.defaultUserUuid,
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString()
             };
@@ -1505,7 +1698,7 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
               description: item.artist || 'Personalized playlist just for you', // Using artist field as description
               image_url: item.albumArt || item.image || null,
               playlist_type: playlistType,
-              user_id: DEFAULT_USER_UUID,
+              user_id: this.config.defaultUserUuid,
               recommendation_score: Math.random() * 1.0, // Random score 0.0-1.0 for playlists
               genre: genre,
               created_at: { __sqlFunction: true, expression: 'NOW()' },
@@ -1613,10 +1806,9 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
     shouldSkip: boolean;
   }> {
     const fs = require('fs');
-    const path = require('path');
     
     try {
-      const migrationsDir = path.join(process.cwd(), 'src/lib/migrations');
+      const migrationsDir = path.join(process.cwd(), this.config.migrationOutputDir);
       
       if (!fs.existsSync(migrationsDir)) {
         this.logger.info('No migrations directory found - proceeding with table creation');
@@ -1895,9 +2087,10 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
   private async executeCreateAPI(operation: DatabaseOperation, projectContext: ProjectContext): Promise<void> {
     this.logger.generating('Creating API endpoints...');
 
-    // Get existing tables to prevent relationship errors
-    const existingTables = await this.getExistingTablesList();
-    const tableSchemas = await this.getTableSchemasInfo(existingTables);
+    // Get existing tables to prevent relationship errors; a pulled snapshot has keys, defaults and policies too
+    const snapshot = projectContext.schemaSnapshot;
+    const existingTables = snapshot ? snapshot.tables.map(table => table.name) : await this.getExistingTablesList();
+    const tableSchemas = snapshot ? describeSchemaTables(snapshot.tables) : await this.getTableSchemasInfo(existingTables);
 
     for (const file of operation.files) {
       const apiPrompt = `Create a Next.js API route for: ${operation.description}
@@ -1934,7 +2127,7 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
       ## Response Format:
       Return only the TypeScript code for the API route, no explanations or markdown formatting.`;
 
-      const apiCode = await this.aiClient.generateText(apiPrompt, operation.description);
+      const apiCode = await this.aiClient.generateText(apiPrompt, operation.description, 'api');
       
       // Ensure API directory exists
       const apiDir = file.split('/').slice(0, -1).join('/');
@@ -1953,36 +2146,15 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
         // Read existing component
         const existingComponent = await this.fileManager.readFile(file);
         
-        const componentPrompt = `Update this React component to use database instead of hardcoded data:
-
-        ## Operation: ${operation.description}
-        ## File: ${file}
-
-        ## Current Component:
-        ${existingComponent}
-
-        ## Available API Endpoints:
-        ${operation.apiEndpoints?.map(endpoint => `- ${endpoint}`).join('\n') || 'Will be created'}
-
-        ## Requirements:
-        - Replace hardcoded data with API calls
-        - Add loading states with proper UI feedback
-        - Add error handling with user-friendly messages
-        - Maintain exact same UI/UX appearance
-        - Use React hooks (useState, useEffect, useCallback)
-        - Add proper TypeScript types
-        - Include proper error boundaries
-        - Add optimistic updates where appropriate
-        - Follow React best practices
-
-        ## Response Format:
-        Return only the updated TypeScript/React component code, no explanations or markdown formatting.`;
-
-        const updatedComponent = await this.aiClient.generateText(componentPrompt, operation.description);
+        const componentPrompt = this.buildComponentPrompt(operation, file, existingComponent);
+        const updatedComponent = await this.aiClient.streamWithProgress(componentPrompt, operation.description, `Rewriting ${file}`, 'component');
         
         await this.fileManager.updateFile(file, updatedComponent);
         this.logger.success(`Updated component: ${file}`);
       } catch (error) {
+        if (this.cancelRequested) {
+          throw error;
+        }
         this.logger.error(`Failed to update component ${file}: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
@@ -1991,7 +2163,7 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
   private async executeCreateTypes(operation: DatabaseOperation, projectContext: ProjectContext): Promise<void> {
     this.logger.generating('Creating TypeScript types...');
 
-    const typesFile = 'src/lib/types/database.ts';
+    const typesFile = this.config.typesFile;
     let existingTypes = '';
     let shouldAppend = false;
     
@@ -2005,7 +2177,50 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
       shouldAppend = false;
     }
 
-    const typesPrompt = shouldAppend 
+    const typesPrompt = this.buildTypesPrompt(operation, projectContext, shouldAppend ? existingTypes : null);
+
+    const typesCode = await this.aiClient.generateText(typesPrompt, operation.description);
+    
+    await this.fileManager.ensureDirectory(path.dirname(typesFile));
+    
+    if (shouldAppend) {
+      await this.fileManager.updateFile(typesFile, typesCode);
+      this.logger.success(`Updated types file with new definitions: ${typesFile}`);
+    } else {
+      await this.fileManager.createFile(typesFile, typesCode);
+      this.logger.success(`Created types file: ${typesFile}`);
+    }
+  }
+
+  private buildComponentPrompt(operation: DatabaseOperation, file: string, existingComponent: string): string {
+    return `Update this React component to use database instead of hardcoded data:
+
+        ## Operation: ${operation.description}
+        ## File: ${file}
+
+        ## Current Component:
+        ${existingComponent}
+
+        ## Available API Endpoints:
+        ${operation.apiEndpoints?.map(endpoint => `- ${endpoint}`).join('\n') || 'Will be created'}
+
+        ## Requirements:
+        - Replace hardcoded data with API calls
+        - Add loading states with proper UI feedback
+        - Add error handling with user-friendly messages
+        - Maintain exact same UI/UX appearance
+        - Use React hooks (useState, useEffect, useCallback)
+        - Add proper TypeScript types
+        - Include proper error boundaries
+        - Add optimistic updates where appropriate
+        - Follow React best practices
+
+        ## Response Format:
+        Return only the updated TypeScript/React component code, no explanations or markdown formatting.`;
+  }
+
+  private buildTypesPrompt(operation: DatabaseOperation, projectContext: ProjectContext, existingTypes: string | null): string {
+    return existingTypes !== null
       ? `Add new TypeScript type definitions for: ${operation.description}
 
     ## Existing Types File:
@@ -2043,31 +2258,19 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
 
     ## Response Format:
     Return only the TypeScript type definitions, no explanations or markdown formatting.`;
-
-    const typesCode = await this.aiClient.generateText(typesPrompt, operation.description);
-    
-    await this.fileManager.ensureDirectory('src/lib/types');
-    
-    if (shouldAppend) {
-      await this.fileManager.updateFile(typesFile, typesCode);
-      this.logger.success(`Updated types file with new definitions: ${typesFile}`);
-    } else {
-      await this.fileManager.createFile(typesFile, typesCode);
-      this.logger.success(`Created types file: ${typesFile}`);
-    }
   }
 
   private async executeCreateHooks(operation: DatabaseOperation, projectContext: ProjectContext): Promise<void> {
     this.logger.generating('Creating custom React hooks...');
 
-    await this.fileManager.ensureDirectory('src/hooks');
+    await this.fileManager.ensureDirectory(this.config.hooksDir);
     
     // Check if database.ts exists (legacy file)
-    const legacyHooksFile = 'src/hooks/database.ts';
+    const legacyHooksFile = path.posix.join(this.config.hooksDir, 'database.ts');
     const legacyFileExists = await this.fileManager.fileExists(legacyHooksFile);
     
     if (legacyFileExists) {
-      this.logger.info('Found existing src/hooks/database.ts - using modern hook architecture');
+      this.logger.info(`Found existing ${legacyHooksFile} - using modern hook architecture`);
       
       // Determine the appropriate hook file based on operation description
       const hookFile = this.determineHookFile(operation.description);
@@ -2099,22 +2302,9 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
   }
 
   private determineHookFile(description: string): string {
-    const lowerDesc = description.toLowerCase();
-    
-    if (lowerDesc.includes('recently played') || lowerDesc.includes('recent tracks') || lowerDesc.includes('recent songs')) {
-      return 'src/hooks/use-recently-played.ts';
-    } else if (lowerDesc.includes('popular albums') || lowerDesc.includes('trending albums')) {
-      return 'src/hooks/use-albums.ts';
-    } else if (lowerDesc.includes('made for you') || lowerDesc.includes('playlist') || lowerDesc.includes('recommendations')) {
-      return 'src/hooks/use-playlists.ts';
-    } else if (lowerDesc.includes('search') || lowerDesc.includes('discovery')) {
-      return 'src/hooks/use-search.ts';
-    } else if (lowerDesc.includes('user') || lowerDesc.includes('profile')) {
-      return 'src/hooks/use-user.ts';
-    } else {
-      // Generic hook for unmatched operations
-      return 'src/hooks/use-data.ts';
-    }
+    const feature = findFeature(description, candidate => !!candidate.hookFile);
+    // Generic hook for unmatched operations
+    return path.posix.join(this.config.hooksDir, feature?.hookFile || 'use-data.ts');
   }
 
   private async canExistingHookHandle(hookFile: string, description: string): Promise<boolean> {
@@ -2175,7 +2365,7 @@ ON CONFLICT (${conflictColumn}) DO NOTHING;`;
   }
 
   private async ensureHooksIndex(): Promise<void> {
-    const indexFile = 'src/hooks/index.ts';
+    const indexFile = path.posix.join(this.config.hooksDir, 'index.ts');
     if (await this.fileManager.fileExists(indexFile)) {
       this.logger.info('Hooks index.ts already exists');
       return;
@@ -2231,7 +2421,7 @@ export const CACHE_DURATIONS = {
     Return only the TypeScript hook code, no explanations or markdown formatting.`;
 
     const hooksCode = await this.aiClient.generateText(hooksPrompt, operation.description);
-    const hooksFile = 'src/hooks/database.ts';
+    const hooksFile = path.posix.join(this.config.hooksDir, 'database.ts');
     await this.fileManager.createFile(hooksFile, hooksCode);
     this.logger.success(`Created legacy hooks file: ${hooksFile}`);
   }
@@ -2297,6 +2487,7 @@ export const CACHE_DURATIONS = {
       // Execute migrations using the migration executor
       this.logger.info(`Executing ${migrationPaths.length} migration file(s)...`);
       const results = await this.migrationExecutor.executeMigrations(migrationPaths);
+      this.transaction.recordMigrations(results);
 
       // Process results
       const successful = results.filter(r => r.success);
@@ -2334,6 +2525,7 @@ export const CACHE_DURATIONS = {
       
       // Update project context with new tables
       projectContext.databaseTables.push(...allTablesCreated);
+      await this.refreshSchemaSnapshot(projectContext);
 
     } catch (error) {
       this.logger.error(`Migration execution failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -2382,6 +2574,51 @@ ${failedResults.map(result => `-- FAILED: ${result.migration.filename} - ${resul
     this.logger.success('Created manual setup script: database-setup-manual.sql');
   }
 
+  // Runs an operation type added by a plugin; its rollback hook is journaled before it starts
+  private async executePluginOperation(plugin: OperationPlugin, operation: DatabaseOperation, projectContext: ProjectContext): Promise<void> {
+    this.logger.executing(`Running ${plugin.name} operation from plugin...`);
+    const context = this.createPluginContext(operation, projectContext);
+
+    const rollback = plugin.rollback;
+    if (rollback) {
+      this.transaction.recordPluginOperation(plugin.name, () => rollback.call(plugin, operation, context));
+    }
+
+    await plugin.execute(operation, context);
+    this.logger.success(`${plugin.name} operation completed`);
+  }
+
+  private createPluginContext(operation: DatabaseOperation, projectContext: ProjectContext): OperationPluginContext {
+    return {
+      projectRoot: projectContext.projectRoot,
+      config: this.config,
+      logger: this.logger,
+      fileManager: this.fileManager,
+      runMigration: async (name, upSql, downSql) => {
+        const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
+        const baseName = `${this.config.migrationOutputDir}/${timestamp}_${name.replace(/\W+/g, '_').toLowerCase()}`;
+        // The timestamp has seconds resolution, so repeated calls with the same name get a counter
+        let migrationFile = `${baseName}.sql`;
+        for (let counter = 2; await this.fileManager.fileExists(path.join(projectContext.projectRoot, migrationFile)); counter++) {
+          migrationFile = `${baseName}_${counter}.sql`;
+        }
+        await this.fileManager.ensureDirectory(this.config.migrationOutputDir);
+        await this.fileManager.createFile(migrationFile, formatMigrationSections(`-- ${operation.type}: ${operation.description}`, upSql, downSql));
+        operation.files.push(migrationFile);
+
+        const results = await this.migrationExecutor.executeMigrations([path.join(projectContext.projectRoot, migrationFile)]);
+        this.transaction.recordMigrations(results);
+        const failed = results.find(result => !result.success);
+        if (failed) {
+          throw new Error(`Migration ${failed.migration.filename} failed: ${failed.error}`);
+        }
+        return migrationFile;
+      },
+      executeSql: sql => this.migrationExecutor.executeSql(sql),
+      generateText: (systemPrompt, userPrompt) => this.aiClient.generateText(systemPrompt, userPrompt)
+    };
+  }
+
   // Filter operations to avoid redundant work
   private async filterRedundantOperations(operations: DatabaseOperation[], projectContext: ProjectContext): Promise<DatabaseOperation[]> {
     const filteredOperations: DatabaseOperation[] = [];
@@ -2468,8 +2705,9 @@ ${failedResults.map(result => `-- FAILED: ${result.migration.filename} - ${resul
 
   // Convert file path to API path
   private filePathToAPIPath(filePath: string): string {
-    // Convert src/app/api/route-name/route.ts to /api/route-name
-    const apiMatch = filePath.match(/src\/app\/api\/([^\/]+)/);
+    // Convert <apiRoot>/route-name/route.ts to /api/route-name
+    const apiRoot = this.config.apiRoot.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const apiMatch = filePath.match(new RegExp(`${apiRoot}/([^/]+)`));
     if (apiMatch) {
       return `/api/${apiMatch[1]}`;
     }
@@ -2484,7 +2722,14 @@ ${failedResults.map(result => `-- FAILED: ${result.migration.filename} - ${resul
   }
 
   // Record operation in history
-  private async recordOperation(operationId: string, operation: DatabaseOperation, success: boolean, projectContext: ProjectContext): Promise<void> {
+  private async recordOperation(
+    operationId: string,
+    operation: DatabaseOperation,
+    success: boolean,
+    projectContext: ProjectContext,
+    usage?: UsageSummary,
+    fileMark?: number
+  ): Promise<void> {
     // Map operation type to history type (filtering to only supported types)
     const supportedTypes = ['create_table', 'create_api', 'update_component', 'run_migration'];
     const operationType = supportedTypes.includes(operation.type) ? operation.type as 'create_table' | 'create_api' | 'update_component' | 'run_migration' : 'run_migration';
@@ -2498,15 +2743,27 @@ ${failedResults.map(result => `-- FAILED: ${result.migration.filename} - ${resul
       executedAt: new Date(),
       rollbackAvailable: success && ['create_table', 'run_migration'].includes(operation.type),
       metadata: {
+        operationType: operation.type,
+        tableName: operation.tableSchema?.name,
         dependencies: operation.dependencies,
         tableSchema: operation.tableSchema,
         apiEndpoints: operation.apiEndpoints
-      }
+      },
+      usage: usage ? this.toUsageTotals(usage) : undefined,
+      fileChanges: fileMark !== undefined ? this.fileManager.getRecordedChanges(fileMark) : undefined,
+      runId: this.currentRun?.runId,
+      query: this.currentRun?.query
     };
 
     // Save to project analyzer (which handles the history file)
     const projectAnalyzer = new (await import('./project-analyzer')).ProjectAnalyzer(projectContext.projectRoot);
     await projectAnalyzer.saveOperationHistory(historyEntry);
+    this.currentRun?.operationIds.push(operationId);
+  }
+
+  private toUsageTotals(summary: UsageSummary): UsageTotals {
+    const { calls, promptTokens, completionTokens, totalTokens, costUsd } = summary;
+    return { calls, promptTokens, completionTokens, totalTokens, costUsd };
   }
 
   // Helper method to get current status
@@ -2517,14 +2774,25 @@ ${failedResults.map(result => `-- FAILED: ${result.migration.filename} - ${resul
   // Helper method to cancel current operation
   async cancelOperation(): Promise<void> {
     this.logger.warn('Cancelling current operation...');
-    await this.fileManager.rollbackOperations();
+    this.cancelRequested = true;
+
+    const cancelledStreams = AIClient.cancelActiveStreams();
+    if (cancelledStreams > 0) {
+      this.logger.info(`Stopped ${cancelledStreams} AI stream(s)`);
+    }
+
+    // A running query unwinds and rolls back its own changes
+    if (this.queryRunning) {
+      return;
+    }
+
+    await this.transaction.rollback();
     this.logger.success('Operation cancelled and changes rolled back');
   }
 
   // Save population script for later manual execution
   private async savePopulationScript(tableName: string, script: string): Promise<void> {
     const fs = require('fs').promises;
-    const path = require('path');
     
     try {
       const scriptsDir = path.join(process.cwd(), 'database-population-scripts');
@@ -2557,33 +2825,46 @@ ${script}
   }
 
   /**
-   * Get list of existing tables from Supabase to prevent relationship errors
+   * Re-pulls the schema snapshot after migrations so later operations see the new tables. Projects that
+   * never ran `schema pull` are left alone.
+   */
+  private async refreshSchemaSnapshot(projectContext: ProjectContext): Promise<void> {
+    const previous = projectContext.schemaSnapshot;
+    if (!previous) {
+      return;
+    }
+
+    try {
+      const snapshot = await pullSchemaSnapshot(await getDatabaseDriver(), previous.schema);
+      await saveSchemaSnapshot(projectContext.projectRoot, snapshot);
+      projectContext.schemaSnapshot = snapshot;
+      this.logger.info(`Schema snapshot updated (${snapshot.tables.length} tables)`);
+    } catch (error) {
+      this.logger.warn(`Could not update schema snapshot: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get list of existing tables from the database to prevent relationship errors
    */
   private async getExistingTablesList(): Promise<string[]> {
     try {
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-      
-      if (!supabaseUrl || !supabaseKey) {
-        this.logger.warn('Supabase credentials not available, returning empty table list');
+      let driver: DatabaseDriver;
+      try {
+        driver = await getDatabaseDriver();
+      } catch {
+        this.logger.warn('Database not available, returning empty table list');
         return [];
       }
 
-      const { createClient } = require('@supabase/supabase-js');
-      const supabase = createClient(supabaseUrl, supabaseKey);
-      
-      const { data, error } = await supabase
-        .from('information_schema.tables')
-        .select('table_name')
-        .eq('table_schema', 'public')
-        .neq('table_name', 'migrations');
-
-      if (error) {
-        this.logger.warn(`Could not fetch existing tables: ${error.message}`);
+      let tableNames: string[];
+      try {
+        tableNames = (await driver.listTables('public')).filter(table => table !== 'migrations');
+      } catch (error) {
+        this.logger.warn(`Could not fetch existing tables: ${error instanceof Error ? error.message : String(error)}`);
         return ['recently_played', 'playlists', 'albums']; // Fallback to known tables
       }
 
-      const tableNames = data?.map(t => t.table_name) || [];
       this.logger.info(` Found existing tables: ${tableNames.join(', ')}`);
       return tableNames;
       
@@ -2598,30 +2879,24 @@ ${script}
    */
   private async getTableSchemasInfo(tableNames: string[]): Promise<string> {
     try {
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-      
-      if (!supabaseUrl || !supabaseKey || tableNames.length === 0) {
+      if (tableNames.length === 0) {
         return 'No table schemas available';
       }
 
-      const { createClient } = require('@supabase/supabase-js');
-      const supabase = createClient(supabaseUrl, supabaseKey);
+      let driver: DatabaseDriver;
+      try {
+        driver = await getDatabaseDriver();
+      } catch {
+        return 'No table schemas available';
+      }
       
       const schemas: string[] = [];
       
       for (const tableName of tableNames) {
         try {
-          const { data, error } = await supabase
-            .from('information_schema.columns')
-            .select('column_name, data_type, is_nullable')
-            .eq('table_name', tableName)
-            .eq('table_schema', 'public');
-
-          if (!error && data) {
-            const columns = data.map(col => `${col.column_name}: ${col.data_type}${col.is_nullable === 'NO' ? ' NOT NULL' : ''}`);
-            schemas.push(`Table ${tableName}: ${columns.join(', ')}`);
-          }
+          const columns = (await driver.listColumns(tableName, 'public'))
+            .map(col => `${col.name}: ${col.dataType}${col.nullable ? '' : ' NOT NULL'}`);
+          schemas.push(`Table ${tableName}: ${columns.join(', ')}`);
         } catch (err) {
           // Skip this table if schema fetch fails
           continue;
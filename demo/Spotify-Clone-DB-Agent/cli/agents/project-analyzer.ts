@@ -1,8 +1,12 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { Logger } from '../utils/logger';
-import { FileManager } from '../utils/file-manager';
+import { FileManager, RecordedFileChange } from '../utils/file-manager';
 import { StateAnalyzer } from '../utils/state-analyzer';
+import { UsageTotals } from '../utils/usage-tracker';
+import { formatReference, loadSchemaSnapshot, SchemaSnapshot } from '../utils/schema-snapshot';
+import { AgentConfig, getAgentConfig } from '../config/agent-config';
+import { FEATURE_REGISTRY } from '../config/feature-registry';
 
 export interface ComponentInfo {
   name: string;
@@ -82,6 +86,13 @@ export interface OperationHistory {
   executedAt: Date;
   rollbackAvailable: boolean;
   metadata?: any;
+  usage?: UsageTotals;
+  // Run that produced the operation and the query it came from (not recorded by older versions)
+  runId?: string;
+  query?: string;
+  // Files actually written by the operation, used by `undo`
+  fileChanges?: RecordedFileChange[];
+  undoneAt?: Date;
 }
 
 export interface ProjectContext {
@@ -89,6 +100,8 @@ export interface ProjectContext {
   currentDataStructures: DataStructure[];
   existingAPIs: APIRoute[];
   databaseSchema: Table[];
+  // Live schema from `schema pull`, null when the project has no snapshot
+  schemaSnapshot: SchemaSnapshot | null;
   hardcodedDataAnalysis: HardcodedData[];
   supabaseConfigured: boolean;
   packageJson: any;
@@ -124,12 +137,14 @@ export class ProjectAnalyzer {
   private fileManager: FileManager;
   private projectRoot: string;
   private stateAnalyzer: StateAnalyzer;
+  private config: AgentConfig;
 
   constructor(projectRoot: string = process.cwd()) {
     this.logger = new Logger();
     this.fileManager = new FileManager(projectRoot);
     this.projectRoot = projectRoot;
     this.stateAnalyzer = new StateAnalyzer(projectRoot);
+    this.config = getAgentConfig();
   }
 
   async analyzeProject(): Promise<ProjectContext> {
@@ -140,6 +155,7 @@ export class ProjectAnalyzer {
       currentDataStructures: [],
       existingAPIs: [],
       databaseSchema: [],
+      schemaSnapshot: null,
       hardcodedDataAnalysis: [],
       supabaseConfigured: false,
       packageJson: {},
@@ -200,8 +216,13 @@ export class ProjectAnalyzer {
       this.logger.analyzing('Analyzing API routes...');
       context.existingAPIs = await this.analyzeAPIRoutes();
 
-      // Analyze database schema (if Supabase is configured)
-      if (context.supabaseConfigured) {
+      // Analyze database schema: the pulled snapshot when there is one, else the Supabase types (if configured)
+      context.schemaSnapshot = await this.loadSchemaSnapshot();
+      if (context.schemaSnapshot) {
+        this.logger.analyzing('Reading database schema snapshot...');
+        context.databaseSchema = this.tablesFromSnapshot(context.schemaSnapshot);
+        context.databaseTables = context.databaseSchema.map(table => table.name);
+      } else if (context.supabaseConfigured) {
         this.logger.analyzing('Analyzing database schema...');
         context.databaseSchema = await this.analyzeDatabaseSchema();
         context.databaseTables = context.databaseSchema.map(table => table.name);
@@ -297,7 +318,7 @@ export class ProjectAnalyzer {
       components.push(...componentComponents);
 
       // Analyze API routes
-      const apiDir = path.join(this.projectRoot, 'src/app/api');
+      const apiDir = path.join(this.projectRoot, this.config.apiRoot);
       const apiComponents = await this.analyzeDirectory(apiDir, 'api');
       components.push(...apiComponents);
 
@@ -582,7 +603,7 @@ export class ProjectAnalyzer {
     const routes: APIRoute[] = [];
 
     try {
-      const apiDir = path.join(this.projectRoot, 'src/app/api');
+      const apiDir = path.join(this.projectRoot, this.config.apiRoot);
       const apiRoutes = await this.findAPIRoutes(apiDir);
       routes.push(...apiRoutes);
     } catch (error) {
@@ -664,17 +685,45 @@ export class ProjectAnalyzer {
     return [...new Set(operations)]; // Remove duplicates
   }
 
+  private async loadSchemaSnapshot(): Promise<SchemaSnapshot | null> {
+    try {
+      return await loadSchemaSnapshot(this.projectRoot);
+    } catch (error) {
+      this.logger.warn(`Ignoring schema snapshot: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private tablesFromSnapshot(snapshot: SchemaSnapshot): Table[] {
+    return snapshot.tables.map(table => ({
+      name: table.name,
+      columns: table.columns.map(column => {
+        const foreignKey = table.foreignKeys.find(fk => fk.columns.length === 1 && fk.columns[0] === column.name);
+        return {
+          name: column.name,
+          type: column.type,
+          nullable: column.nullable,
+          primaryKey: table.primaryKey.includes(column.name),
+          foreignKey: foreignKey ? formatReference(foreignKey) : undefined,
+          defaultValue: column.default ?? undefined
+        };
+      }),
+      exists: true
+    }));
+  }
+
+  // Guesses tables from the generated Database type; only used until `schema pull` has been run
   private async analyzeDatabaseSchema(): Promise<Table[]> {
     try {
       // Check if Supabase types file exists
-      const supabaseTypesPath = path.join(this.projectRoot, 'src/lib/supabase.ts');
+      const supabaseTypesPath = path.join(this.projectRoot, this.config.databaseTypesFile);
       const content = await fs.readFile(supabaseTypesPath, 'utf8');
       
       // Extract table definitions from the types
       const tables: Table[] = [];
       
       // Look for table definitions in the Database type
-      const tableMatches = content.match(/(\w+):\s*\{[\s\S]*?Row:\s*\{[\s\S]*?\}/g) || [];
+      const tableMatches = content.match(/(\w+):\s*\{\s*Row:\s*\{[\s\S]*?\}/g) || [];
       
       for (const match of tableMatches) {
         const nameMatch = match.match(/(\w+):\s*\{/);
@@ -749,13 +798,7 @@ export class ProjectAnalyzer {
   private async findMigrationFiles(): Promise<string[]> {
     const migrationFiles: string[] = [];
     
-    const migrationDirs = [
-      'src/lib/migrations',
-      'supabase/migrations',
-      'migrations'
-    ];
-
-    for (const dir of migrationDirs) {
+    for (const dir of this.config.migrationDirs) {
       const fullPath = path.join(this.projectRoot, dir);
       
       try {
@@ -815,63 +858,26 @@ export class ProjectAnalyzer {
   private async analyzeImplementedFeatures(context: ProjectContext, systemState: any): Promise<ImplementedFeature[]> {
     const features: ImplementedFeature[] = [];
     
-    // Common Spotify features to track
-    const featurePatterns = [
-      {
-        name: 'recently_played',
-        description: 'Recently played songs tracking',
-        expectedTable: 'recently_played',
-        expectedAPI: '/api/recently-played',
-        expectedComponents: ['recently-played', 'music-player']
-      },
-      {
-        name: 'made_for_you',
-        description: 'Personalized recommendations',
-        expectedTable: 'made_for_you',
-        expectedAPI: '/api/made-for-you',
-        expectedComponents: ['recommendations', 'made-for-you']
-      },
-      {
-        name: 'popular_albums',
-        description: 'Popular albums display',
-        expectedTable: 'popular_albums',
-        expectedAPI: '/api/popular-albums',
-        expectedComponents: ['popular-albums', 'album-grid']
-      },
-      {
-        name: 'user_playlists',
-        description: 'User playlist management',
-        expectedTable: 'user_playlists',
-        expectedAPI: '/api/playlists',
-        expectedComponents: ['playlist', 'sidebar']
-      },
-      {
-        name: 'search_functionality',
-        description: 'Search and discovery',
-        expectedTable: 'search_history',
-        expectedAPI: '/api/search',
-        expectedComponents: ['search', 'search-results']
-      }
-    ];
-    
-    for (const pattern of featurePatterns) {
-      const tableExists = systemState.database.tables.includes(pattern.expectedTable);
-      const apiExists = systemState.api.routes.some((r: any) => r.path === pattern.expectedAPI);
-      const componentsExist = pattern.expectedComponents.some(comp => 
+    // Features with a route can be detected from their table and API
+    for (const feature of FEATURE_REGISTRY.filter(candidate => candidate.endpoint)) {
+      const endpoint = feature.endpoint!;
+      const tableExists = systemState.database.tables.includes(feature.table);
+      const apiExists = systemState.api.routes.some((r: any) => r.path === endpoint);
+      const componentsExist = feature.components.some(comp => 
         context.components.some(c => c.path.toLowerCase().includes(comp))
       );
       
       const migrationFiles = context.migrationFiles.filter(file => 
-        file.toLowerCase().includes(pattern.name) || 
-        file.toLowerCase().includes(pattern.expectedTable)
+        file.toLowerCase().includes(feature.name) || 
+        file.toLowerCase().includes(feature.table)
       );
       
       features.push({
-        name: pattern.name,
-        description: pattern.description,
-        tables: tableExists ? [pattern.expectedTable] : [],
-        apis: apiExists ? [pattern.expectedAPI] : [],
-        components: componentsExist ? pattern.expectedComponents : [],
+        name: feature.name,
+        description: feature.description,
+        tables: tableExists ? [feature.table] : [],
+        apis: apiExists ? [endpoint] : [],
+        components: componentsExist ? feature.components : [],
         implemented: tableExists && apiExists,
         lastChecked: new Date(),
         migrationFiles
@@ -881,7 +887,7 @@ export class ProjectAnalyzer {
     return features;
   }
 
-  private async loadOperationHistory(): Promise<OperationHistory[]> {
+  async loadOperationHistory(): Promise<OperationHistory[]> {
     try {
       const historyFile = path.join(this.projectRoot, '.db-agent-history.json');
       const historyData = await fs.readFile(historyFile, 'utf8');
@@ -917,4 +923,19 @@ export class ProjectAnalyzer {
       this.logger.warn(`Could not save operation history: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  // Flag history entries as reverted so they are not undone twice
+  async markOperationsUndone(operationIds: string[]): Promise<void> {
+    const historyFile = path.join(this.projectRoot, '.db-agent-history.json');
+    const history = await this.loadOperationHistory();
+    const undoneAt = new Date();
+
+    for (const entry of history) {
+      if (operationIds.includes(entry.operationId)) {
+        entry.undoneAt = undoneAt;
+      }
+    }
+
+    await fs.writeFile(historyFile, JSON.stringify(history, null, 2));
+  }
 } 
\ No newline at end of file
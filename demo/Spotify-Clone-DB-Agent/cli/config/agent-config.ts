@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { formatZodIssues } from '../utils/structured-output';
+
+export const CONFIG_FILE_NAMES = ['db-agent.config.json', 'db-agent.config.ts'];
+
+const relativePath = z.string().min(1).refine(value => !path.isAbsolute(value), 'must be relative to the project root');
+
+export const agentConfigSchema = z.object({
+  // Directories scanned for .sql migrations, in order
+  migrationDirs: z.array(relativePath).min(1).default(['src/lib/migrations', 'supabase/migrations', 'migrations']),
+  // Directory new migrations are written to
+  migrationOutputDir: relativePath.default('src/lib/migrations'),
+  // Root of the Next.js app router API routes
+  apiRoot: relativePath.default('src/app/api'),
+  hooksDir: relativePath.default('src/hooks'),
+  typesFile: relativePath.default('src/lib/types/database.ts'),
+  // Supabase `Database` type written by `types generate`; src/lib/supabase.ts imports it
+  databaseTypesFile: relativePath.default('src/lib/database.types.ts'),
+  // Schema snapshot written by `schema pull` and read when analyzing the project
+  schemaFile: relativePath.default('db-agent.schema.json'),
+  // Desired tables that `schema diff` compares with the live schema (.json, or .ts with a default export)
+  tablesFile: relativePath.default('db-agent.tables.json'),
+  // Component scanned for hardcoded FALLBACK_* data arrays
+  mainComponent: relativePath.default('src/components/spotify-main-content.tsx'),
+  // Used for user_id columns in generated schemas and seed data
+  defaultUserUuid: z.string().uuid().default('00000000-0000-0000-0000-000000000001'),
+  // How long the cached system state in .db-agent-state.json stays valid
+  stateCacheTtlMinutes: z.number().nonnegative().default(5),
+  // Database connection: 'postgres' uses DATABASE_URL, 'supabase' the exec_sql RPC, 'embedded' an in-process
+  // database; 'auto' picks postgres when DATABASE_URL is set
+  databaseDriver: z.enum(['auto', 'supabase', 'postgres', 'embedded']).default('auto'),
+  // Data directory of the embedded database, or 'memory://' to discard it when the command ends
+  embeddedDatabaseDir: relativePath.default('.db-agent-db'),
+  // Modules that add custom operation types to the agent, see OperationPlugin
+  plugins: z.array(relativePath).default([])
+}).strict();
+
+export type AgentConfig = z.infer<typeof agentConfigSchema>;
+export type AgentConfigInput = z.input<typeof agentConfigSchema>;
+
+export interface LoadedAgentConfig {
+  config: AgentConfig;
+  // Config file the values came from, or null when running on defaults
+  source: string | null;
+}
+
+let activeConfig: LoadedAgentConfig = { config: agentConfigSchema.parse({}), source: null };
+
+/**
+ * Typed helper for db-agent.config.ts: `export default defineConfig({ ... })`
+ */
+export function defineConfig(config: AgentConfigInput): AgentConfigInput {
+  return config;
+}
+
+// Config used by every module; defaults until loadAgentConfig has run
+export function getAgentConfig(): AgentConfig {
+  return activeConfig.config;
+}
+
+export function getAgentConfigSource(): string | null {
+  return activeConfig.source;
+}
+
+/**
+ * Finds, validates and activates the project's db-agent config file
+ */
+export async function loadAgentConfig(projectRoot: string): Promise<LoadedAgentConfig> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const configPath = path.join(projectRoot, fileName);
+    try {
+      await fs.access(configPath);
+    } catch {
+      continue;
+    }
+
+    const raw = await readConfigFile(configPath);
+    const result = agentConfigSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(`Invalid ${fileName}:\n${formatZodIssues(result.error).map(issue => `  - ${issue}`).join('\n')}`);
+    }
+
+    activeConfig = { config: result.data, source: configPath };
+    return activeConfig;
+  }
+
+  activeConfig = { config: agentConfigSchema.parse({}), source: null };
+  return activeConfig;
+}
+
+// Reads a .json file, or the default export of a .ts file
+export async function readConfigFile(configPath: string): Promise<unknown> {
+  if (configPath.endsWith('.json')) {
+    const content = await fs.readFile(configPath, 'utf-8');
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${path.basename(configPath)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // The CLI runs under tsx, so TypeScript config files can be imported directly
+  const imported = await import(pathToFileURL(configPath).href);
+  return imported.default?.default ?? imported.default ?? imported.config;
+}
@@ -0,0 +1,167 @@
+import path from 'path';
+import { getAgentConfig } from './agent-config';
+
+export type QueryStrategy =
+  | 'popularity_order'     // ORDER BY popularity_score DESC
+  | 'recent_order'         // ORDER BY played_at/created_at DESC
+  | 'filtered_personalized' // WHERE playlist_type = 'personalized'
+  | 'simple_select';       // Basic SELECT with limit
+
+export type TransformPattern =
+  | 'album_transform'      // Albums-specific field mapping
+  | 'playlist_transform'   // Playlists-specific field mapping
+  | 'track_transform'      // Track history field mapping
+  | 'basic_transform';     // Minimal field mapping
+
+export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * How APITemplateEngine generates a feature's route
+ */
+export interface FeatureAPITemplate {
+  queryStrategy: QueryStrategy;
+  transformPattern: TransformPattern;
+  methods: HTTPMethod[];
+  description: string;
+}
+
+/**
+ * Everything the agent knows about one app feature. Analysis, planning, table and API generation,
+ * hooks and seed data all read it from here.
+ */
+export interface FeatureDefinition {
+  // Key in implemented-feature tracking, e.g. recently_played
+  name: string;
+  description: string;
+  // Lower-case phrases that mark a request as being about this feature
+  keywords: string[];
+  // Lower-case phrases that rule the feature out even when a keyword matches
+  excludeKeywords?: string[];
+  // Table the feature's rows live in
+  table: string;
+  // Route serving the feature, e.g. /api/recently-played; a feature counts as implemented once it and the table exist
+  endpoint?: string;
+  // Set for features whose table and route the agent can generate
+  apiTemplate?: FeatureAPITemplate;
+  // File name in hooksDir
+  hookFile?: string;
+  // Fragments of component paths that render the feature
+  components: string[];
+  // Array constant in mainComponent with the data shown before the table exists, used as seed data
+  fallbackDataConstant?: string;
+}
+
+/**
+ * Lookups return the first matching feature, so more specific keywords go in earlier entries
+ * ('user playlist' before 'playlist', 'recent tracks' before 'track')
+ */
+export const FEATURE_REGISTRY: FeatureDefinition[] = [
+  {
+    name: 'recently_played',
+    description: 'Recently played songs tracking',
+    keywords: ['recently played', 'recently_played', 'recent songs', 'recent tracks', 'listening history', 'play history', 'track history'],
+    table: 'recently_played',
+    endpoint: '/api/recently-played',
+    apiTemplate: {
+      queryStrategy: 'recent_order',
+      transformPattern: 'track_transform',
+      methods: ['GET', 'POST'],
+      description: 'Recently played tracks API with track history functionality'
+    },
+    hookFile: 'use-recently-played.ts',
+    components: ['recently-played', 'music-player'],
+    fallbackDataConstant: 'FALLBACK_RECENTLY_PLAYED'
+  },
+  {
+    name: 'user_playlists',
+    description: 'User playlist management',
+    keywords: ['user playlist', 'user list'],
+    table: 'user_playlists',
+    endpoint: '/api/playlists',
+    hookFile: 'use-playlists.ts',
+    components: ['playlist', 'sidebar']
+  },
+  {
+    name: 'made_for_you',
+    description: 'Personalized recommendations',
+    keywords: ['made for you', 'made_for_you', 'personalized', 'recommendations', 'recommended playlist', 'custom playlist', 'playlist'],
+    table: 'playlists',
+    endpoint: '/api/playlists/made-for-you',
+    apiTemplate: {
+      queryStrategy: 'filtered_personalized',
+      transformPattern: 'playlist_transform',
+      methods: ['GET', 'POST', 'DELETE'],
+      description: 'Made for you playlists API with playlist management functionality'
+    },
+    hookFile: 'use-playlists.ts',
+    components: ['recommendations', 'made-for-you'],
+    fallbackDataConstant: 'FALLBACK_MADE_FOR_YOU'
+  },
+  {
+    name: 'popular_albums',
+    description: 'Popular albums display',
+    keywords: ['popular albums', 'trending albums', 'top albums', 'chart albums', 'popular music', 'albums'],
+    // Albums in a playlist description belong to the playlist
+    excludeKeywords: ['playlist'],
+    table: 'albums',
+    endpoint: '/api/albums/popular',
+    apiTemplate: {
+      queryStrategy: 'popularity_order',
+      transformPattern: 'album_transform',
+      methods: ['GET', 'POST', 'DELETE'],
+      description: 'Popular albums API with album management functionality'
+    },
+    hookFile: 'use-albums.ts',
+    components: ['popular-albums', 'album-grid'],
+    fallbackDataConstant: 'FALLBACK_POPULAR_ALBUMS'
+  },
+  {
+    name: 'search_functionality',
+    description: 'Search and discovery',
+    keywords: ['search', 'find songs', 'discovery'],
+    table: 'search_history',
+    endpoint: '/api/search',
+    hookFile: 'use-search.ts',
+    components: ['search', 'search-results']
+  },
+  {
+    name: 'tracks',
+    description: 'Track catalog',
+    keywords: ['track', 'song', 'music'],
+    table: 'tracks',
+    components: []
+  },
+  {
+    name: 'users',
+    description: 'User accounts',
+    keywords: ['user', 'account', 'profile'],
+    table: 'users',
+    hookFile: 'use-user.ts',
+    components: []
+  }
+];
+
+// First keyword of the feature that appears in the text, unless one of its exclude keywords does too
+export function matchedKeyword(feature: FeatureDefinition, text: string): string | undefined {
+  const lowerText = text.toLowerCase();
+  if (feature.excludeKeywords?.some(keyword => lowerText.includes(keyword))) return undefined;
+  return feature.keywords.find(keyword => lowerText.includes(keyword));
+}
+
+// Every feature the text mentions, in registry order
+export function matchFeatures(text: string): FeatureDefinition[] {
+  return FEATURE_REGISTRY.filter(feature => matchedKeyword(feature, text) !== undefined);
+}
+
+// First feature the text mentions, optionally among those that pass the filter
+export function findFeature(
+  text: string,
+  filter: (feature: FeatureDefinition) => boolean = () => true
+): FeatureDefinition | undefined {
+  return matchFeatures(text).find(filter);
+}
+
+// Project-relative route file of an endpoint, e.g. src/app/api/recently-played/route.ts
+export function featureRouteFile(endpoint: string): string {
+  return path.posix.join(path.posix.dirname(getAgentConfig().apiRoot), endpoint, 'route.ts');
+}
@@ -0,0 +1,110 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import type { DatabaseOperation } from '../agents/database-agent';
+import { FileManager } from '../utils/file-manager';
+import { Logger } from '../utils/logger';
+import { formatZodIssues } from '../utils/structured-output';
+import { AgentConfig, getAgentConfig } from './agent-config';
+
+/**
+ * What a plugin works with while executing. Files written through fileManager and migrations run with
+ * runMigration belong to the run: they are rolled back when it fails and `db-agent undo` can revert
+ * them. Anything else, such as SQL run with executeSql, survives `db-agent undo`.
+ */
+export interface OperationPluginContext {
+  projectRoot: string;
+  config: AgentConfig;
+  logger: Logger;
+  fileManager: FileManager;
+  // Writes a -- migrate:up / -- migrate:down migration to migrationOutputDir, executes it and returns its path
+  runMigration(name: string, upSql: string, downSql: string): Promise<string>;
+  // Runs SQL without a migration file; undo it in the plugin's rollback, which `db-agent undo` does not call
+  executeSql(sql: string): Promise<void>;
+  generateText(systemPrompt: string, userPrompt: string): Promise<string>;
+}
+
+/**
+ * A custom operation type the planner can use, e.g. create_view. Modules listed in the config's
+ * `plugins` default-export one plugin or an array of them.
+ */
+export interface OperationPlugin {
+  // Operation type used in plans
+  name: string;
+  // Listed with the operation types in the planning prompt; mention the parameters the plugin reads
+  description: string;
+  // Problems with a planned operation; they are sent back to the AI like any other plan validation error
+  validate?(operation: DatabaseOperation): string[];
+  execute(operation: DatabaseOperation, context: OperationPluginContext): Promise<void>;
+  // Undoes what execute did outside fileManager and runMigration when the run fails or is cancelled.
+  // It is also called when execute itself failed, so it must cope with partially applied work.
+  rollback?(operation: DatabaseOperation, context: OperationPluginContext): Promise<void>;
+}
+
+const isFunction = (value: unknown) => typeof value === 'function';
+
+const operationPluginSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'must be snake_case, e.g. create_view'),
+  description: z.string().min(1),
+  validate: z.custom<OperationPlugin['validate']>(isFunction, 'must be a function').optional(),
+  execute: z.custom<OperationPlugin['execute']>(isFunction, 'must be a function'),
+  rollback: z.custom<OperationPlugin['rollback']>(isFunction, 'must be a function').optional()
+});
+
+let activePlugins: OperationPlugin[] = [];
+
+/**
+ * Typed helper for plugin modules: `export default defineOperationPlugin({ ... })`
+ */
+export function defineOperationPlugin(plugin: OperationPlugin): OperationPlugin {
+  return plugin;
+}
+
+// Plugins registered by loadOperationPlugins, in config order
+export function getOperationPlugins(): OperationPlugin[] {
+  return activePlugins;
+}
+
+export function findOperationPlugin(type: string): OperationPlugin | undefined {
+  return activePlugins.find(plugin => plugin.name === type);
+}
+
+/**
+ * Imports and registers the plugin modules listed in the active config. Plugin names may not
+ * shadow a built-in operation type or each other.
+ */
+export async function loadOperationPlugins(projectRoot: string, builtinTypes: readonly string[]): Promise<OperationPlugin[]> {
+  const plugins: OperationPlugin[] = [];
+
+  for (const modulePath of getAgentConfig().plugins) {
+    let exported: unknown;
+    try {
+      // The CLI runs under tsx, so plugins can be written in TypeScript
+      const imported = await import(pathToFileURL(path.join(projectRoot, modulePath)).href);
+      exported = imported.default?.default ?? imported.default;
+    } catch (error) {
+      throw new Error(`Could not load plugin ${modulePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const candidates = Array.isArray(exported) ? exported : [exported];
+    for (const [index, candidate] of candidates.entries()) {
+      const label = candidates.length > 1 ? `${modulePath}[${index}]` : modulePath;
+      const result = operationPluginSchema.safeParse(candidate);
+      if (!result.success) {
+        throw new Error(`Invalid plugin ${label}:\n${formatZodIssues(result.error).map(issue => `  - ${issue}`).join('\n')}`);
+      }
+
+      const plugin = candidate as OperationPlugin;
+      if (builtinTypes.includes(plugin.name)) {
+        throw new Error(`Plugin ${label} uses the name of the built-in operation type ${plugin.name}`);
+      }
+      if (plugins.some(existing => existing.name === plugin.name)) {
+        throw new Error(`Plugin ${label}: operation type ${plugin.name} is already registered`);
+      }
+      plugins.push(plugin);
+    }
+  }
+
+  activePlugins = plugins;
+  return activePlugins;
+}
@@ -13,30 +13,203 @@ config({ path: path.join(projectRoot, '.env') });
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { DatabaseAgent } from './agents/database-agent';
+import { DatabaseAgent, OPERATION_TYPES } from './agents/database-agent';
 import { Logger } from './utils/logger';
 import { ProjectAnalyzer } from './agents/project-analyzer';
-import { MigrationExecutor } from './utils/migration-executor';
+import { MigrationExecutor, PlannedStatement } from './utils/migration-executor';
+import { parseMigrationSections } from './utils/migration-format';
+import { closeDatabaseDriver, createDatabaseDriver, DATABASE_URL_ENV, getDatabaseDriver, resolveDatabaseDriverName } from './utils/database-connection';
+import { loadSchemaSnapshot, pullSchemaSnapshot, saveSchemaSnapshot } from './utils/schema-snapshot';
+import { writeDatabaseTypes } from './utils/database-types';
+import { SchemaDiffer } from './utils/schema-differ';
+import { ConsistencyChecker } from './utils/consistency-checker';
+import { MigrationSquasher } from './utils/migration-squasher';
+import { PlanReviewer } from './utils/plan-reviewer';
+import { UsageBudget, UsageTracker } from './utils/usage-tracker';
+import { getAgentConfig, getAgentConfigSource, loadAgentConfig } from './config/agent-config';
+import { getOperationPlugins, loadOperationPlugins } from './config/operation-plugins';
+import { HistoryFilter, OperationHistoryBrowser } from './utils/operation-history';
+import { UndoManager } from './utils/undo-manager';
+import { RunCheckpoint } from './utils/run-checkpoint';
 
 const program = new Command();
 const logger = new Logger();
 
+// Ctrl+C while a query runs cancels it (including in-flight AI streams) and rolls back its changes
+async function runCancellable(agent: DatabaseAgent, run: () => Promise<void>): Promise<void> {
+  const onInterrupt = () => {
+    logger.warn('Interrupt received - cancelling (press Ctrl+C again to force quit)');
+    process.removeListener('SIGINT', onInterrupt);
+    void agent.cancelOperation();
+  };
+
+  process.on('SIGINT', onInterrupt);
+  try {
+    await run();
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+  }
+}
+
+// Per-run token/cost budget from --max-tokens / --max-cost, falling back to the environment
+function resolveBudget(options: { maxTokens?: string; maxCost?: string }): UsageBudget {
+  const budget = UsageTracker.budgetFromEnv();
+  if (options.maxTokens !== undefined) {
+    budget.maxTokens = Number(options.maxTokens);
+  }
+  if (options.maxCost !== undefined) {
+    budget.maxCostUsd = Number(options.maxCost);
+  }
+  for (const [name, value] of Object.entries(budget)) {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid budget ${name}: ${value}`);
+    }
+  }
+  return budget;
+}
+
+interface HistoryOptions {
+  type?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  on?: string;
+  table?: string;
+  limit?: string;
+}
+
+// Filters shared by the history subcommands
+function resolveHistoryFilter(options: HistoryOptions): HistoryFilter {
+  const parseDate = (value: string, flag: string): Date => {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid date for ${flag}: ${value}`);
+    }
+    return date;
+  };
+
+  const filter: HistoryFilter = { type: options.type, table: options.table };
+  if (options.status !== undefined) {
+    if (!['succeeded', 'failed'].includes(options.status)) {
+      throw new Error(`Invalid --status: ${options.status} (expected succeeded or failed)`);
+    }
+    filter.success = options.status === 'succeeded';
+  }
+  if (options.since) filter.since = parseDate(options.since, '--since');
+  if (options.until) filter.until = parseDate(options.until, '--until');
+  if (options.on) {
+    // A UTC day, like the times history prints; new Date('2025-07-20') is UTC midnight
+    const day = parseDate(options.on, '--on');
+    filter.since = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()));
+    filter.until = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + 1));
+  }
+  return filter;
+}
+
+function resolveHistoryLimit(options: HistoryOptions): number | undefined {
+  if (options.limit === undefined) {
+    return undefined;
+  }
+  const limit = Number(options.limit);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid --limit: ${options.limit}`);
+  }
+  return limit;
+}
+
+function addHistoryFilterOptions(command: Command): Command {
+  return command
+    .option('-t, --type <type>', 'Only operations of this type (e.g. create_table, create_hooks)')
+    .option('-s, --status <status>', 'Only succeeded or failed operations')
+    .option('--since <date>', 'Only operations executed at or after this date/time')
+    .option('--until <date>', 'Only operations executed before this date/time')
+    .option('--on <date>', 'Only operations executed on this UTC day (e.g. 2025-07-20)')
+    .option('--table <name>', 'Only operations touching this table')
+    .option('-n, --limit <count>', 'Show only the most recent entries');
+}
+
+// Print how a migration section is split, with the SQL each statement sends to the database
+function printPlannedStatements(planned: PlannedStatement[], firstLine: number, compact: boolean): void {
+  if (planned.length === 0) {
+    console.log(chalk.gray('  (no statements)'));
+  }
+
+  planned.forEach((entry, i) => {
+    const { terminated } = entry.statement;
+    // Statement lines are relative to the section; show them as lines of the file
+    const startLine = entry.statement.startLine + firstLine - 1;
+    const endLine = entry.statement.endLine + firstLine - 1;
+    const lines = startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+    const notes = [
+      entry.skipReason ? chalk.gray(`skipped: ${entry.skipReason}`) : null,
+      entry.statement.kind === 'copy' && !entry.error ? chalk.cyan('COPY data executed as INSERT') : null,
+      entry.error ? chalk.red(`error: ${entry.error}`) : null,
+      terminated ? null : chalk.yellow('no terminating semicolon')
+    ].filter(Boolean);
+    const suffix = notes.length > 0 ? ` ${notes.join(' ')}` : '';
+
+    if (compact) {
+      const preview = entry.sql.replace(/\s+/g, ' ');
+      console.log(`${i + 1}. ${chalk.gray(`[${lines}]`)} ${preview.substring(0, 100)}${preview.length > 100 ? '...' : ''}${suffix}`);
+      return;
+    }
+
+    console.log(`\n${chalk.bold(`#${i + 1}`)} ${chalk.gray(lines)}${suffix}`);
+    console.log(entry.sql.split('\n').map(line => `  ${line}`).join('\n'));
+  });
+}
+
 program
   .name('db-agent')
   .description('Database Agent CLI for Spotify Clone - Automatically implements database features')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--record <cassette>', 'Record all AI responses to a cassette file')
+  .option('--replay <cassette>', 'Serve AI responses from a cassette file (no API keys or network needed)')
+  .hook('preAction', async (thisCommand) => {
+    // Project config and plugins must be loaded before any agent or analyzer is constructed
+    try {
+      await loadAgentConfig(process.cwd());
+      await loadOperationPlugins(process.cwd(), OPERATION_TYPES);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    // AI clients read the cassette settings from the environment when agents are constructed
+    const { record, replay } = thisCommand.opts();
+    if (record && replay) {
+      logger.error('Use either --record or --replay, not both');
+      process.exit(1);
+    }
+    if (record || replay) {
+      process.env.DB_AGENT_CASSETTE = record || replay;
+      process.env.DB_AGENT_CASSETTE_MODE = record ? 'record' : 'replay';
+    }
+  })
+  .hook('postAction', async () => {
+    // The embedded database writes its data directory on close
+    await closeDatabaseDriver();
+  });
 
 // Interactive mode command
 program
   .command('interactive')
   .alias('i')
   .description('Start interactive mode for database queries')
-  .action(async () => {
+  .option('--dry-run', 'Start with dry-run mode enabled (preview plans without applying them)')
+  .option('--no-review', 'Execute generated plans without asking for approval')
+  .option('--max-tokens <tokens>', 'Abort a run once it has used this many AI tokens')
+  .option('--max-cost <usd>', 'Abort a run once its estimated AI cost reaches this many USD')
+  .action(async (options) => {
     console.log(chalk.blue.bold(' Spotify Clone Database Agent'));
-    console.log(chalk.gray('Ready to help you implement database features!\n'));
+    console.log(chalk.gray('Ready to help you implement database features!'));
+    console.log(chalk.gray('Type "dry-run" to toggle plan preview mode.\n'));
+
+    let dryRun = Boolean(options.dryRun);
 
     const agent = new DatabaseAgent();
     const analyzer = new ProjectAnalyzer();
+    const reviewer = new PlanReviewer();
 
     try {
       // Analyze current project
@@ -50,7 +223,7 @@ program
           {
             type: 'input',
             name: 'query',
-            message: chalk.cyan('What database feature would you like to implement?'),
+            message: chalk.cyan(`${dryRun ? '[dry-run] ' : ''}What database feature would you like to implement?`),
             validate: (input) => {
               if (!input.trim()) {
                 return 'Please enter a valid query';
@@ -65,10 +238,25 @@ program
           break;
         }
 
+        if (query.trim().toLowerCase() === 'dry-run') {
+          dryRun = !dryRun;
+          logger.info(`Dry-run mode ${dryRun ? 'enabled' : 'disabled'}`);
+          continue;
+        }
+
         try {
           logger.info(`Processing query: "${query}"`);
-          await agent.executeQuery(query, projectContext);
-          logger.success('Query executed successfully!');
+          if (dryRun) {
+            const preview = await agent.previewQuery(query, projectContext, resolveBudget(options));
+            agent.displayPlanPreview(preview);
+          } else {
+            await runCancellable(agent, () => agent.executeQuery(query, projectContext, {
+              budget: resolveBudget(options),
+              reviewPlan: options.review
+                ? plan => reviewer.review(plan, (current, feedback) => agent.revisePlan(current, feedback, projectContext))
+                : undefined
+            }));
+          }
         } catch (error) {
           logger.error(`Failed to execute query: ${error instanceof Error ? error.message : String(error)}`);
         }
@@ -98,7 +286,10 @@ program
   .command('query <query>')
   .alias('q')
   .description('Execute a database query directly')
-  .action(async (query: string) => {
+  .option('--dry-run', 'Preview the execution plan without writing files or touching the database')
+  .option('--max-tokens <tokens>', 'Abort the run once it has used this many AI tokens')
+  .option('--max-cost <usd>', 'Abort the run once its estimated AI cost reaches this many USD')
+  .action(async (query: string, options) => {
     console.log(chalk.blue.bold(' Spotify Clone Database Agent'));
     
     const agent = new DatabaseAgent();
@@ -110,7 +301,13 @@ program
       logger.success('Project analysis complete!');
 
       logger.info(`Processing query: "${query}"`);
-      await agent.executeQuery(query, projectContext);
+      if (options.dryRun) {
+        const preview = await agent.previewQuery(query, projectContext, resolveBudget(options));
+        agent.displayPlanPreview(preview);
+        return;
+      }
+
+      await runCancellable(agent, () => agent.executeQuery(query, projectContext, { budget: resolveBudget(options) }));
       logger.success('Query executed successfully!');
     } catch (error) {
       logger.error(`Failed to execute query: ${error instanceof Error ? error.message : String(error)}`);
@@ -118,6 +315,53 @@ program
     }
   });
 
+// Resume a failed or interrupted run from its checkpoint
+program
+  .command('resume [runId]')
+  .description('Continue a failed run from the operation that failed (defaults to the most recent unfinished run)')
+  .option('--regenerate', 'Generate the failed operation again instead of reusing its saved AI responses')
+  .option('--list', 'List runs that can be resumed')
+  .option('--max-tokens <tokens>', 'Abort the run once it has used this many AI tokens')
+  .option('--max-cost <usd>', 'Abort the run once its estimated AI cost reaches this many USD')
+  .action(async (runId: string | undefined, options) => {
+    console.log(chalk.blue.bold(' Resume Agent Run'));
+
+    try {
+      if (options.list) {
+        const checkpoints = (await RunCheckpoint.list(process.cwd())).filter(checkpoint => checkpoint.status !== 'completed');
+        if (checkpoints.length === 0) {
+          console.log(chalk.gray('  No unfinished runs'));
+          return;
+        }
+        checkpoints.forEach(checkpoint => {
+          const failed = checkpoint.operations.find(entry => entry.status === 'failed');
+          console.log(`\n${chalk.cyan(checkpoint.runId)}  ${checkpoint.status}  "${checkpoint.query}"`);
+          console.log(`  ${checkpoint.firstUnfinishedIndex()} of ${checkpoint.operations.length} operations completed`);
+          if (failed) {
+            console.log(chalk.red(`  Failed: ${failed.error}`));
+          }
+        });
+        return;
+      }
+
+      const agent = new DatabaseAgent();
+      const analyzer = new ProjectAnalyzer();
+
+      logger.info('Analyzing current project structure...');
+      const projectContext = await analyzer.analyzeProject();
+      logger.success('Project analysis complete!');
+
+      await runCancellable(agent, () => agent.resumeRun(runId, projectContext, {
+        regenerate: options.regenerate,
+        budget: resolveBudget(options)
+      }));
+      logger.success('Run resumed and completed successfully!');
+    } catch (error) {
+      logger.error(`Failed to resume run: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
 // Status command
 program
   .command('status')
@@ -137,8 +381,12 @@ program
       console.log(`- Existing APIs: ${projectContext.existingAPIs.length}`);
       console.log(`- Database tables: ${projectContext.databaseSchema.length}`);
       
-      if (projectContext.supabaseConfigured) {
-        console.log(chalk.green('- Supabase: Configured '));
+      const databaseDriver = resolveDatabaseDriverName();
+      const databaseConfigured = databaseDriver === 'embedded'
+        || (databaseDriver === 'postgres' ? !!process.env[DATABASE_URL_ENV] : projectContext.supabaseConfigured);
+
+      if (databaseConfigured) {
+        console.log(chalk.green(`- Database: ${createDatabaseDriver(databaseDriver).description}`));
         
         // Try to get migration status
         try {
@@ -153,8 +401,28 @@ program
         } catch (error) {
         }
       } else {
-        console.log(chalk.yellow('- Supabase: Not configured '));
+        console.log(chalk.yellow(`- Database: Not configured (set ${DATABASE_URL_ENV} or the Supabase environment variables)`));
+      }
+
+      const config = getAgentConfig();
+      const configSource = getAgentConfigSource();
+      console.log(chalk.green('\n Configuration:'));
+      console.log(`- Source: ${configSource ? path.relative(process.cwd(), configSource) : 'defaults (no db-agent.config.json or db-agent.config.ts)'}`);
+      console.log(`- Migration directories: ${config.migrationDirs.join(', ')}`);
+      console.log(`- Migration output directory: ${config.migrationOutputDir}`);
+      console.log(`- API root: ${config.apiRoot}`);
+      console.log(`- Hooks directory: ${config.hooksDir}`);
+      console.log(`- Types file: ${config.typesFile}`);
+      console.log(`- Database types file: ${config.databaseTypesFile}`);
+      console.log(`- Main component: ${config.mainComponent}`);
+      console.log(`- Default user UUID: ${config.defaultUserUuid}`);
+      console.log(`- State cache TTL: ${config.stateCacheTtlMinutes} minutes`);
+      console.log(`- Database driver: ${config.databaseDriver}${config.databaseDriver === 'auto' ? ` (${databaseDriver})` : ''}`);
+      if (databaseDriver === 'embedded') {
+        console.log(`- Embedded database: ${config.embeddedDatabaseDir}`);
       }
+      const plugins = getOperationPlugins();
+      console.log(`- Operation plugins: ${plugins.length > 0 ? plugins.map(plugin => plugin.name).join(', ') : 'none'}`);
     } catch (error) {
       logger.error(`Error checking status: ${error instanceof Error ? error.message : String(error)}`);
       process.exit(1);
@@ -185,6 +453,9 @@ program
             status.executed.forEach(migration => {
               console.log(`  ✓ ${migration.filename} - ${migration.description}`);
               console.log(chalk.gray(`    Executed: ${migration.executedAt}`));
+              if (migration.squashedInto) {
+                console.log(chalk.gray(`    Squashed into: ${migration.squashedInto}`));
+              }
             });
           }
           
@@ -226,7 +497,7 @@ program
           }
           
           // Resolve migration file paths
-          const migrationDirs = ['src/lib/migrations', 'supabase/migrations', 'migrations'];
+          const migrationDirs = getAgentConfig().migrationDirs;
           const migrationPaths: string[] = [];
           
           for (const filename of status.pending) {
@@ -299,20 +570,21 @@ program
   )
   .addCommand(
     new Command('debug')
-      .description('Debug migration parsing without executing')
-      .argument('<filename>', 'Migration filename to debug')
-      .action(async (filename) => {
+      .description('Show exactly how a migration file is split into statements, without executing it')
+      .argument('<filename>', 'Migration filename (looked up in the migration directories) or path')
+      .option('--compact', 'One line per statement instead of the full SQL')
+      .action(async (filename: string, options: { compact?: boolean }) => {
         console.log(chalk.blue.bold(` Debugging migration: ${filename}`));
         
         const migrationExecutor = new MigrationExecutor();
         
         try {
           // Find the migration file
-          const migrationDirs = ['src/lib/migrations', 'supabase/migrations', 'migrations'];
+          const migrationDirs = getAgentConfig().migrationDirs;
           let migrationPath = '';
           
-          for (const dir of migrationDirs) {
-            const fullPath = path.join(process.cwd(), dir, filename);
+          for (const dir of ['', ...migrationDirs]) {
+            const fullPath = path.resolve(process.cwd(), dir, filename);
             try {
               await fs.access(fullPath);
               migrationPath = fullPath;
@@ -332,23 +604,35 @@ program
           console.log(chalk.gray(`\n Migration file: ${migrationPath}`));
           console.log(chalk.gray(` File size: ${migrationSql.length} characters`));
           
-          // Parse without executing
-          const { statements, tablesCreated, rollbackSql } = await (migrationExecutor as any).parseMigrationSql(migrationSql);
-          
+          const sections = parseMigrationSections(migrationSql);
+          const up = migrationExecutor.splitForExecution(sections.up);
+          const executed = up.filter(entry => !entry.skipReason && !entry.error);
+
           console.log(chalk.green(`\n Parsing Results:`));
-          console.log(`- Statements parsed: ${statements.length}`);
-          console.log(`- Tables to create: ${tablesCreated.join(', ') || 'none'}`);
-          console.log(`- Rollback SQL generated: ${rollbackSql ? 'Yes' : 'No'}`);
-          
-          console.log(chalk.yellow(`\n Parsed Statements:`));
-          statements.forEach((stmt: string, i: number) => {
-            const preview = stmt.substring(0, 100).replace(/\n/g, ' ');
-            console.log(`${i + 1}. ${preview}${stmt.length > 100 ? '...' : ''}`);
-          });
-          
-          if (rollbackSql) {
-            console.log(chalk.cyan(`\n Generated Rollback SQL:`));
-            console.log(rollbackSql);
+          console.log(`- Format: ${sections.hasSections ? '-- migrate:up / -- migrate:down sections' : 'plain SQL (no sections)'}`);
+          console.log(`- Statements: ${up.length} (${executed.length} executed)`);
+
+          console.log(chalk.yellow(sections.hasSections ? `\n Up Section:` : `\n Statements:`));
+          printPlannedStatements(up, sections.upLine, options.compact === true);
+
+          const errors = up.filter(entry => entry.error);
+          if (errors.length > 0) {
+            logger.error(`${errors.length} statement(s) cannot be executed`);
+            process.exit(1);
+          }
+
+          if (sections.down) {
+            console.log(chalk.cyan(`\n Down Section (rollback):`));
+            printPlannedStatements(migrationExecutor.splitForExecution(sections.down), sections.downLine, options.compact === true);
+          } else if (sections.hasSections) {
+            console.log(chalk.cyan(`\n Down section is empty - the migration is irreversible`));
+          } else {
+            const { tablesCreated, rollbackSql } = await (migrationExecutor as any).parseMigrationSql(migrationSql);
+            console.log(`\n- Tables to create: ${tablesCreated.join(', ') || 'none'}`);
+            if (rollbackSql) {
+              console.log(chalk.cyan(`\n Generated Rollback SQL (no -- migrate:down section):`));
+              console.log(rollbackSql);
+            }
           }
           
         } catch (error) {
@@ -356,8 +640,356 @@ program
           process.exit(1);
         }
       })
+  )
+  .addCommand(
+    new Command('verify')
+      .description('Check migration files against the migrations table (exits non-zero on drift)')
+      .action(async () => {
+        console.log(chalk.blue.bold('🔍 Verifying Migrations'));
+
+        const migrationExecutor = new MigrationExecutor();
+
+        try {
+          await migrationExecutor.initialize();
+          const result = await migrationExecutor.verifyMigrations();
+
+          console.log(chalk.green(`\n Verified: ${result.verified.length} migration(s) match their recorded checksum`));
+
+          if (result.edited.length > 0) {
+            console.log(chalk.red('\n Edited after execution:'));
+            result.edited.forEach(migration => console.log(`  ✗ ${migration.filename} (${migration.filepath})`));
+          }
+          if (result.missing.length > 0) {
+            console.log(chalk.red('\n Executed but file is missing:'));
+            result.missing.forEach(filename => console.log(`  ✗ ${filename}`));
+          }
+          if (result.untracked.length > 0) {
+            console.log(chalk.red('\n Not recorded in the migrations table:'));
+            result.untracked.forEach(filename => console.log(`  ✗ ${filename}`));
+          }
+          if (result.unverifiable.length > 0) {
+            console.log(chalk.yellow('\n Executed before content checksums were recorded (cannot detect edits):'));
+            result.unverifiable.forEach(filename => console.log(`  ? ${filename}`));
+          }
+
+          const drift = result.edited.length + result.missing.length + result.untracked.length;
+          if (drift > 0) {
+            console.log(chalk.red(`\n ${drift} migration(s) out of sync with the database`));
+            process.exit(1);
+          }
+          console.log(chalk.green('\n Migrations are in sync with the database'));
+
+        } catch (error) {
+          logger.error(`Migration verification failed: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('squash')
+      .description('Consolidate the executed migrations of some tables into one baseline migration')
+      .argument('[tables...]', 'Tables to squash (default: every table created by more than one migration)')
+      .option('--dry-run', 'Only preview the baseline migration')
+      .option('-y, --yes', 'Skip the confirmation prompt')
+      .action(async (tables: string[], options: { dryRun?: boolean; yes?: boolean }) => {
+        console.log(chalk.blue.bold('🗜️  Squashing Migrations'));
+
+        const migrationExecutor = new MigrationExecutor();
+
+        try {
+          await migrationExecutor.initialize();
+          const squasher = new MigrationSquasher(migrationExecutor);
+          const plan = await squasher.plan(tables);
+          squasher.displayPlan(plan);
+
+          if (options.dryRun) {
+            console.log(chalk.gray('\nDry run - nothing was changed'));
+            return;
+          }
+
+          if (!options.yes) {
+            const { confirmed } = await inquirer.prompt([
+              {
+                type: 'confirm',
+                name: 'confirmed',
+                message: `Replace ${plan.migrations.length} migration(s) with ${path.basename(plan.baselinePath)}?`,
+                default: false
+              }
+            ]);
+            if (!confirmed) {
+              console.log(chalk.gray('Squash cancelled'));
+              return;
+            }
+          }
+
+          await squasher.apply(plan);
+          console.log(chalk.green(`\n Squashed ${plan.migrations.length} migration(s) into ${plan.baselinePath}`));
+
+        } catch (error) {
+          logger.error(`Squash failed: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      })
+  );
+
+// Schema snapshot commands
+program
+  .command('schema')
+  .description('Inspect the live database schema')
+  .addCommand(
+    new Command('pull')
+      .description('Introspect the database into the schema snapshot used by the agent')
+      .option('-s, --schema <name>', 'Database schema to introspect', 'public')
+      .action(async (options: { schema: string }) => {
+        console.log(chalk.blue.bold('🔎 Pulling Database Schema'));
+
+        try {
+          const snapshot = await pullSchemaSnapshot(await getDatabaseDriver(), options.schema);
+          const snapshotPath = await saveSchemaSnapshot(process.cwd(), snapshot);
+
+          console.log(chalk.green(`\n Tables in ${snapshot.schema} (${snapshot.tables.length}):`));
+          if (snapshot.tables.length === 0) {
+            console.log(chalk.gray('  No tables found'));
+          }
+          snapshot.tables.forEach(table => {
+            const details = [
+              `${table.columns.length} columns`,
+              `${table.foreignKeys.length} foreign keys`,
+              `${table.indexes.length} indexes`,
+              `${table.policies.length} policies`,
+              `${table.triggers.length} triggers`
+            ];
+            console.log(`  ✓ ${table.name}${table.rlsEnabled ? chalk.gray(' (RLS)') : ''}`);
+            console.log(chalk.gray(`    ${details.join(', ')}`));
+          });
+
+          console.log(chalk.green(`\n Schema snapshot written to ${path.relative(process.cwd(), snapshotPath)}`));
+          console.log(chalk.gray(` Source: ${snapshot.source}`));
+
+        } catch (error) {
+          logger.error(`Schema pull failed: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('diff')
+      .description('Compare the declared tables with the live schema and write an ALTER migration')
+      .option('-s, --schema <name>', 'Database schema to compare with', 'public')
+      .option('--dry-run', 'Only preview the migration')
+      .option('-y, --yes', 'Skip the confirmation prompt for destructive changes')
+      .action(async (options: { schema: string; dryRun?: boolean; yes?: boolean }) => {
+        console.log(chalk.blue.bold('🧮 Diffing Database Schema'));
+
+        try {
+          const differ = new SchemaDiffer(await getDatabaseDriver());
+          const plan = await differ.plan(options.schema);
+
+          if (plan.changes.length === 0) {
+            console.log(chalk.green(`\n Live schema already matches ${getAgentConfig().tablesFile}`));
+            return;
+          }
+          differ.displayPlan(plan);
+
+          if (options.dryRun) {
+            console.log(chalk.gray('\nDry run - nothing was written'));
+            return;
+          }
+
+          const destructive = plan.changes.filter(change => change.destructive).length;
+          if (destructive > 0 && !options.yes) {
+            const { confirmed } = await inquirer.prompt([
+              {
+                type: 'confirm',
+                name: 'confirmed',
+                message: `The migration has ${destructive} destructive change(s). Write it anyway?`,
+                default: false
+              }
+            ]);
+            if (!confirmed) {
+              console.log(chalk.gray('Schema diff cancelled'));
+              return;
+            }
+          }
+
+          await differ.apply(plan);
+          console.log(chalk.green(`\n Migration written to ${plan.migrationPath}`));
+          console.log(chalk.cyan(`Run 'db-agent migrations run' to apply it`));
+
+        } catch (error) {
+          logger.error(`Schema diff failed: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      })
   );
 
+// Generated TypeScript types
+program
+  .command('types')
+  .description('Generate TypeScript types from the database schema')
+  .addCommand(
+    new Command('generate')
+      .description('Write the Supabase Database type (Row, Insert, Update, enums, relationships) for the live schema')
+      .option('-s, --schema <name>', 'Database schema to generate types for', 'public')
+      .option('--from-snapshot', 'Use the snapshot written by `schema pull` instead of connecting to the database')
+      .action(async (options: { schema: string; fromSnapshot?: boolean }) => {
+        console.log(chalk.blue.bold('🧬 Generating Database Types'));
+
+        try {
+          const snapshot = options.fromSnapshot
+            ? await loadSchemaSnapshot(process.cwd())
+            : await pullSchemaSnapshot(await getDatabaseDriver(), options.schema);
+          if (!snapshot) {
+            throw new Error(`No schema snapshot found at ${getAgentConfig().schemaFile} - run 'db-agent schema pull' first`);
+          }
+
+          const typesFile = await writeDatabaseTypes(process.cwd(), snapshot);
+          console.log(chalk.green(`\n Wrote types for ${snapshot.tables.length} table(s) and ${snapshot.enums.length} enum(s) to ${typesFile}`));
+          console.log(chalk.gray(` Source: ${snapshot.source}`));
+
+        } catch (error) {
+          logger.error(`Type generation failed: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      })
+  );
+
+// Consistency check command
+program
+  .command('check')
+  .description('Check API routes, hooks and row types against the schema snapshot')
+  .option('--live', 'Read the schema from the database instead of the snapshot written by `schema pull`')
+  .option('-s, --schema <name>', 'Database schema to read with --live', 'public')
+  .option('--strict', 'Exit with code 1 on warnings as well as errors')
+  .action(async (options: { live?: boolean; schema: string; strict?: boolean }) => {
+    console.log(chalk.blue.bold('🔎 Checking Routes, Hooks and Types'));
+
+    try {
+      const snapshot = options.live
+        ? await pullSchemaSnapshot(await getDatabaseDriver(), options.schema)
+        : await loadSchemaSnapshot(process.cwd());
+      if (!snapshot) {
+        throw new Error(`No schema snapshot found at ${getAgentConfig().schemaFile} - run 'db-agent schema pull' first`);
+      }
+
+      const checker = new ConsistencyChecker(process.cwd());
+      const report = await checker.check(snapshot);
+      checker.displayReport(report);
+
+      if (report.findings.some(finding => finding.severity === 'error' || options.strict)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Consistency check failed: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+// Operation history commands
+program
+  .command('history')
+  .alias('h')
+  .description('Browse and inspect past agent operations')
+  .addCommand(
+    addHistoryFilterOptions(new Command('list'))
+      .description('List recorded operations, oldest first')
+      .action(async (options: HistoryOptions) => {
+        console.log(chalk.blue.bold('📜 Operation History'));
+
+        try {
+          const browser = await OperationHistoryBrowser.load();
+          const entries = browser.filter(resolveHistoryFilter(options));
+          const limit = resolveHistoryLimit(options);
+          browser.displayOperations(limit ? entries.slice(-limit) : entries);
+        } catch (error) {
+          logger.error(`Could not read history: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      }),
+    { isDefault: true }
+  )
+  .addCommand(
+    addHistoryFilterOptions(new Command('runs'))
+      .description('List operations grouped by the query that produced them')
+      .action(async (options: HistoryOptions) => {
+        console.log(chalk.blue.bold('📜 Agent Runs'));
+
+        try {
+          const browser = await OperationHistoryBrowser.load();
+          const runs = browser.groupByRun(browser.filter(resolveHistoryFilter(options)));
+          const limit = resolveHistoryLimit(options);
+          browser.displayRuns(limit ? runs.slice(-limit) : runs);
+        } catch (error) {
+          logger.error(`Could not read history: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('show')
+      .description('Show one operation with its target files and metadata')
+      .argument('<operationId>', 'Operation id (or a unique prefix of it)')
+      .action(async (operationId: string) => {
+        try {
+          const browser = await OperationHistoryBrowser.load();
+          browser.displayOperation(browser.find(operationId));
+        } catch (error) {
+          logger.error(`Could not show operation: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      })
+  );
+
+// Revert a past run or operation
+program
+  .command('undo <target>')
+  .description('Revert the files and migrations of a past run (run id) or a single operation (operation id)')
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .option('-f, --force', 'Revert files even if they were edited after the run')
+  .action(async (target: string, options: { yes?: boolean; force?: boolean }) => {
+    console.log(chalk.blue.bold('↩️  Undo'));
+
+    try {
+      const undoManager = new UndoManager();
+      const plan = await undoManager.plan(target);
+      undoManager.displayPlan(plan);
+
+      if (plan.operations.length === 0) {
+        console.log(chalk.yellow('\nNothing to undo'));
+        return;
+      }
+
+      if (!options.yes) {
+        const { confirmed } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirmed',
+            message: `Revert ${plan.steps.length} change(s) from ${plan.operations.length} operation(s)?`,
+            default: false
+          }
+        ]);
+        if (!confirmed) {
+          console.log(chalk.gray('Undo cancelled'));
+          return;
+        }
+      }
+
+      const result = await undoManager.execute(plan, { force: options.force });
+      if (result.failures.length === 0) {
+        console.log(chalk.green(`\n Undid ${result.undoneOperations.length} operation(s)`));
+      } else {
+        console.log(chalk.red(`\n ${result.failures.length} change(s) could not be reverted; ${result.undoneOperations.length} operation(s) fully undone`));
+        if (result.skippedSteps.length > 0) {
+          console.log(chalk.yellow(` ${result.skippedSteps.length} later change(s) of the failed operation(s) were left in place - fix the failure and run undo again`));
+        }
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Undo failed: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
 // Help command with examples
 program
   .command('examples')
@@ -383,10 +1015,15 @@ program
     console.log(chalk.gray('\nUsage examples:'));
     console.log(chalk.white('  db-agent interactive'));
     console.log(chalk.white('  db-agent query "Can you store the recently played songs in a table"'));
+    console.log(chalk.white('  db-agent query --dry-run "Can you store the recently played songs in a table"'));
     console.log(chalk.white('  db-agent status'));
     console.log(chalk.white('  db-agent migrations status'));
     console.log(chalk.white('  db-agent migrations run'));
     console.log(chalk.white('  db-agent migrations debug migration-file.sql'));
+    console.log(chalk.white('  db-agent history runs --on 2025-07-20'));
+    console.log(chalk.white('  db-agent history show 1753038460163-0'));
+    console.log(chalk.white('  db-agent undo run-1753038460163'));
+    console.log(chalk.white('  db-agent resume --list'));
   });
 
 // Default action when no command is provided
@@ -404,7 +1041,7 @@ program.on('command:*', () => {
 });
 
 // Parse arguments
-program.parse(process.argv);
+program.parseAsync(process.argv);
 
 // If no arguments provided, show help
 if (!process.argv.slice(2).length) {
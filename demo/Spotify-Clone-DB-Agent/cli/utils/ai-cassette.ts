@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { TokenUsage } from './usage-tracker';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteResponse {
+  text: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+export interface CassetteInteraction {
+  provider: string;
+  userPromptPreview: string;
+  responses: CassetteResponse[];
+  recordedAt: string;
+}
+
+// Version 2 stores each response with its model and token usage; version 1 stored the text only
+export const CASSETTE_VERSION = 2;
+
+export interface CassetteFile {
+  version: typeof CASSETTE_VERSION;
+  interactions: Record<string, CassetteInteraction>;
+}
+
+/**
+ * Stores AI responses keyed by a hash of the system and user prompts so runs can be replayed offline.
+ * Identical prompts asked several times in one run are replayed in the order they were recorded.
+ * Recording into an existing cassette replaces the responses of every prompt it records again.
+ */
+export class AICassette {
+  // AIClient is instantiated by several agents; they all share one cassette per file
+  private static instances: Map<string, AICassette> = new Map();
+
+  readonly filePath: string;
+  readonly mode: CassetteMode;
+  private data: CassetteFile;
+  private replayCursor: Map<string, number> = new Map();
+  // Prompts recorded since the cassette was opened
+  private recordedKeys: Set<string> = new Set();
+
+  private constructor(filePath: string, mode: CassetteMode) {
+    this.filePath = filePath;
+    this.mode = mode;
+    this.data = this.load();
+  }
+
+  static open(filePath: string, mode: CassetteMode): AICassette {
+    const resolvedPath = path.resolve(filePath);
+    const cacheKey = `${mode}:${resolvedPath}`;
+    let cassette = AICassette.instances.get(cacheKey);
+    if (!cassette) {
+      cassette = new AICassette(resolvedPath, mode);
+      AICassette.instances.set(cacheKey, cassette);
+    }
+    return cassette;
+  }
+
+  static key(systemPrompt: string, userPrompt: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(systemPrompt)
+      .update('\u0000')
+      .update(userPrompt)
+      .digest('hex');
+  }
+
+  // Serve the next recorded response for these prompts, failing on a miss
+  replay(systemPrompt: string, userPrompt: string): CassetteResponse {
+    const response = this.lookup(systemPrompt, userPrompt);
+    if (!response) {
+      const key = AICassette.key(systemPrompt, userPrompt);
+      throw new Error(
+        `Cassette miss: no recorded response for prompt ${key.substring(0, 12)} ` +
+        `("${userPrompt.substring(0, 80).replace(/\s+/g, ' ')}") in ${this.filePath}. ` +
+        'Re-record the cassette with DB_AGENT_CASSETTE_MODE=record.'
+      );
+    }
+    return response;
+  }
+
+  // Next recorded response for these prompts, or null if none was recorded
+  lookup(systemPrompt: string, userPrompt: string): CassetteResponse | null {
+    const key = AICassette.key(systemPrompt, userPrompt);
+    const interaction = this.data.interactions[key];
+
+    if (!interaction || interaction.responses.length === 0) {
+      return null;
+    }
+
+    // Repeat the last response once the recorded sequence is exhausted
+    const cursor = this.replayCursor.get(key) || 0;
+    this.replayCursor.set(key, cursor + 1);
+    return interaction.responses[Math.min(cursor, interaction.responses.length - 1)];
+  }
+
+  record(systemPrompt: string, userPrompt: string, provider: string, response: CassetteResponse): void {
+    const key = AICassette.key(systemPrompt, userPrompt);
+    // Re-recording replaces the responses saved by an earlier session instead of queueing behind them
+    const previous = this.recordedKeys.has(key) ? this.data.interactions[key]?.responses ?? [] : [];
+    this.recordedKeys.add(key);
+
+    this.data.interactions[key] = {
+      provider,
+      userPromptPreview: userPrompt.substring(0, 200),
+      responses: [...previous, response],
+      recordedAt: new Date().toISOString()
+    };
+
+    this.save();
+  }
+
+  getInteractionCount(): number {
+    return Object.keys(this.data.interactions).length;
+  }
+
+  private load(): CassetteFile {
+    if (!fs.existsSync(this.filePath)) {
+      if (this.mode === 'replay') {
+        throw new Error(`Cassette file not found: ${this.filePath}`);
+      }
+      return { version: CASSETTE_VERSION, interactions: {} };
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (!parsed || typeof parsed.interactions !== 'object') {
+        throw new Error('missing "interactions"');
+      }
+      if (parsed.version === 1) {
+        return this.upgradeVersion1(parsed.interactions);
+      }
+      if (parsed.version !== CASSETTE_VERSION) {
+        throw new Error(`unsupported version ${parsed.version} (expected 1 or ${CASSETTE_VERSION})`);
+      }
+      return parsed as CassetteFile;
+    } catch (error) {
+      throw new Error(`Invalid cassette file ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Version 1 responses are plain strings; they replay as text without usage
+  private upgradeVersion1(interactions: Record<string, Omit<CassetteInteraction, 'responses'> & { responses: unknown[] }>): CassetteFile {
+    const upgraded: Record<string, CassetteInteraction> = {};
+    for (const [key, interaction] of Object.entries(interactions)) {
+      upgraded[key] = {
+        ...interaction,
+        responses: interaction.responses.map(response => {
+          if (typeof response !== 'string') {
+            throw new Error(`version 1 interaction ${key.substring(0, 12)} has a response that is not a string`);
+          }
+          return { text: response };
+        })
+      };
+    }
+    return { version: CASSETTE_VERSION, interactions: upgraded };
+  }
+
+  // Written synchronously after every interaction so a crashed run still leaves a usable cassette
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+  }
+}
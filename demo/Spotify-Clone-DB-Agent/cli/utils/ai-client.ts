@@ -1,4 +1,6 @@
 import { Logger } from './logger';
+import { AICassette, CassetteMode } from './ai-cassette';
+import { TokenUsage, UsageTracker } from './usage-tracker';
 
 export interface AIProvider {
   name: string;
@@ -8,28 +10,109 @@ export interface AIProvider {
 
 export interface AIResponse {
   text: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  model?: string;
+  usage?: TokenUsage;
 }
 
+// Kinds of work the agent asks the AI for; each can be routed to its own provider/model
+export type AITask = 'planning' | 'sql' | 'api' | 'component' | 'general';
+
+export interface AIRoute {
+  provider: string;
+  model: string;
+}
+
+// Models tried in order for each provider when no model is configured
+const DEFAULT_MODELS: Record<string, string[]> = {
+  openai: ['gpt-4'],
+  anthropic: [
+    'claude-3-7-sonnet-20250219',     // Latest, may be overloaded
+    'claude-3-5-sonnet-20241022',     // Very reliable and fast
+    'claude-3-5-haiku-20241022'       // Most reliable fallback
+  ],
+  gemini: ['gemini-pro']
+};
+
+const MAX_RETRIES = 3;
+
+// Connection errors from Node and undici that a later attempt may not hit
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'
+];
+
 export class AIClient {
+  // Streams in flight across every client instance, so a running operation can be cancelled
+  private static activeStreams: Set<AbortController> = new Set();
+  // Responses saved for the checkpointed operation being executed; reused instead of asking again on resume
+  private static responseCache: AICassette | null = null;
+
   private logger: Logger;
   private providers: Map<string, AIProvider>;
   private currentProvider: string;
+  private cassette: AICassette | null = null;
+  private usageTracker: UsageTracker;
 
   constructor() {
     this.logger = new Logger();
+    this.usageTracker = UsageTracker.getInstance();
     this.providers = new Map();
     this.currentProvider = process.env.DB_AGENT_DEFAULT_PROVIDER || 'anthropic'; // Default provider
-    
+
+    // Record/replay cassette (DB_AGENT_CASSETTE + DB_AGENT_CASSETTE_MODE)
+    this.initializeCassette();
+
     // Initialize providers from environment variables
     this.initializeProviders();
   }
 
+  private initializeCassette(): void {
+    const cassettePath = process.env.DB_AGENT_CASSETTE;
+    if (!cassettePath) {
+      return;
+    }
+
+    const mode = (process.env.DB_AGENT_CASSETTE_MODE || 'replay') as CassetteMode;
+    if (mode !== 'record' && mode !== 'replay') {
+      throw new Error(`Invalid DB_AGENT_CASSETTE_MODE: ${mode} (expected "record" or "replay")`);
+    }
+
+    this.cassette = AICassette.open(cassettePath, mode);
+
+    // Replay serves every request from the cassette, so no API keys are needed
+    if (mode === 'replay') {
+      this.providers.set('cassette', {
+        name: 'Cassette (replay)',
+        apiKey: '',
+        baseUrl: this.cassette.filePath
+      });
+      this.currentProvider = 'cassette';
+    }
+  }
+
   private initializeProviders(): void {
+    // OpenAI-compatible endpoint (self-hosted inference server, proxy or local stub)
+    const customBaseUrl = process.env.DB_AGENT_CUSTOM_BASE_URL;
+    if (customBaseUrl) {
+      if (!process.env.DB_AGENT_CUSTOM_MODEL) {
+        throw new Error('DB_AGENT_CUSTOM_BASE_URL is set but DB_AGENT_CUSTOM_MODEL is missing');
+      }
+      this.providers.set('custom', {
+        name: `OpenAI-compatible (${new URL(customBaseUrl).host})`,
+        apiKey: process.env.DB_AGENT_CUSTOM_API_KEY || '',
+        baseUrl: customBaseUrl.replace(/\/+$/, '')
+      });
+    }
+
+    // Keep project source away from third-party APIs entirely
+    if (process.env.DB_AGENT_CUSTOM_ONLY === 'true') {
+      if (!customBaseUrl) {
+        throw new Error('DB_AGENT_CUSTOM_ONLY requires DB_AGENT_CUSTOM_BASE_URL and DB_AGENT_CUSTOM_MODEL');
+      }
+      this.currentProvider = this.cassette?.mode === 'replay' ? 'cassette' : 'custom';
+      return;
+    }
+
     // OpenAI
     const openaiKey = process.env.OPENAI_API_KEY;
     if (openaiKey) {
@@ -60,9 +143,9 @@ export class AIClient {
       });
     }
 
-    if (this.providers.size === 0) {
+    if (this.providers.size === 0 && !this.cassette) {
       this.logger.warn('No AI providers configured. Please set API keys in environment variables.');
-      this.logger.info('Supported providers: OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY');
+      this.logger.info('Supported providers: OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY, DB_AGENT_CUSTOM_BASE_URL');
     }
   }
 
@@ -81,41 +164,304 @@ export class AIClient {
     return Array.from(this.providers.keys());
   }
 
-  // Generate text using the current provider
-  async generateText(systemPrompt: string, userPrompt: string): Promise<string> {
-    const provider = this.providers.get(this.currentProvider);
-    if (!provider) {
-      throw new Error(`No AI provider configured for ${this.currentProvider}`);
+  /**
+   * Ordered provider/model routes tried for a task:
+   * 1. the task's route from DB_AGENT_MODEL_<TASK> ("provider" or "provider:model")
+   * 2. the fallback chain from DB_AGENT_PROVIDER_CHAIN, or the current provider followed by every other configured provider
+   * Each provider contributes DB_AGENT_<PROVIDER>_MODEL if set, otherwise its default models.
+   */
+  getRouteChain(task: AITask = 'general'): AIRoute[] {
+    // Replay serves responses by prompt, so the route is irrelevant
+    if (this.currentProvider === 'cassette') {
+      return [{ provider: 'cassette', model: 'cassette' }];
     }
 
-    this.logger.info(`Generating response using ${provider.name}...`);
+    const routes: AIRoute[] = [];
+    const addProvider = (provider: string, model?: string) => {
+      const models = model ? [model] : this.getProviderModels(provider);
+      for (const candidate of models) {
+        if (!routes.some(route => route.provider === provider && route.model === candidate)) {
+          routes.push({ provider, model: candidate });
+        }
+      }
+    };
+
+    const taskRoute = process.env[`DB_AGENT_MODEL_${task.toUpperCase()}`];
+    if (taskRoute) {
+      const [provider, ...modelParts] = taskRoute.split(':');
+      addProvider(provider.trim(), modelParts.join(':').trim() || undefined);
+    }
+
+    const chain = process.env.DB_AGENT_PROVIDER_CHAIN
+      ? process.env.DB_AGENT_PROVIDER_CHAIN.split(',').map(provider => provider.trim()).filter(Boolean)
+      : [this.currentProvider, ...this.getAvailableProviders().filter(provider => provider !== this.currentProvider)];
+    chain.forEach(provider => addProvider(provider));
+
+    return routes.filter(route => this.providers.has(route.provider));
+  }
+
+  private getProviderModels(provider: string): string[] {
+    const configured = process.env[`DB_AGENT_${provider.toUpperCase()}_MODEL`];
+    return configured ? [configured] : DEFAULT_MODELS[provider] || [];
+  }
+
+  // Generate text, routed and falling back according to the task
+  async generateText(systemPrompt: string, userPrompt: string, task: AITask = 'general'): Promise<string> {
+    const response = await this.generate(systemPrompt, userPrompt, task);
+    return response.text;
+  }
+
+  // Generate a response, including the model used and token usage when the provider reports it
+  async generate(systemPrompt: string, userPrompt: string, task: AITask = 'general'): Promise<AIResponse> {
+    const cached = this.fromResponseCache(systemPrompt, userPrompt);
+    if (cached) {
+      return cached;
+    }
+
+    // Abort before spending more once the run budget is used up
+    this.usageTracker.assertWithinBudget();
 
     try {
-      switch (this.currentProvider) {
-        case 'openai':
-          return await this.generateOpenAI(systemPrompt, userPrompt, provider);
-        case 'anthropic':
-          return await this.generateAnthropic(systemPrompt, userPrompt, provider);
-        case 'gemini':
-          return await this.generateGemini(systemPrompt, userPrompt, provider);
-        default:
-          throw new Error(`Unsupported provider: ${this.currentProvider}`);
-      }
+      return await this.runRouteChain(task, route => this.callRoute(route, systemPrompt, userPrompt), systemPrompt, userPrompt);
     } catch (error) {
       this.logger.error(`AI generation failed: ${error instanceof Error ? error.message : String(error)}`);
       throw error;
     }
   }
 
-  private async generateOpenAI(systemPrompt: string, userPrompt: string, provider: AIProvider): Promise<string> {
+  // Stream text generation, passing each chunk to onChunk as it arrives; returns the full text
+  async streamText(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (chunk: string) => void,
+    task: AITask = 'general'
+  ): Promise<string> {
+    const cached = this.fromResponseCache(systemPrompt, userPrompt);
+    if (cached) {
+      onChunk(cached.text);
+      return cached.text;
+    }
+
+    this.usageTracker.assertWithinBudget();
+
+    const controller = new AbortController();
+    AIClient.activeStreams.add(controller);
+
+    // Once output has reached the caller, falling back would duplicate it
+    let streamed = false;
+    const trackedChunk = (chunk: string) => {
+      streamed = true;
+      onChunk(chunk);
+    };
+
+    try {
+      const response = await this.runRouteChain(
+        task,
+        route => this.callRoute(route, systemPrompt, userPrompt, trackedChunk, controller.signal),
+        systemPrompt,
+        userPrompt,
+        () => streamed || controller.signal.aborted
+      );
+      return response.text;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error('AI stream cancelled');
+      }
+      this.logger.error(`AI streaming failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    } finally {
+      AIClient.activeStreams.delete(controller);
+    }
+  }
+
+  // streamText with a live progress line instead of raw output
+  async streamWithProgress(systemPrompt: string, userPrompt: string, label: string, task: AITask = 'general'): Promise<string> {
+    let receivedChars = 0;
+    try {
+      return await this.streamText(systemPrompt, userPrompt, chunk => {
+        receivedChars += chunk.length;
+        this.logger.streamProgress(label, receivedChars);
+      }, task);
+    } finally {
+      this.logger.endStream();
+    }
+  }
+
+  // Cache every client reads from and records to, or null to stop caching
+  static setResponseCache(cache: AICassette | null): void {
+    AIClient.responseCache = cache;
+  }
+
+  private fromResponseCache(systemPrompt: string, userPrompt: string): AIResponse | null {
+    const cached = AIClient.responseCache?.lookup(systemPrompt, userPrompt) ?? null;
+    if (cached) {
+      this.logger.info('Reusing AI response saved in the run checkpoint');
+    }
+    return cached;
+  }
+
+  // Abort every in-flight stream; returns how many were cancelled
+  static cancelActiveStreams(): number {
+    const count = AIClient.activeStreams.size;
+    AIClient.activeStreams.forEach(controller => controller.abort());
+    AIClient.activeStreams.clear();
+    return count;
+  }
+
+  /**
+   * Try each route in the task's chain. A route is retried with exponential backoff on transient errors;
+   * overloaded models and non-retryable errors move straight on to the next route.
+   */
+  private async runRouteChain(
+    task: AITask,
+    attempt: (route: AIRoute) => Promise<AIResponse>,
+    systemPrompt: string,
+    userPrompt: string,
+    stopFallback: () => boolean = () => false
+  ): Promise<AIResponse> {
+    const chain = this.getRouteChain(task);
+    if (chain.length === 0) {
+      throw new Error(`No AI provider configured for ${this.currentProvider}`);
+    }
+
+    let lastError: Error | null = null;
+
+    for (let routeIndex = 0; routeIndex < chain.length; routeIndex++) {
+      const route = chain[routeIndex];
+      const providerName = this.providers.get(route.provider)?.name || route.provider;
+
+      for (let retry = 0; retry <= MAX_RETRIES; retry++) {
+        try {
+          if (retry > 0) {
+            // Exponential backoff: 2^retry seconds (2s, 4s, 8s)
+            const delay = Math.pow(2, retry) * 1000;
+            this.logger.info(`Retrying ${route.model} in ${delay / 1000}s (attempt ${retry}/${MAX_RETRIES})...`);
+            await this.sleep(delay);
+          }
+
+          this.logger.info(`Generating response using ${providerName} (${route.model})...`);
+          const response = await attempt(route);
+
+          if (routeIndex > 0) {
+            this.logger.warn(`Successfully used fallback: ${providerName} (${route.model})`);
+          }
+
+          this.recordResponse(systemPrompt, userPrompt, route, response);
+          return response;
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+
+          if (stopFallback()) {
+            throw lastError;
+          }
+
+          if (this.isOverloaded(lastError)) {
+            this.logger.warn(`${route.model} is overloaded, trying fallback...`);
+            break;
+          }
+
+          if (!this.isRetryable(lastError) || retry === MAX_RETRIES) {
+            this.logger.warn(`${providerName} (${route.model}) failed: ${lastError.message}`);
+            break;
+          }
+
+          this.logger.warn(`Attempt failed for ${route.model}: ${lastError.message}`);
+        }
+      }
+    }
+
+    throw new Error(`All AI providers failed for ${task}. Last error: ${lastError?.message || 'Unknown error'}`);
+  }
+
+  private isOverloaded(error: Error): boolean {
+    return error.message.includes('overloaded_error') || error.message.includes('Overloaded');
+  }
+
+  /**
+   * Network failures, timeouts, interrupted streams, 408, 429 and server errors are worth retrying.
+   * Auth and request errors, unparseable responses and cassette misses would fail the same way again.
+   */
+  private isRetryable(error: Error): boolean {
+    const status = (error as Error & { status?: number }).status;
+    if (status !== undefined) {
+      return status === 408 || status === 429 || status >= 500;
+    }
+
+    // A stream the user cancelled stops the route chain before this is asked, so any abort here came from the network
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return true;
+    }
+
+    // fetch reports network failures as a TypeError ("fetch failed", "terminated") with the system error as cause
+    const code = (error as Error & { code?: unknown }).code ?? (error as Error & { cause?: { code?: unknown } }).cause?.code;
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) {
+      return true;
+    }
+    return error instanceof TypeError && (error.message === 'fetch failed' || error.message === 'terminated');
+  }
+
+  private providerError(message: string, status: number): Error {
+    return Object.assign(new Error(message), { status });
+  }
+
+  // Dispatch one request to a route; streams when onChunk is given
+  private async callRoute(
+    route: AIRoute,
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk?: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const provider = this.providers.get(route.provider);
+    if (!provider) {
+      throw new Error(`No AI provider configured for ${route.provider}`);
+    }
+
+    switch (route.provider) {
+      case 'cassette': {
+        const response = this.cassette!.replay(systemPrompt, userPrompt);
+        onChunk?.(response.text);
+        return response;
+      }
+      case 'openai':
+      case 'custom':
+        return onChunk
+          ? this.streamOpenAI(systemPrompt, userPrompt, provider, route.model, onChunk, signal)
+          : this.generateOpenAI(systemPrompt, userPrompt, provider, route.model);
+      case 'anthropic':
+        return onChunk
+          ? this.streamAnthropic(systemPrompt, userPrompt, provider, route.model, onChunk, signal)
+          : this.generateAnthropic(systemPrompt, userPrompt, provider, route.model);
+      case 'gemini':
+        return onChunk
+          ? this.streamGemini(systemPrompt, userPrompt, provider, route.model, onChunk, signal)
+          : this.generateGemini(systemPrompt, userPrompt, provider, route.model);
+      default:
+        throw new Error(`Unsupported provider: ${route.provider}`);
+    }
+  }
+
+  // Cassette recording and usage accounting for a completed response
+  private recordResponse(systemPrompt: string, userPrompt: string, route: AIRoute, response: AIResponse): void {
+    if (this.cassette?.mode === 'record') {
+      this.cassette.record(systemPrompt, userPrompt, route.provider, response);
+    }
+    AIClient.responseCache?.record(systemPrompt, userPrompt, route.provider, response);
+
+    if (response.usage) {
+      this.usageTracker.record(route.provider, response.model || route.model, response.usage);
+    }
+  }
+
+  private async generateOpenAI(systemPrompt: string, userPrompt: string, provider: AIProvider, model: string): Promise<AIResponse> {
     const response = await fetch(`${provider.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${provider.apiKey}`
+        ...this.bearerAuth(provider)
       },
       body: JSON.stringify({
-        model: 'gpt-4',
+        model,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
@@ -128,64 +474,27 @@ export class AIClient {
     });
 
     if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
+      throw this.providerError(`${provider.name} API error: ${response.status} ${response.statusText}`, response.status);
     }
 
     const data = await response.json();
-    return data.choices[0].message.content;
+    return {
+      text: data.choices[0].message.content,
+      model: data.model || model,
+      usage: data.usage ? {
+        promptTokens: data.usage.prompt_tokens || 0,
+        completionTokens: data.usage.completion_tokens || 0,
+        totalTokens: data.usage.total_tokens || 0
+      } : undefined
+    };
   }
 
-  private async generateAnthropic(systemPrompt: string, userPrompt: string, provider: AIProvider): Promise<string> {
-    // Ordered list of models to try (most capable to most reliable)
-    const modelFallbacks = [
-      'claude-3-7-sonnet-20250219',     // Latest, may be overloaded
-      'claude-3-5-sonnet-20241022',     // Very reliable and fast
-      'claude-3-5-haiku-20241022'       // Most reliable fallback
-    ];
-
-    let lastError: Error | null = null;
-
-    for (let modelIndex = 0; modelIndex < modelFallbacks.length; modelIndex++) {
-      const model = modelFallbacks[modelIndex];
-      
-      try {
-        this.logger.info(`Attempting to use ${model}...`);
-        
-        const result = await this.tryAnthropicModel(systemPrompt, userPrompt, provider, model);
-        
-        if (modelIndex > 0) {
-          this.logger.warn(`Successfully used fallback model: ${model}`);
-        }
-        
-        return result;
-        
-      } catch (error) {
-        lastError = error as Error;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        
-        // Check if it's an overloaded error
-        if (errorMessage.includes('overloaded_error') || errorMessage.includes('Overloaded')) {
-          this.logger.warn(`${model} is overloaded, trying fallback...`);
-          
-          // If not the last model, continue to fallback
-          if (modelIndex < modelFallbacks.length - 1) {
-            continue;
-          }
-        } else {
-          // For non-overload errors, try with retry logic
-          const retryResult = await this.retryAnthropicRequest(systemPrompt, userPrompt, provider, model);
-          if (retryResult) {
-            return retryResult;
-          }
-        }
-      }
-    }
-
-    // If all models failed, throw the last error
-    throw new Error(`All Anthropic models failed. Last error: ${lastError?.message || 'Unknown error'}`);
+  // Custom endpoints may not require a key
+  private bearerAuth(provider: AIProvider): Record<string, string> {
+    return provider.apiKey ? { 'Authorization': `Bearer ${provider.apiKey}` } : {};
   }
 
-  private async tryAnthropicModel(systemPrompt: string, userPrompt: string, provider: AIProvider, model: string): Promise<string> {
+  private async generateAnthropic(systemPrompt: string, userPrompt: string, provider: AIProvider, model: string): Promise<AIResponse> {
     const response = await fetch(`${provider.baseUrl}/messages`, {
       method: 'POST',
       headers: {
@@ -208,52 +517,35 @@ export class AIClient {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(`Anthropic API error: ${response.statusText} - ${JSON.stringify(errorData)}`);
+      throw this.providerError(`Anthropic API error: ${response.statusText} - ${JSON.stringify(errorData)}`, response.status);
     }
 
     const data = await response.json();
-    
+
     if (!data.content || !data.content[0] || !data.content[0].text) {
       throw new Error('Invalid response format from Anthropic API');
     }
-    
-    return data.content[0].text;
-  }
-
-  private async retryAnthropicRequest(systemPrompt: string, userPrompt: string, provider: AIProvider, model: string): Promise<string | null> {
-    const maxRetries = 3;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // Exponential backoff: 2^attempt seconds (2s, 4s, 8s)
-        const delay = Math.pow(2, attempt) * 1000;
-        this.logger.info(`Retrying ${model} in ${delay/1000}s (attempt ${attempt}/${maxRetries})...`);
-        
-        await this.sleep(delay);
-        
-        return await this.tryAnthropicModel(systemPrompt, userPrompt, provider, model);
-        
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        
-        if (attempt === maxRetries) {
-          this.logger.error(`Final retry failed for ${model}: ${errorMessage}`);
-          return null;
-        }
-        
-        this.logger.warn(`Retry ${attempt} failed for ${model}: ${errorMessage}`);
-      }
-    }
-    
-    return null;
+
+    const inputTokens = data.usage?.input_tokens || 0;
+    const outputTokens = data.usage?.output_tokens || 0;
+
+    return {
+      text: data.content[0].text,
+      model,
+      usage: data.usage ? {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens
+      } : undefined
+    };
   }
 
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private async generateGemini(systemPrompt: string, userPrompt: string, provider: AIProvider): Promise<string> {
-    const response = await fetch(`${provider.baseUrl}/models/gemini-pro:generateContent?key=${provider.apiKey}`, {
+  private async generateGemini(systemPrompt: string, userPrompt: string, provider: AIProvider, model: string): Promise<AIResponse> {
+    const response = await fetch(`${provider.baseUrl}/models/${model}:generateContent?key=${provider.apiKey}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -268,19 +560,229 @@ export class AIClient {
     });
 
     if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.statusText}`);
+      throw this.providerError(`Gemini API error: ${response.status} ${response.statusText}`, response.status);
     }
 
     const data = await response.json();
-    return data.candidates[0].content.parts[0].text;
+    return {
+      text: data.candidates[0].content.parts[0].text,
+      model,
+      usage: data.usageMetadata ? {
+        promptTokens: data.usageMetadata.promptTokenCount || 0,
+        completionTokens: data.usageMetadata.candidatesTokenCount || 0,
+        totalTokens: data.usageMetadata.totalTokenCount || 0
+      } : undefined
+    };
+  }
+
+  private async streamOpenAI(
+    systemPrompt: string,
+    userPrompt: string,
+    provider: AIProvider,
+    model: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const result: AIResponse = { text: '', model };
+
+    const response = await fetch(`${provider.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.bearerAuth(provider)
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.1,
+        max_tokens: 10000,
+        top_p: 0.9,
+        stream: true,
+        stream_options: { include_usage: true }
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw this.providerError(`${provider.name} API error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    await this.readServerSentEvents(response, data => {
+      const event = JSON.parse(data);
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        result.text += delta;
+        onChunk(delta);
+      }
+      if (event.model) {
+        result.model = event.model;
+      }
+      if (event.usage) {
+        result.usage = {
+          promptTokens: event.usage.prompt_tokens || 0,
+          completionTokens: event.usage.completion_tokens || 0,
+          totalTokens: event.usage.total_tokens || 0
+        };
+      }
+    });
+
+    return result;
+  }
+
+  private async streamAnthropic(
+    systemPrompt: string,
+    userPrompt: string,
+    provider: AIProvider,
+    model: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const response = await fetch(`${provider.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': provider.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: userPrompt }
+        ],
+        max_tokens: 10000,
+        temperature: 0.1,
+        top_p: 0.9,
+        stream: true
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw this.providerError(`Anthropic API error: ${response.statusText} - ${JSON.stringify(errorData)}`, response.status);
+    }
+
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await this.readServerSentEvents(response, data => {
+      const event = JSON.parse(data);
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            text += event.delta.text;
+            onChunk(event.delta.text);
+          }
+          break;
+        case 'message_delta':
+          outputTokens = event.usage?.output_tokens || outputTokens;
+          break;
+        case 'error':
+          throw new Error(`Anthropic API error: ${JSON.stringify(event.error)}`);
+      }
+    });
+
+    return {
+      text,
+      model,
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens
+      }
+    };
   }
 
-  // Stream text generation (for future use)
-  async streamText(systemPrompt: string, userPrompt: string, onChunk: (chunk: string) => void): Promise<void> {
-    // This would implement streaming for real-time updates
-    // For now, just call generateText and pass the whole result
-    const result = await this.generateText(systemPrompt, userPrompt);
-    onChunk(result);
+  private async streamGemini(
+    systemPrompt: string,
+    userPrompt: string,
+    provider: AIProvider,
+    model: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const result: AIResponse = { text: '', model };
+
+    const response = await fetch(`${provider.baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${provider.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: `${systemPrompt}\n\nUser request: ${userPrompt}`
+          }]
+        }]
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw this.providerError(`Gemini API error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    await this.readServerSentEvents(response, data => {
+      const event = JSON.parse(data);
+      const parts: Array<{ text?: string }> = event.candidates?.[0]?.content?.parts || [];
+      const delta = parts.map(part => part.text || '').join('');
+      if (delta) {
+        result.text += delta;
+        onChunk(delta);
+      }
+      if (event.usageMetadata) {
+        result.usage = {
+          promptTokens: event.usageMetadata.promptTokenCount || 0,
+          completionTokens: event.usageMetadata.candidatesTokenCount || 0,
+          totalTokens: event.usageMetadata.totalTokenCount || 0
+        };
+      }
+    });
+
+    return result;
+  }
+
+  // Calls onData with the payload of every `data:` line of a server-sent events response
+  private async readServerSentEvents(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+      throw new Error('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+      const data = trimmed.slice(5).trim();
+      if (data && data !== '[DONE]') {
+        onData(data);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      handleLine(buffer);
+    }
   }
 
   // Validate API keys
@@ -292,7 +794,11 @@ export class AIClient {
 
     try {
       // Test the API with a simple request
-      await this.generateText('You are a helpful assistant.', 'Say hello');
+      await this.callRoute(
+        { provider: providerName, model: this.getProviderModels(providerName)[0] },
+        'You are a helpful assistant.',
+        'Say hello'
+      );
       return true;
     } catch (error) {
       this.logger.error(`Provider validation failed for ${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
@@ -313,4 +819,4 @@ export class AIClient {
     }
     return formatted;
   }
-} 
\ No newline at end of file
+}
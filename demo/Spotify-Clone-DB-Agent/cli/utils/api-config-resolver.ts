@@ -1,4 +1,15 @@
 import { Logger } from './logger';
+import {
+  FEATURE_REGISTRY,
+  featureRouteFile,
+  FeatureDefinition,
+  findFeature,
+  HTTPMethod,
+  QueryStrategy,
+  TransformPattern
+} from '../config/feature-registry';
+
+export type { HTTPMethod, QueryStrategy, TransformPattern };
 
 export interface APIConfiguration {
   endpoint: string;           // "/api/albums/popular"
@@ -10,20 +21,6 @@ export interface APIConfiguration {
   description: string;       // Human-readable description
 }
 
-export type QueryStrategy = 
-  | 'popularity_order'     // ORDER BY popularity_score DESC
-  | 'recent_order'         // ORDER BY played_at/created_at DESC
-  | 'filtered_personalized' // WHERE playlist_type = 'personalized'
-  | 'simple_select';       // Basic SELECT with limit
-
-export type TransformPattern = 
-  | 'album_transform'      // Albums-specific field mapping
-  | 'playlist_transform'   // Playlists-specific field mapping  
-  | 'track_transform'      // Track history field mapping
-  | 'basic_transform';     // Minimal field mapping
-
-export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
-
 export class APIConfigResolver {
   private logger: Logger;
 
@@ -36,141 +33,42 @@ export class APIConfigResolver {
    */
   resolveAPIConfig(operationDescription: string, tableName: string): APIConfiguration | null {
     this.logger.info(` Resolving API config for: "${operationDescription}" (table: ${tableName})`);
-    
-    const description = operationDescription.toLowerCase();
-    
-    // Recently Played Pattern
-    if (this.isRecentlyPlayedContext(description)) {
-      const config: APIConfiguration = {
-        endpoint: '/api/recently-played',
-        filePath: 'src/app/api/recently-played/route.ts',
-        tableName: 'recently_played',
-        queryStrategy: 'recent_order',
-        transformPattern: 'track_transform',
-        methods: ['GET', 'POST'],
-        description: 'Recently played tracks API with track history functionality'
-      };
-      this.logger.success(` Resolved to Recently Played API configuration`);
-      return config;
-    }
-
-    // Made For You / Playlists Pattern
-    if (this.isMadeForYouContext(description)) {
-      const config: APIConfiguration = {
-        endpoint: '/api/playlists/made-for-you',
-        filePath: 'src/app/api/playlists/made-for-you/route.ts',
-        tableName: 'playlists',
-        queryStrategy: 'filtered_personalized',
-        transformPattern: 'playlist_transform',
-        methods: ['GET', 'POST', 'DELETE'],
-        description: 'Made for you playlists API with playlist management functionality'
-      };
-      this.logger.success(` Resolved to Made For You Playlists API configuration`);
-      return config;
-    }
 
-    // Popular Albums Pattern
-    if (this.isPopularAlbumsContext(description)) {
-      const config: APIConfiguration = {
-        endpoint: '/api/albums/popular',
-        filePath: 'src/app/api/albums/popular/route.ts',
-        tableName: 'albums',
-        queryStrategy: 'popularity_order',
-        transformPattern: 'album_transform',
-        methods: ['GET', 'POST', 'DELETE'],
-        description: 'Popular albums API with album management functionality'
-      };
-      this.logger.success(` Resolved to Popular Albums API configuration`);
-      return config;
+    const feature = findFeature(operationDescription, candidate => !!candidate.endpoint && !!candidate.apiTemplate);
+    if (feature) {
+      this.logger.success(` Resolved to ${feature.description} API configuration`);
+      return this.toAPIConfig(feature);
     }
 
     this.logger.warn(` No API configuration found for: "${operationDescription}"`);
-    this.logger.info(` Supported patterns: recently played, made for you/playlists, popular albums`);
+    this.logger.info(` Supported features: ${this.templatedFeatures().map(candidate => candidate.name).join(', ')}`);
     return null;
   }
 
   /**
-   * Checks if description matches recently played context
-   */
-  private isRecentlyPlayedContext(description: string): boolean {
-    const patterns = [
-      'recently played',
-      'recent tracks',
-      'listening history', 
-      'play history',
-      'track history',
-      'recently_played'
-    ];
-    
-    return patterns.some(pattern => description.includes(pattern));
-  }
-
-  /**
-   * Checks if description matches made for you/playlists context
+   * Gets all supported API configurations for reference
    */
-  private isMadeForYouContext(description: string): boolean {
-    const patterns = [
-      'made for you',
-      'personalized playlist',
-      'custom playlist',
-      'user playlist',
-      'recommended playlist',
-      'playlist',
-      'made_for_you'
-    ];
-    
-    return patterns.some(pattern => description.includes(pattern));
+  getAllSupportedConfigs(): APIConfiguration[] {
+    return this.templatedFeatures().map(feature => this.toAPIConfig(feature));
   }
 
-  /**
-   * Checks if description matches popular albums context
-   */
-  private isPopularAlbumsContext(description: string): boolean {
-    const patterns = [
-      'popular albums',
-      'trending albums',
-      'top albums',
-      'album',
-      'popular music',
-      'chart albums'
-    ];
-    
-    return patterns.some(pattern => description.includes(pattern));
+  // Features in the registry with a route APITemplateEngine can generate
+  private templatedFeatures(): FeatureDefinition[] {
+    return FEATURE_REGISTRY.filter(feature => feature.endpoint && feature.apiTemplate);
   }
 
-  /**
-   * Gets all supported API configurations for reference
-   */
-  getAllSupportedConfigs(): APIConfiguration[] {
-    return [
-      {
-        endpoint: '/api/recently-played',
-        filePath: 'src/app/api/recently-played/route.ts',
-        tableName: 'recently_played',
-        queryStrategy: 'recent_order',
-        transformPattern: 'track_transform',
-        methods: ['GET', 'POST'],
-        description: 'Recently played tracks API'
-      },
-      {
-        endpoint: '/api/playlists/made-for-you',
-        filePath: 'src/app/api/playlists/made-for-you/route.ts',
-        tableName: 'playlists',
-        queryStrategy: 'filtered_personalized',
-        transformPattern: 'playlist_transform',
-        methods: ['GET', 'POST', 'DELETE'],
-        description: 'Made for you playlists API'
-      },
-      {
-        endpoint: '/api/albums/popular',
-        filePath: 'src/app/api/albums/popular/route.ts',
-        tableName: 'albums',
-        queryStrategy: 'popularity_order',
-        transformPattern: 'album_transform',
-        methods: ['GET', 'POST', 'DELETE'],
-        description: 'Popular albums API'
-      }
-    ];
+  private toAPIConfig(feature: FeatureDefinition): APIConfiguration {
+    const endpoint = feature.endpoint!;
+    const template = feature.apiTemplate!;
+    return {
+      endpoint,
+      filePath: featureRouteFile(endpoint),
+      tableName: feature.table,
+      queryStrategy: template.queryStrategy,
+      transformPattern: template.transformPattern,
+      methods: template.methods,
+      description: template.description
+    };
   }
 
   /**
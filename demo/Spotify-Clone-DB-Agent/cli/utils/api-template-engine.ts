@@ -20,18 +20,25 @@ export class APITemplateEngine {
   generateAPICode(config: APIConfiguration): string {
     this.logger.info(` Generating API code for: ${config.endpoint}`);
 
+    const code = this.renderAPICode(config);
+    
+    this.logger.success(` Generated ${code.length} characters of API code`);
+    this.logger.info(` Includes: ${config.methods.join(', ')} methods`);
+    
+    return code;
+  }
+
+  /**
+   * Generates the same code without logging, e.g. for `db-agent check` to compare templates with routes
+   */
+  renderAPICode(config: APIConfiguration): string {
     const context: TemplateContext = {
       config,
       timestamp: new Date().toISOString(),
       projectName: 'Spotify Clone Database Agent'
     };
 
-    const code = this.buildAPICode(context);
-    
-    this.logger.success(` Generated ${code.length} characters of API code`);
-    this.logger.info(` Includes: ${config.methods.join(', ')} methods`);
-    
-    return code;
+    return this.buildAPICode(context);
   }
 
   /**
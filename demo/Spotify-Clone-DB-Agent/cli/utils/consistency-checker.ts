@@ -0,0 +1,602 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import ts from 'typescript';
+import { Logger } from './logger';
+import { APIConfigResolver } from './api-config-resolver';
+import { APITemplateEngine } from './api-template-engine';
+import { SchemaSnapshot } from './schema-snapshot';
+import { AgentConfig, getAgentConfig } from '../config/agent-config';
+
+export type FindingSeverity = 'error' | 'warning';
+
+export interface ConsistencyFinding {
+  severity: FindingSeverity;
+  // Project-relative path
+  file: string;
+  line: number;
+  message: string;
+}
+
+export interface ConsistencyReport {
+  // Where the schema came from, as recorded in the snapshot
+  source: string;
+  filesChecked: number;
+  findings: ConsistencyFinding[];
+}
+
+interface ColumnUse {
+  column: string;
+  line: number;
+  // How the code refers to the column, e.g. ".order()" or "item.title"
+  usage: string;
+}
+
+interface ResponseField {
+  key: string;
+  // Row expression the value is taken from, e.g. "item.title"; null for computed values
+  expression: string | null;
+  column: string | null;
+  line: number;
+}
+
+interface QueryUse {
+  table: string;
+  line: number;
+  // Name of the enclosing function, e.g. GET
+  handler: string | null;
+  columns: ColumnUse[];
+  // Tables embedded in a select, e.g. songs(*)
+  embedded: ColumnUse[];
+  // Fields of the object each row is mapped to
+  mapping: ResponseField[];
+}
+
+interface RouteScan {
+  file: string;
+  endpoint: string;
+  handlers: string[];
+  queries: QueryUse[];
+}
+
+interface ApiCall {
+  endpoint: string;
+  method: string;
+  responseType: string | null;
+  line: number;
+}
+
+interface InterfaceShape {
+  name: string;
+  line: number;
+  properties: { name: string; optional: boolean; line: number }[];
+}
+
+// Query builder methods whose first argument is a column name
+const COLUMN_METHODS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'is', 'in', 'contains', 'containedBy', 'not', 'order', 'textSearch'];
+const WRITE_METHODS = ['insert', 'update', 'upsert', 'match'];
+const ROW_CALLBACKS = ['map', 'forEach', 'filter', 'find', 'some', 'every', 'flatMap'];
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+// Interfaces in the types file that describe rows of a table, e.g. AlbumRecord or PlaylistsInsert
+const ROW_INTERFACE = /(Record|Table|Insert|Row)$/;
+
+/**
+ * Statically cross-checks API routes, hooks, row types and the API templates against the schema:
+ * every table and column the code names must exist, hooks must call existing routes, and a route
+ * must map rows the same way the template that regenerates it does
+ */
+export class ConsistencyChecker {
+  private logger: Logger;
+  private projectRoot: string;
+  private config: AgentConfig;
+
+  constructor(projectRoot: string) {
+    this.logger = new Logger();
+    this.projectRoot = projectRoot;
+    this.config = getAgentConfig();
+  }
+
+  async check(snapshot: SchemaSnapshot): Promise<ConsistencyReport> {
+    const tables = new Map(snapshot.tables.map(table => [table.name, new Set(table.columns.map(column => column.name))]));
+    const findings: ConsistencyFinding[] = [];
+
+    const routes = await this.scanRoutes();
+    for (const route of routes) {
+      findings.push(...queryFindings(route.file, route.queries, tables));
+    }
+    findings.push(...await this.checkTemplates(routes, tables));
+
+    const hookFiles = await this.listFiles(this.config.hooksDir, name => /\.tsx?$/.test(name));
+    for (const file of hookFiles) {
+      findings.push(...this.checkHook(file, await this.read(file), routes));
+    }
+
+    const typesSource = await this.read(this.config.typesFile).catch(() => null);
+    if (typesSource !== null) {
+      findings.push(...checkRowTypes(this.config.typesFile, typesSource, tables));
+    }
+
+    const unique = new Map(findings.map(finding => [`${finding.file}:${finding.line}:${finding.message}`, finding]));
+    return {
+      source: snapshot.source,
+      filesChecked: routes.length + hookFiles.length + (typesSource !== null ? 1 : 0),
+      findings: [...unique.values()].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+    };
+  }
+
+  displayReport(report: ConsistencyReport): void {
+    const errors = report.findings.filter(finding => finding.severity === 'error').length;
+    const warnings = report.findings.length - errors;
+    this.logger.subsection(`Consistency check: ${errors} error(s), ${warnings} warning(s) in ${report.filesChecked} file(s)`);
+
+    for (const finding of report.findings) {
+      const severity = finding.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+      console.log(`  ${severity} ${chalk.cyan(`${finding.file}:${finding.line}`)}  ${finding.message}`);
+    }
+    if (report.findings.length === 0) {
+      this.logger.success('Routes, hooks and types match the schema');
+    }
+    console.log(chalk.gray(`\n  Schema: ${report.source}`));
+  }
+
+  private async scanRoutes(): Promise<RouteScan[]> {
+    const files = await this.listFiles(this.config.apiRoot, name => name === 'route.ts');
+    const routes: RouteScan[] = [];
+    for (const file of files) {
+      const source = parse(file, await this.read(file));
+      routes.push({
+        file,
+        // Next.js serves app/api/x/route.ts at /api/x
+        endpoint: `/${toPosix(path.relative(path.dirname(this.config.apiRoot), path.dirname(file)))}`,
+        handlers: exportedFunctions(source),
+        queries: scanQueries(source)
+      });
+    }
+    return routes;
+  }
+
+  // Renders every template the resolver knows and checks it like a route file
+  private async checkTemplates(routes: RouteScan[], tables: Map<string, Set<string>>): Promise<ConsistencyFinding[]> {
+    const engineFile = toPosix(path.relative(this.projectRoot, path.join(__dirname, 'api-template-engine.ts')));
+    const engineSource = await fs.readFile(path.join(__dirname, 'api-template-engine.ts'), 'utf8').catch(() => '');
+    const engine = new APITemplateEngine();
+    const findings: ConsistencyFinding[] = [];
+
+    for (const config of new APIConfigResolver().getAllSupportedConfigs()) {
+      const code = engine.renderAPICode(config);
+      const codeLines = code.split('\n');
+      const cases = [config.transformPattern, config.queryStrategy];
+      const locate = (line: number) => templateLine(engineSource, codeLines[line - 1].trim(), cases);
+      const queries = scanQueries(parse(config.filePath, code));
+
+      findings.push(...queryFindings(engineFile, queries, tables, locate, `${config.transformPattern}: `));
+
+      const route = routes.find(candidate => candidate.file === config.filePath);
+      const routeQuery = route?.queries.find(query => query.handler === 'GET');
+      const templateQuery = queries.find(query => query.handler === 'GET');
+      if (!route || !routeQuery || !templateQuery) {
+        continue;
+      }
+
+      if (routeQuery.table !== config.tableName) {
+        findings.push({
+          severity: 'warning',
+          file: route.file,
+          line: routeQuery.line,
+          message: `GET ${route.endpoint} queries ${routeQuery.table}, but APIConfigResolver regenerates it from ${config.tableName}`
+        });
+      }
+      for (const field of routeQuery.mapping) {
+        const templateField = templateQuery.mapping.find(candidate => candidate.key === field.key);
+        if (field.column && templateField?.column && field.column !== templateField.column) {
+          findings.push({
+            severity: 'warning',
+            file: route.file,
+            line: field.line,
+            message: `${field.key} is mapped from ${field.expression}, but APITemplateEngine's ${config.transformPattern} maps it from ${templateField.expression} (${engineFile}:${locate(templateField.line)})`
+          });
+        }
+      }
+    }
+    return findings;
+  }
+
+  private checkHook(file: string, content: string, routes: RouteScan[]): ConsistencyFinding[] {
+    const source = parse(file, content);
+    const interfaces = new Map(scanInterfaces(source).map(shape => [shape.name, shape]));
+    const findings: ConsistencyFinding[] = [];
+
+    for (const call of scanApiCalls(source)) {
+      const route = routes.find(candidate => endpointMatches(candidate.endpoint, call.endpoint));
+      if (!route) {
+        findings.push({ severity: 'error', file, line: call.line, message: `${call.method} ${call.endpoint} has no route under ${this.config.apiRoot}` });
+        continue;
+      }
+      if (!route.handlers.includes(call.method)) {
+        findings.push({ severity: 'error', file, line: call.line, message: `${route.file} does not export a ${call.method} handler` });
+        continue;
+      }
+
+      // Compare the hook's response type with the fields the route maps its rows to
+      const shape = call.responseType ? interfaces.get(call.responseType) : undefined;
+      const fields = route.queries.filter(query => query.handler === call.method).flatMap(query => query.mapping);
+      if (!shape || fields.length === 0) {
+        continue;
+      }
+      for (const property of shape.properties) {
+        if (!property.optional && !fields.some(field => field.key === property.name)) {
+          findings.push({
+            severity: 'warning',
+            file,
+            line: property.line,
+            message: `${shape.name}.${property.name} is not returned by ${call.method} ${route.endpoint} (${route.file})`
+          });
+        }
+      }
+    }
+    return findings;
+  }
+
+  private async listFiles(relativeDir: string, include: (name: string) => boolean): Promise<string[]> {
+    const entries = await fs.readdir(path.join(this.projectRoot, relativeDir), { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
+    for (const entry of entries) {
+      const relativePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(relativePath, include));
+      } else if (include(entry.name)) {
+        files.push(toPosix(relativePath));
+      }
+    }
+    return files.sort();
+  }
+
+  private read(relativePath: string): Promise<string> {
+    return fs.readFile(path.join(this.projectRoot, relativePath), 'utf8');
+  }
+}
+
+function queryFindings(
+  file: string,
+  queries: QueryUse[],
+  tables: Map<string, Set<string>>,
+  locate: (line: number) => number = line => line,
+  prefix: string = ''
+): ConsistencyFinding[] {
+  const findings: ConsistencyFinding[] = [];
+  const error = (line: number, message: string) => findings.push({ severity: 'error', file, line: locate(line), message: prefix + message });
+
+  for (const query of queries) {
+    const columns = tables.get(query.table);
+    if (!columns) {
+      error(query.line, `table ${query.table} is not in the schema`);
+      continue;
+    }
+    for (const use of query.columns) {
+      // Reads of an embedded table, e.g. playlist.songs
+      if (!columns.has(use.column) && !query.embedded.some(embedded => embedded.column === use.column)) {
+        error(use.line, `${use.usage}: ${query.table} has no column ${use.column}`);
+      }
+    }
+    for (const embedded of query.embedded) {
+      if (!tables.has(embedded.column)) {
+        error(embedded.line, `${embedded.usage}: embedded table ${embedded.column} is not in the schema`);
+      }
+    }
+  }
+  return findings;
+}
+
+function checkRowTypes(file: string, content: string, tables: Map<string, Set<string>>): ConsistencyFinding[] {
+  const findings: ConsistencyFinding[] = [];
+  for (const shape of scanInterfaces(parse(file, content))) {
+    if (!ROW_INTERFACE.test(shape.name)) {
+      continue;
+    }
+    const table = tableForInterface(shape.name, tables);
+    if (!table) {
+      findings.push({ severity: 'warning', file, line: shape.line, message: `${shape.name} does not match a table in the schema` });
+      continue;
+    }
+    for (const property of shape.properties) {
+      if (!tables.get(table)!.has(property.name)) {
+        findings.push({ severity: 'error', file, line: property.line, message: `${shape.name}.${property.name}: ${table} has no column ${property.name}` });
+      }
+    }
+  }
+  return findings;
+}
+
+// Table named after an interface: RecentlyPlayedTrackRecord -> recently_played_track(s), then recently_played(s)
+function tableForInterface(name: string, tables: Map<string, Set<string>>): string | undefined {
+  const words = name.replace(ROW_INTERFACE, '').split(/(?=[A-Z])/).map(word => word.toLowerCase());
+  for (const count of [words.length, words.length - 1]) {
+    const candidate = words.slice(0, count).join('_');
+    const match = [candidate, `${candidate}s`, candidate.replace(/s$/, '')].find(table => count > 0 && tables.has(table));
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+// supabase.from('table') chains with the columns they name and the row fields read from their data
+function scanQueries(source: ts.SourceFile): QueryUse[] {
+  const queries: QueryUse[] = [];
+  visit(source, node => {
+    if (ts.isCallExpression(node)
+      && ts.isPropertyAccessExpression(node.expression)
+      && node.expression.name.text === 'from'
+      && ts.isIdentifier(node.expression.expression)
+      && node.expression.expression.text === 'supabase'
+      && node.arguments.length > 0
+      && ts.isStringLiteralLike(node.arguments[0])) {
+      queries.push(readQuery(node, node.arguments[0].text, source));
+    }
+  });
+  return queries;
+}
+
+function readQuery(from: ts.CallExpression, table: string, source: ts.SourceFile): QueryUse {
+  const query: QueryUse = { table, line: lineOf(source, from), handler: enclosingFunctionName(from), columns: [], embedded: [], mapping: [] };
+  let single = false;
+
+  // Walk up the builder chain: .select(...).eq(...).order(...)
+  let chain: ts.Expression = from;
+  while (ts.isPropertyAccessExpression(chain.parent)
+    && chain.parent.expression === chain
+    && ts.isCallExpression(chain.parent.parent)
+    && chain.parent.parent.expression === chain.parent) {
+    const method = chain.parent.name.text;
+    const call: ts.CallExpression = chain.parent.parent;
+    const [first] = call.arguments;
+    const line = lineOf(source, chain.parent.name);
+
+    if (method === 'select' && first && ts.isStringLiteralLike(first)) {
+      for (const item of splitSelect(first.text)) {
+        const target = item.embedded ? query.embedded : query.columns;
+        target.push({ column: item.name, line, usage: '.select()' });
+      }
+    } else if (WRITE_METHODS.includes(method) && first) {
+      const rows: readonly ts.Expression[] = ts.isArrayLiteralExpression(first) ? first.elements : [first];
+      for (const row of rows.filter(ts.isObjectLiteralExpression)) {
+        for (const property of row.properties) {
+          if ((ts.isPropertyAssignment(property) || ts.isShorthandPropertyAssignment(property)) && !ts.isComputedPropertyName(property.name)) {
+            query.columns.push({ column: property.name.text, line: lineOf(source, property), usage: `.${method}()` });
+          }
+        }
+      }
+    } else if (COLUMN_METHODS.includes(method) && first && ts.isStringLiteralLike(first) && !first.text.includes('.')) {
+      query.columns.push({ column: first.text, line, usage: `.${method}()` });
+    } else if (method === 'single' || method === 'maybeSingle') {
+      single = true;
+    }
+    chain = call;
+  }
+
+  // const { data, error } = await supabase.from(...)...
+  const awaited = ts.isAwaitExpression(chain.parent) ? chain.parent : chain;
+  const declaration = awaited.parent;
+  if (ts.isVariableDeclaration(declaration) && ts.isObjectBindingPattern(declaration.name)) {
+    const data = declaration.name.elements.find(element => (element.propertyName || element.name).getText(source) === 'data');
+    if (data && ts.isIdentifier(data.name)) {
+      readRows(query, data.name.text, single, enclosingFunction(from), source);
+    }
+  }
+  return query;
+}
+
+// Collects row.column reads from callbacks over the data (data.map(row => ...)) or from a single row
+function readRows(query: QueryUse, dataName: string, single: boolean, scope: ts.Node, source: ts.SourceFile): void {
+  const rowReads = (rowName: string, node: ts.Node) => visit(node, child => {
+    if (ts.isPropertyAccessExpression(child) && ts.isIdentifier(child.expression) && child.expression.text === rowName) {
+      query.columns.push({ column: child.name.text, line: lineOf(source, child), usage: child.getText(source) });
+    }
+  });
+
+  visit(scope, node => {
+    if (ts.isCallExpression(node)
+      && ts.isPropertyAccessExpression(node.expression)
+      && ROW_CALLBACKS.includes(node.expression.name.text)
+      && ts.isIdentifier(node.expression.expression)
+      && node.expression.expression.text === dataName) {
+      const callback = node.arguments[0];
+      if (!callback || !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) {
+        return;
+      }
+      const parameter = callback.parameters[0];
+      if (!parameter || !ts.isIdentifier(parameter.name)) {
+        return;
+      }
+      const rowName = parameter.name.text;
+      rowReads(rowName, callback.body);
+
+      let body: ts.Node = callback.body;
+      while (ts.isParenthesizedExpression(body)) {
+        body = body.expression;
+      }
+      if (node.expression.name.text === 'map' && ts.isObjectLiteralExpression(body)) {
+        query.mapping.push(...body.properties.filter(ts.isPropertyAssignment).map(property => {
+          const read = firstRowRead(rowName, property.initializer);
+          return {
+            key: property.name.getText(source),
+            expression: read ? read.getText(source) : null,
+            column: read ? read.name.text : null,
+            line: lineOf(source, property)
+          };
+        }));
+      }
+    } else if (single && ts.isIdentifier(node) && node.text === dataName) {
+      rowReads(dataName, node.parent);
+    }
+  });
+}
+
+function firstRowRead(rowName: string, node: ts.Node): ts.PropertyAccessExpression | undefined {
+  let found: ts.PropertyAccessExpression | undefined;
+  visit(node, child => {
+    if (!found && ts.isPropertyAccessExpression(child) && ts.isIdentifier(child.expression) && child.expression.text === rowName) {
+      found = child;
+    }
+  });
+  return found;
+}
+
+// Columns and embedded tables of a PostgREST select string, e.g. "id, name:title, songs!fk(title)"
+function splitSelect(text: string): { name: string; embedded: boolean }[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    current += char;
+  }
+  items.push(current);
+
+  return items.map(item => item.trim().replace(/^\.\.\./, '')).filter(item => item && item !== '*').flatMap(item => {
+    const embedded = item.includes('(');
+    const head = embedded ? item.slice(0, item.indexOf('(')) : item.split('::')[0];
+    const name = head.split(':').pop()!.split('!')[0].trim();
+    // Aggregates such as count(*) are not tables
+    return name && !(embedded && name === 'count') ? [{ name, embedded }] : [];
+  });
+}
+
+// axios.get<T>('/api/...') and fetch('/api/...') calls
+function scanApiCalls(source: ts.SourceFile): ApiCall[] {
+  const calls: ApiCall[] = [];
+  visit(source, node => {
+    if (!ts.isCallExpression(node) || node.arguments.length === 0) {
+      return;
+    }
+    const endpoint = apiPath(node.arguments[0]);
+    if (!endpoint) {
+      return;
+    }
+
+    let method: string | null = null;
+    if (ts.isPropertyAccessExpression(node.expression) && HTTP_METHODS.includes(node.expression.name.text)) {
+      method = node.expression.name.text.toUpperCase();
+    } else if (ts.isIdentifier(node.expression) && node.expression.text === 'fetch') {
+      const init = node.arguments[1];
+      const option = init && ts.isObjectLiteralExpression(init)
+        ? init.properties.find(property => ts.isPropertyAssignment(property) && property.name.getText(source) === 'method')
+        : undefined;
+      method = option && ts.isPropertyAssignment(option) && ts.isStringLiteralLike(option.initializer)
+        ? option.initializer.text.toUpperCase()
+        : 'GET';
+    }
+    if (method) {
+      const typeArgument = node.typeArguments?.[0];
+      calls.push({ endpoint, method, responseType: typeArgument ? typeName(typeArgument) : null, line: lineOf(source, node) });
+    }
+  });
+  return calls;
+}
+
+// '/api/albums/popular?limit=5' -> '/api/albums/popular'; template parts become '*'
+function apiPath(node: ts.Node): string | null {
+  let text: string | null = null;
+  if (ts.isStringLiteralLike(node)) {
+    text = node.text;
+  } else if (ts.isTemplateExpression(node)) {
+    text = node.head.text + node.templateSpans.map(span => `*${span.literal.text}`).join('');
+  }
+  if (!text || !text.startsWith('/api/')) {
+    return null;
+  }
+  return text.replace(/[?#].*$/, '').replace(/\/$/, '');
+}
+
+function endpointMatches(routeEndpoint: string, calledPath: string): boolean {
+  const routeSegments = routeEndpoint.split('/');
+  const calledSegments = calledPath.split('/');
+  return routeSegments.length === calledSegments.length && routeSegments.every((segment, index) =>
+    segment === calledSegments[index] || /^\[.+\]$/.test(segment) || calledSegments[index].includes('*'));
+}
+
+function typeName(node: ts.TypeNode): string | null {
+  if (ts.isArrayTypeNode(node)) {
+    return typeName(node.elementType);
+  }
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    return node.typeName.text === 'Array' && node.typeArguments?.[0] ? typeName(node.typeArguments[0]) : node.typeName.text;
+  }
+  return null;
+}
+
+function scanInterfaces(source: ts.SourceFile): InterfaceShape[] {
+  return source.statements.filter(ts.isInterfaceDeclaration).map(declaration => ({
+    name: declaration.name.text,
+    line: lineOf(source, declaration.name),
+    properties: declaration.members.filter(ts.isPropertySignature).flatMap(member =>
+      ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)
+        ? [{ name: member.name.text, optional: !!member.questionToken, line: lineOf(source, member) }]
+        : [])
+  }));
+}
+
+function exportedFunctions(source: ts.SourceFile): string[] {
+  return source.statements
+    .filter(ts.isFunctionDeclaration)
+    .filter(declaration => declaration.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword))
+    .flatMap(declaration => declaration.name ? [declaration.name.text] : []);
+}
+
+// Line in api-template-engine.ts that produced a line of rendered code, preferring the given switch cases
+function templateLine(engineSource: string, renderedLine: string, cases: string[]): number {
+  const lines = engineSource.split('\n');
+  let currentCase: string | null = null;
+  let fallback: number | null = null;
+  for (let index = 0; index < lines.length; index++) {
+    currentCase = lines[index].match(/case '(\w+)':/)?.[1] ?? currentCase;
+    if (renderedLine && lines[index].includes(renderedLine)) {
+      if (currentCase && cases.includes(currentCase)) {
+        return index + 1;
+      }
+      fallback = fallback ?? index + 1;
+    }
+  }
+  return fallback ?? Math.max(1, lines.findIndex(line => line.includes(`case '${cases[0]}':`)) + 1);
+}
+
+function enclosingFunction(node: ts.Node): ts.Node {
+  let current = node.parent;
+  while (current && !ts.isFunctionLike(current) && !ts.isSourceFile(current)) {
+    current = current.parent;
+  }
+  return current;
+}
+
+function enclosingFunctionName(node: ts.Node): string | null {
+  let current: ts.Node | undefined = node.parent;
+  while (current && !ts.isSourceFile(current)) {
+    if (ts.isFunctionDeclaration(current) && current.name) {
+      return current.name.text;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+function parse(file: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+}
+
+function visit(node: ts.Node, callback: (node: ts.Node) => void): void {
+  callback(node);
+  ts.forEachChild(node, child => visit(child, callback));
+}
+
+function lineOf(source: ts.SourceFile, node: ts.Node): number {
+  return source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,70 @@
+import path from 'path';
+import { getAgentConfig } from '../config/agent-config';
+import { DatabaseDriver, DatabaseDriverName } from './database-driver';
+import { EMBEDDED_IN_MEMORY, EmbeddedDriver } from './embedded-driver';
+import { PostgresDriver } from './postgres-driver';
+import { SupabaseDriver } from './supabase-driver';
+
+export const DATABASE_URL_ENV = 'DATABASE_URL';
+
+let sharedDriver: Promise<DatabaseDriver> | null = null;
+
+// Driver selected by the databaseDriver config option; 'auto' prefers a direct connection when DATABASE_URL is set
+export function resolveDatabaseDriverName(): DatabaseDriverName {
+  const configured = getAgentConfig().databaseDriver;
+  if (configured !== 'auto') {
+    return configured;
+  }
+  return process.env[DATABASE_URL_ENV] ? 'postgres' : 'supabase';
+}
+
+export function createDatabaseDriver(name: DatabaseDriverName = resolveDatabaseDriverName()): DatabaseDriver {
+  switch (name) {
+    case 'postgres': {
+      const connectionString = process.env[DATABASE_URL_ENV];
+      if (!connectionString) {
+        throw new Error(`${DATABASE_URL_ENV} must be set to use the postgres database driver`);
+      }
+      return new PostgresDriver(connectionString);
+    }
+    case 'supabase':
+      return new SupabaseDriver();
+    case 'embedded': {
+      const dataDir = getAgentConfig().embeddedDatabaseDir;
+      return new EmbeddedDriver(dataDir === EMBEDDED_IN_MEMORY ? dataDir : path.resolve(process.cwd(), dataDir));
+    }
+  }
+}
+
+/**
+ * Connected driver shared by the migration executor, state analyzer and agents, so a command opens
+ * one connection. A failed connection is retried on the next call.
+ */
+export function getDatabaseDriver(): Promise<DatabaseDriver> {
+  if (!sharedDriver) {
+    const connecting = (async () => {
+      const driver = createDatabaseDriver();
+      await driver.connect();
+      return driver;
+    })();
+    sharedDriver = connecting;
+    connecting.catch(() => {
+      if (sharedDriver === connecting) {
+        sharedDriver = null;
+      }
+    });
+  }
+  return sharedDriver;
+}
+
+export async function closeDatabaseDriver(): Promise<void> {
+  if (!sharedDriver) return;
+
+  const connecting = sharedDriver;
+  sharedDriver = null;
+  try {
+    await (await connecting).close();
+  } catch {
+    // Never connected, nothing to close
+  }
+}
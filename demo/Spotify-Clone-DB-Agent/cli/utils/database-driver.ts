@@ -0,0 +1,67 @@
+export type DatabaseDriverName = 'supabase' | 'postgres' | 'embedded';
+
+export type RowValue = string | number | boolean | null;
+
+// Column equality filters; an array matches any of its values (IN)
+export type RowFilter = Record<string, RowValue | Array<string | number>>;
+
+export interface SelectOptions {
+  columns?: string[];
+  where?: RowFilter;
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+}
+
+export interface ColumnInfo {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+}
+
+/**
+ * SQL and row operations; inside DatabaseDriver.transaction they run on the transaction's connection
+ */
+export interface DatabaseSession {
+  // Runs SQL that returns no rows; may contain several statements
+  execute(sql: string): Promise<void>;
+  select<TRow = Record<string, any>>(table: string, options?: SelectOptions): Promise<TRow[]>;
+  insert(table: string, row: Record<string, RowValue | undefined>): Promise<void>;
+  update(table: string, values: Record<string, RowValue>, where: RowFilter): Promise<void>;
+  delete(table: string, where: RowFilter): Promise<void>;
+}
+
+/**
+ * Connection to the database the agent migrates. Implementations throw Error with the database's message.
+ */
+export interface DatabaseDriver extends DatabaseSession {
+  readonly name: DatabaseDriverName;
+  // Whether transaction() is atomic; without it a failed migration leaves its earlier statements applied
+  readonly transactional: boolean;
+  // Human-readable target for status output, without credentials
+  readonly description: string;
+
+  connect(): Promise<void>;
+  close(): Promise<void>;
+
+  /**
+   * Runs work in one transaction that is rolled back if it throws. Drivers that cannot open a
+   * transaction run it directly on the connection.
+   */
+  transaction<T>(work: (session: DatabaseSession) => Promise<T>): Promise<T>;
+
+  listTables(schema?: string): Promise<string[]>;
+  listIndexes(schema?: string): Promise<string[]>;
+  listColumns(table: string, schema?: string): Promise<ColumnInfo[]>;
+  tableExists(table: string): Promise<boolean>;
+  countRows(table: string): Promise<number>;
+  // Tables and enum types of a schema as JSON, in the shape produced by SCHEMA_INTROSPECTION_SQL (see schema-snapshot.ts)
+  introspectSchema(schema?: string): Promise<unknown>;
+}
+
+// Quotes a possibly schema-qualified name for SQL, e.g. public.users -> "public"."users"
+export function quoteIdentifier(name: string): string {
+  return name
+    .split('.')
+    .map(part => `"${part.replace(/"/g, '""')}"`)
+    .join('.');
+}
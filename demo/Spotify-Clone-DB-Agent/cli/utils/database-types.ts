@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileManager } from './file-manager';
+import { indexColumns, SchemaColumn, SchemaSnapshot, SchemaTable } from './schema-snapshot';
+import { getAgentConfig } from '../config/agent-config';
+
+// First line of every generated file; marks it as safe to overwrite
+export const DATABASE_TYPES_HEADER = '// Generated by `db-agent types generate`. Do not edit by hand.';
+
+const NUMBER_TYPES = ['smallint', 'integer', 'bigint', 'real', 'double precision', 'numeric'];
+const JSON_TYPES = ['json', 'jsonb'];
+
+/**
+ * Renders the Supabase `Database` type for a snapshot: Row, Insert and Update types and the foreign key
+ * relationships of every table, plus the schema's enums, in the layout supabase-js expects for
+ * `createClient<Database>()`
+ */
+export function generateDatabaseTypes(snapshot: SchemaSnapshot): string {
+  const enumNames = new Set(snapshot.enums.map(enumType => enumType.name));
+  const schema = snapshot.schema;
+
+  const tables = snapshot.tables.map(table => {
+    const columns = [...table.columns].sort((a, b) => a.name.localeCompare(b.name));
+    const property = (column: SchemaColumn, optional: boolean) =>
+      `          ${propertyName(column.name)}${optional ? '?' : ''}: ${tsType(column.type, schema, enumNames)}${column.nullable ? ' | null' : ''};`;
+
+    return [
+      `      ${propertyName(table.name)}: {`,
+      '        Row: {', ...columns.map(column => property(column, false)), '        };',
+      // Nullable columns and columns with a default may be left out of an insert
+      '        Insert: {', ...columns.map(column => property(column, column.nullable || column.default !== null)), '        };',
+      '        Update: {', ...columns.map(column => property(column, true)), '        };',
+      `        Relationships: ${relationships(table, schema)};`,
+      '      };'
+    ].join('\n');
+  });
+
+  const enums = snapshot.enums.map(enumType =>
+    `      ${propertyName(enumType.name)}: ${enumType.values.map(value => quote(value)).join(' | ') || 'never'};`);
+
+  const never = '{\n      [_ in never]: never;\n    };';
+  const lines = [
+    DATABASE_TYPES_HEADER,
+    `// Source: ${snapshot.source}, schema "${schema}", pulled at ${snapshot.pulledAt}`,
+    '',
+    'export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];',
+    '',
+    'export type Database = {',
+    `  ${propertyName(schema)}: {`,
+    `    Tables: ${tables.length > 0 ? `{\n${tables.join('\n')}\n    };` : never}`,
+    `    Views: ${never}`,
+    `    Functions: ${never}`,
+    `    Enums: ${enums.length > 0 ? `{\n${enums.join('\n')}\n    };` : never}`,
+    `    CompositeTypes: ${never}`,
+    '  };',
+    '};',
+    '',
+    `type Schema = Database[${quote(schema)}];`,
+    '',
+    "export type Tables<T extends keyof Schema['Tables']> = Schema['Tables'][T]['Row'];",
+    "export type TablesInsert<T extends keyof Schema['Tables']> = Schema['Tables'][T]['Insert'];",
+    "export type TablesUpdate<T extends keyof Schema['Tables']> = Schema['Tables'][T]['Update'];",
+    "export type Enums<T extends keyof Schema['Enums']> = Schema['Enums'][T];",
+    ''
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Writes the generated types to the configured databaseTypesFile and returns its project-relative path.
+ * A file that was not generated is never overwritten.
+ */
+export async function writeDatabaseTypes(projectRoot: string, snapshot: SchemaSnapshot): Promise<string> {
+  const typesFile = getAgentConfig().databaseTypesFile;
+  const existing = await fs.readFile(path.join(projectRoot, typesFile), 'utf-8').catch(() => null);
+  if (existing !== null && !existing.startsWith(DATABASE_TYPES_HEADER)) {
+    throw new Error(`${typesFile} was not generated by db-agent; move it away or point databaseTypesFile at another file`);
+  }
+
+  const fileManager = new FileManager(projectRoot);
+  await fileManager.ensureDirectory(path.dirname(typesFile));
+  if (existing !== null) {
+    await fileManager.updateFile(typesFile, generateDatabaseTypes(snapshot));
+  } else {
+    await fileManager.createFile(typesFile, generateDatabaseTypes(snapshot));
+  }
+  return typesFile;
+}
+
+// Foreign keys within the schema, which supabase-js uses to type embedded selects
+function relationships(table: SchemaTable, schema: string): string {
+  const keys = table.foreignKeys.filter(foreignKey => foreignKey.referencedSchema === schema);
+  if (keys.length === 0) {
+    return '[]';
+  }
+
+  const uniqueColumnSets = [
+    table.primaryKey,
+    ...table.indexes.filter(index => index.unique).map(index => indexColumns(index.definition) || [])
+  ].map(columns => [...columns].sort().join(','));
+
+  const entries = keys.map(foreignKey => [
+    '          {',
+    `            foreignKeyName: ${quote(foreignKey.name)};`,
+    `            columns: [${foreignKey.columns.map(column => quote(column)).join(', ')}];`,
+    `            isOneToOne: ${uniqueColumnSets.includes([...foreignKey.columns].sort().join(','))};`,
+    `            referencedRelation: ${quote(foreignKey.referencedTable)};`,
+    `            referencedColumns: [${foreignKey.referencedColumns.map(column => quote(column)).join(', ')}];`,
+    '          }'
+  ].join('\n'));
+  return `[\n${entries.join(',\n')}\n        ]`;
+}
+
+// TypeScript type of a column type as format_type() prints it, e.g. "character varying(20)[]"
+function tsType(type: string, schema: string, enumNames: Set<string>): string {
+  if (type.endsWith('[]')) {
+    const element = tsType(type.slice(0, -2), schema, enumNames);
+    return element.includes(' ') ? `(${element})[]` : `${element}[]`;
+  }
+
+  const name = type.replace(new RegExp(`^"?${schema}"?\\.`), '').replace(/"/g, '');
+  if (enumNames.has(name)) {
+    return `Database[${quote(schema)}]['Enums'][${quote(name)}]`;
+  }
+
+  const base = name.replace(/\(.*\)/, '');
+  if (NUMBER_TYPES.includes(base)) return 'number';
+  if (base === 'boolean') return 'boolean';
+  if (JSON_TYPES.includes(base)) return 'Json';
+  return 'string';
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+// Single-quoted TypeScript string literal
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
@@ -0,0 +1,182 @@
+import { PGlite } from '@electric-sql/pglite';
+import type { Transaction } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import fs from 'fs/promises';
+import path from 'path';
+import { Logger } from './logger';
+import {
+  ColumnInfo,
+  DatabaseDriver,
+  DatabaseSession,
+  RowFilter,
+  RowValue,
+  SelectOptions
+} from './database-driver';
+import { SqlConnection, SqlSession } from './sql-session';
+
+// Data directory value that keeps the embedded database in memory for the length of the process
+export const EMBEDDED_IN_MEMORY = 'memory://';
+
+/**
+ * Stand-ins for the Supabase objects migrations commonly reference, so they run unchanged: the
+ * extensions Supabase enables by default, the anon, authenticated and service_role roles, auth.users,
+ * and auth.uid() / auth.role() / auth.jwt() reading the same request.jwt settings PostgREST sets
+ */
+const SUPABASE_COMPATIBILITY_SQL = `
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+DO $$
+DECLARE
+  role_name TEXT;
+BEGIN
+  FOREACH role_name IN ARRAY ARRAY['anon', 'authenticated', 'service_role'] LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = role_name) THEN
+      EXECUTE format('CREATE ROLE %I NOLOGIN', role_name);
+    END IF;
+  END LOOP;
+END $$;
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::uuid
+$$;
+
+CREATE OR REPLACE FUNCTION auth.role() RETURNS TEXT LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.role', true), '')
+$$;
+
+CREATE OR REPLACE FUNCTION auth.jwt() RETURNS JSONB LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(NULLIF(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+$$;
+`;
+
+/**
+ * PostgreSQL compiled to WebAssembly (PGlite), running inside the CLI process. Needs no server, network
+ * or credentials: migrations, seed data and state analysis run against a local data directory, or
+ * entirely in memory for tests.
+ */
+export class EmbeddedDriver implements DatabaseDriver {
+  readonly name = 'embedded';
+  readonly transactional = true;
+  private logger: Logger;
+  private dataDir: string;
+  private db: PGlite | null = null;
+
+  // dataDir is an absolute directory or EMBEDDED_IN_MEMORY
+  constructor(dataDir: string) {
+    this.logger = new Logger();
+    this.dataDir = dataDir;
+  }
+
+  get description(): string {
+    return this.dataDir === EMBEDDED_IN_MEMORY
+      ? 'Embedded PostgreSQL (in memory)'
+      : `Embedded PostgreSQL (${path.relative(process.cwd(), this.dataDir) || '.'})`;
+  }
+
+  async connect(): Promise<void> {
+    this.logger.analyzing(`Starting ${this.description}...`);
+
+    const extensions = { pgcrypto, uuid_ossp };
+    let db: PGlite;
+    try {
+      if (this.dataDir === EMBEDDED_IN_MEMORY) {
+        db = await PGlite.create({ extensions });
+      } else {
+        await fs.mkdir(this.dataDir, { recursive: true });
+        db = await PGlite.create(this.dataDir, { extensions });
+      }
+      await db.exec(SUPABASE_COMPATIBILITY_SQL);
+    } catch (error) {
+      throw new Error(`Cannot start ${this.description}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.db = db;
+    this.logger.success(`Started ${this.description}`);
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.db.close();
+      this.db = null;
+    }
+  }
+
+  execute(sql: string): Promise<void> {
+    return this.session().execute(sql);
+  }
+
+  select<TRow = Record<string, any>>(table: string, options?: SelectOptions): Promise<TRow[]> {
+    return this.session().select<TRow>(table, options);
+  }
+
+  insert(table: string, row: Record<string, RowValue | undefined>): Promise<void> {
+    return this.session().insert(table, row);
+  }
+
+  update(table: string, values: Record<string, RowValue>, where: RowFilter): Promise<void> {
+    return this.session().update(table, values, where);
+  }
+
+  delete(table: string, where: RowFilter): Promise<void> {
+    return this.session().delete(table, where);
+  }
+
+  // PGlite commits when work resolves and rolls back when it throws
+  transaction<T>(work: (session: DatabaseSession) => Promise<T>): Promise<T> {
+    return this.requireDb().transaction(tx => work(new SqlSession(toConnection(tx))));
+  }
+
+  listTables(schema?: string): Promise<string[]> {
+    return this.session().listTables(schema);
+  }
+
+  listIndexes(schema?: string): Promise<string[]> {
+    return this.session().listIndexes(schema);
+  }
+
+  listColumns(table: string, schema?: string): Promise<ColumnInfo[]> {
+    return this.session().listColumns(table, schema);
+  }
+
+  tableExists(table: string): Promise<boolean> {
+    return this.session().tableExists(table);
+  }
+
+  countRows(table: string): Promise<number> {
+    return this.session().countRows(table);
+  }
+
+  introspectSchema(schema?: string): Promise<unknown> {
+    return this.session().introspectSchema(schema);
+  }
+
+  private requireDb(): PGlite {
+    if (!this.db) {
+      throw new Error('Embedded database not started');
+    }
+    return this.db;
+  }
+
+  private session(): SqlSession {
+    return new SqlSession(toConnection(this.requireDb()));
+  }
+}
+
+function toConnection(db: PGlite | Transaction): SqlConnection {
+  return {
+    query: (text, values) => db.query(text, values as any[]),
+    exec: async sql => {
+      await db.exec(sql);
+    }
+  };
+}
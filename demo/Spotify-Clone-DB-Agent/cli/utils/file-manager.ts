@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import { Logger } from './logger';
@@ -9,6 +10,15 @@ export interface FileOperation {
   backup?: string;
 }
 
+// A file change as persisted in .db-agent-history.json, so it can be undone after the process exits
+export interface RecordedFileChange {
+  type: FileOperation['type'];
+  path: string;
+  backup?: string;
+  // sha256 of the content the agent wrote, used to detect later manual edits
+  contentHash?: string;
+}
+
 export class FileManager {
   private logger: Logger;
   private operationHistory: FileOperation[] = [];
@@ -182,18 +192,21 @@ export class FileManager {
     }
   }
 
-  // Rollback operations
-  async rollbackOperations(): Promise<void> {
+  // Rollback operations (only those recorded after `since`, if given)
+  async rollbackOperations(since: number = 0): Promise<void> {
     this.logger.info('Starting rollback of operations...');
     
     // Reverse the operations
-    const reversedOperations = [...this.operationHistory].reverse();
+    const reversedOperations = this.operationHistory.slice(since).reverse();
     
     for (const operation of reversedOperations) {
       try {
         switch (operation.type) {
           case 'create':
-            // Delete the created file
+            // Delete the created file (temporary files may already be gone)
+            if (!(await this.fileExists(path.resolve(this.projectRoot, operation.path)))) {
+              break;
+            }
             await fs.unlink(path.resolve(this.projectRoot, operation.path));
             this.logger.info(`Rolled back creation of ${operation.path}`);
             break;
@@ -226,10 +239,30 @@ export class FileManager {
     }
     
     // Clear operation history
-    this.operationHistory = [];
+    this.operationHistory = this.operationHistory.slice(0, since);
     this.logger.success('Rollback completed');
   }
 
+  // Track a change written outside the FileManager (e.g. by the API route orchestrator) so it is rolled back too
+  trackChange(operation: FileOperation): void {
+    this.operationHistory.push(operation);
+  }
+
+  // Changes made after the given point in the history, in the form stored with each history entry
+  getRecordedChanges(since: number = 0): RecordedFileChange[] {
+    return this.operationHistory.slice(since).map(operation => ({
+      type: operation.type,
+      path: operation.path,
+      // Relative to the project, so the history stays valid when the project is moved
+      backup: operation.backup ? path.relative(this.projectRoot, path.resolve(this.projectRoot, operation.backup)) : undefined,
+      contentHash: operation.content !== undefined ? FileManager.hashContent(operation.content) : undefined
+    }));
+  }
+
+  static hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
   // Clear operation history
   clearHistory(): void {
     this.operationHistory = [];
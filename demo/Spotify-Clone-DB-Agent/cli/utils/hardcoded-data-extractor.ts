@@ -1,6 +1,8 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { Logger } from './logger';
+import { getAgentConfig } from '../config/agent-config';
+import { FEATURE_REGISTRY, findFeature } from '../config/feature-registry';
 
 export interface ExtractedDataItem {
   id: string;
@@ -13,11 +15,8 @@ export interface ExtractedDataItem {
   [key: string]: any;
 }
 
-export interface ExtractedDataSet {
-  recentlyPlayed: ExtractedDataItem[];
-  madeForYou: ExtractedDataItem[];
-  popularAlbums: ExtractedDataItem[];
-}
+// Fallback data per feature name, e.g. recently_played
+export type ExtractedDataSet = Record<string, ExtractedDataItem[]>;
 
 export interface MultiTableDataResult {
   hasRecentlyPlayed: boolean;
@@ -40,18 +39,18 @@ export class HardcodedDataExtractor {
    */
   async extractFromComponents(projectRoot: string): Promise<ExtractedDataSet> {
     
-    const mainContentPath = path.join(projectRoot, 'src/components/spotify-main-content.tsx');
+    const mainContentPath = path.join(projectRoot, getAgentConfig().mainComponent);
     
     try {
       const content = await fs.readFile(mainContentPath, 'utf-8');
       
-      const extracted = {
-        recentlyPlayed: this.extractRecentlyPlayedData(content),
-        madeForYou: this.extractMadeForYouData(content),
-        popularAlbums: this.extractPopularAlbumsData(content)
-      };
+      const extracted: ExtractedDataSet = {};
+      for (const feature of FEATURE_REGISTRY.filter(candidate => candidate.fallbackDataConstant)) {
+        extracted[feature.name] = this.extractFallbackData(content, feature.fallbackDataConstant!);
+      }
 
-      this.logger.success(` Extracted data: ${extracted.recentlyPlayed.length} recently played, ${extracted.madeForYou.length} made for you, ${extracted.popularAlbums.length} popular albums`);
+      const counts = Object.entries(extracted).map(([name, items]) => `${items.length} ${name}`);
+      this.logger.success(` Extracted data: ${counts.join(', ')}`);
       
       return extracted;
     } catch (error) {
@@ -61,42 +60,16 @@ export class HardcodedDataExtractor {
   }
 
   /**
-   * Extracts recently played data from component content
-   */
-  private extractRecentlyPlayedData(content: string): ExtractedDataItem[] {
-    const recentlyPlayedMatch = content.match(/const FALLBACK_RECENTLY_PLAYED[^=]*=\s*\[([\s\S]*?)\];/);
-    if (!recentlyPlayedMatch) {
-      this.logger.warn('No FALLBACK_RECENTLY_PLAYED found in component');
-      return [];
-    }
-
-    return this.parseDataArray(recentlyPlayedMatch[1]);
-  }
-
-  /**
-   * Extracts made for you data from component content
-   */
-  private extractMadeForYouData(content: string): ExtractedDataItem[] {
-    const madeForYouMatch = content.match(/const FALLBACK_MADE_FOR_YOU[^=]*=\s*\[([\s\S]*?)\];/);
-    if (!madeForYouMatch) {
-      this.logger.warn('No FALLBACK_MADE_FOR_YOU found in component');
-      return [];
-    }
-
-    return this.parseDataArray(madeForYouMatch[1]);
-  }
-
-  /**
-   * Extracts popular albums data from component content
+   * Extracts the items of a fallback data constant, e.g. FALLBACK_RECENTLY_PLAYED, from component content
    */
-  private extractPopularAlbumsData(content: string): ExtractedDataItem[] {
-    const popularAlbumsMatch = content.match(/const FALLBACK_POPULAR_ALBUMS[^=]*=\s*\[([\s\S]*?)\];/);
-    if (!popularAlbumsMatch) {
-      this.logger.warn('No FALLBACK_POPULAR_ALBUMS found in component');
+  private extractFallbackData(content: string, constant: string): ExtractedDataItem[] {
+    const match = content.match(new RegExp(`const ${constant}[^=]*=\\s*\\[([\\s\\S]*?)\\];`));
+    if (!match) {
+      this.logger.warn(`No ${constant} found in component`);
       return [];
     }
 
-    return this.parseDataArray(popularAlbumsMatch[1]);
+    return this.parseDataArray(match[1]);
   }
 
   /**
@@ -172,7 +145,7 @@ export class HardcodedDataExtractor {
     this.logger.info(' Using default fallback data');
     
     return {
-      recentlyPlayed: [
+      recently_played: [
         {
           id: '1',
           title: 'Liked Songs',
@@ -190,7 +163,7 @@ export class HardcodedDataExtractor {
           duration: 210
         }
       ],
-      madeForYou: [
+      made_for_you: [
         {
           id: '7',
           title: 'Discover Weekly',
@@ -208,7 +181,7 @@ export class HardcodedDataExtractor {
           duration: 195
         }
       ],
-      popularAlbums: [
+      popular_albums: [
         {
           id: '13',
           title: 'Midnights',
@@ -234,17 +207,12 @@ export class HardcodedDataExtractor {
    */
   async getDataForContext(projectRoot: string, operationDescription: string): Promise<ExtractedDataItem[]> {
     const allData = await this.extractFromComponents(projectRoot);
-    const description = operationDescription.toLowerCase();
+    const feature = findFeature(operationDescription, candidate => !!candidate.fallbackDataConstant);
 
-    if (description.includes('recently played') || description.includes('recently_played')) {
-      this.logger.info(` Selected recently played data (${allData.recentlyPlayed.length} items)`);
-      return allData.recentlyPlayed;
-    } else if (description.includes('made for you') || description.includes('made_for_you') || description.includes('playlist')) {
-      this.logger.info(` Selected made for you data (${allData.madeForYou.length} items)`);
-      return allData.madeForYou;
-    } else if (description.includes('albums') || description.includes('popular')) {
-      this.logger.info(` Selected popular albums data (${allData.popularAlbums.length} items)`);
-      return allData.popularAlbums;
+    if (feature) {
+      const items = allData[feature.name] || [];
+      this.logger.info(` Selected ${feature.name} data (${items.length} items)`);
+      return items;
     }
 
     this.logger.warn(` No matching data found for description: "${operationDescription}"`);
@@ -260,12 +228,12 @@ export class HardcodedDataExtractor {
     const allData = await this.extractFromComponents(projectRoot);
     
     const result: MultiTableDataResult = {
-      hasRecentlyPlayed: allData.recentlyPlayed.length > 0,
-      recentlyPlayed: allData.recentlyPlayed,
-      hasMadeForYou: allData.madeForYou.length > 0,
-      madeForYou: allData.madeForYou,
-      hasPopularAlbums: allData.popularAlbums.length > 0,
-      popularAlbums: allData.popularAlbums
+      hasRecentlyPlayed: (allData.recently_played || []).length > 0,
+      recentlyPlayed: allData.recently_played || [],
+      hasMadeForYou: (allData.made_for_you || []).length > 0,
+      madeForYou: allData.made_for_you || [],
+      hasPopularAlbums: (allData.popular_albums || []).length > 0,
+      popularAlbums: allData.popular_albums || []
     };
 
     this.logger.success(` Multi-table extraction complete: recently_played=${result.hasRecentlyPlayed}, playlists=${result.hasMadeForYou}, albums=${result.hasPopularAlbums}`);
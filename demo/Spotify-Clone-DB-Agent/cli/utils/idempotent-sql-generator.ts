@@ -1,6 +1,8 @@
 import { Logger } from './logger';
 import { AIClient } from './ai-client';
 import { StateAnalyzer, SystemState } from './state-analyzer';
+import { formatMigrationSections } from './migration-format';
+import { getDatabaseDriver } from './database-connection';
 
 export interface TableColumn {
   name: string;
@@ -8,12 +10,20 @@ export interface TableColumn {
   constraints?: string;
   nullable?: boolean;
   default?: string;
+  unique?: boolean;
+  // Foreign key target such as "albums(id)" or "auth.users(id)"
+  references?: string;
+  onDelete?: 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
+  // Previous name, so `schema diff` renames the column instead of dropping and re-adding it
+  renamedFrom?: string;
 }
 
 export interface TableDefinition {
   name: string;
   columns: TableColumn[];
+  // Column name, or a comma-separated list for a composite key
   primaryKey?: string;
+  // Column lists of plain indexes, e.g. "user_id" or "user_id, played_at"
   indexes?: string[];
   policies?: string[];
   seedData?: any[];
@@ -27,6 +37,8 @@ export interface SQLGenerationOptions {
   existingTables?: string[];
   existingIndexes?: string[];
   seedData?: any[]; // <-- add this line
+  // The table existed before the migration, so its down section must not drop it
+  tableExists?: boolean;
 }
 
 export class IdempotentSQLGenerator {
@@ -68,7 +80,7 @@ export class IdempotentSQLGenerator {
       description,
       tableName,
       columns,
-      options,
+      { ...options, tableExists: options.tableExists ?? tableExists },
       systemState
     );
 
@@ -83,11 +95,10 @@ export class IdempotentSQLGenerator {
     systemState: SystemState
   ): Promise<string> {
     const updateStatements: string[] = [];
-
-    // Add header comment
-    updateStatements.push(`-- Idempotent update for table: ${tableName}`);
-    updateStatements.push(`-- Generated at: ${new Date().toISOString()}`);
-    updateStatements.push('');
+    const header = [
+      `-- Idempotent update for table: ${tableName}`,
+      `-- Generated at: ${new Date().toISOString()}`
+    ].join('\n');
 
     // Add columns that might not exist
     for (const column of columns) {
@@ -109,7 +120,26 @@ export class IdempotentSQLGenerator {
       );
     }
 
-    return updateStatements.join('\n');
+    // Drop only the columns this migration adds, newest first; columns that were already there keep their data
+    const existingColumns = await this.listExistingColumns(tableName);
+    const downStatements = existingColumns === null
+      ? [`-- The columns of ${tableName} could not be read, so no column is dropped on rollback`]
+      : [...columns].reverse()
+          .filter(column => !existingColumns.includes(column.name))
+          .map(column => `ALTER TABLE ${tableName} DROP COLUMN IF EXISTS ${column.name};`);
+
+    return formatMigrationSections(header, updateStatements.join('\n'), downStatements.join('\n'));
+  }
+
+  // Column names of an existing table, or null when the database cannot be asked
+  private async listExistingColumns(tableName: string): Promise<string[] | null> {
+    try {
+      const driver = await getDatabaseDriver();
+      return (await driver.listColumns(tableName, 'public')).map(column => column.name);
+    } catch (error) {
+      this.logger.warn(`Could not read the columns of ${tableName}, the migration will not drop any on rollback: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
   }
 
   // Generate comprehensive idempotent SQL
@@ -167,14 +197,19 @@ export class IdempotentSQLGenerator {
     Return only the SQL migration code, no explanations or markdown formatting.
     The SQL should be production-ready and thoroughly tested for idempotency.`;
 
-    const sqlCode = await this.aiClient.generateText(prompt, `Generate idempotent SQL for ${tableName} table`);
+    const sqlCode = await this.aiClient.streamWithProgress(
+      prompt,
+      `Generate idempotent SQL for ${tableName} table`,
+      `Generating migration for ${tableName}`,
+      'sql'
+    );
     
     // Post-process the generated SQL to ensure idempotency
-    return this.postProcessSQL(sqlCode, tableName, systemState);
+    return this.postProcessSQL(sqlCode, tableName, systemState, options.tableExists === true);
   }
 
   // Post-process SQL to ensure idempotency
-  private postProcessSQL(sql: string, tableName: string, systemState: SystemState): string {
+  private postProcessSQL(sql: string, tableName: string, systemState: SystemState, tableExisted: boolean): string {
     let processedSQL = sql;
 
     // Remove transaction commands (BEGIN, COMMIT, ROLLBACK, START TRANSACTION) - more robust
@@ -221,16 +256,17 @@ export class IdempotentSQLGenerator {
     processedSQL = processedSQL.replace(/\n\s*\n\s*\n/g, '\n\n');
 
     // Add header if not present
-    if (!processedSQL.includes('-- Idempotent Migration')) {
-      const header = `-- Idempotent Migration: ${tableName}
+    const header = processedSQL.includes('-- Idempotent Migration') ? '' : `-- Idempotent Migration: ${tableName}
 -- Generated at: ${new Date().toISOString()}
 -- This migration can be run multiple times safely
 
 `;
-      processedSQL = header + processedSQL;
-    }
 
-    return processedSQL;
+    // Unless the AI wrote its own up/down sections, dropping the new table undoes the migration
+    if (/^\s*--\s*migrate:up\s*$/im.test(processedSQL)) {
+      return header + processedSQL;
+    }
+    return formatMigrationSections(header, processedSQL, this.generateDropTableSQL(tableName, tableExisted));
   }
 
   // Generate idempotent SQL for specific operations
@@ -289,6 +325,18 @@ BEGIN
 END $$;`;
   }
 
+  // Down section for a migration that created the table. A table that existed before is never dropped,
+  // which leaves the section empty and the migration irreversible.
+  private generateDropTableSQL(tableName: string, tableExisted: boolean): string {
+    if (tableExisted) {
+      this.logger.warn(`Table ${tableName} already exists - its migration gets no down section, so rolling it back keeps the table and its data`);
+      return `-- ${tableName} existed before this migration, so rolling it back must not drop it`;
+    }
+    return `-- Dropping the table also drops its indexes, triggers, policies and rows.
+-- update_updated_at_column() is shared with other tables and is kept.
+DROP TABLE IF EXISTS ${tableName} CASCADE;`;
+  }
+
   // Generate updated_at trigger function (idempotent)
   async generateUpdatedAtTriggerFunction(): Promise<string> {
     return `-- Create updated_at trigger function (idempotent)
@@ -356,13 +404,14 @@ WHERE NOT EXISTS (
     const sections: string[] = [];
 
     // Header
-    sections.push(`-- =====================================================`);
-    sections.push(`-- IDEMPOTENT MIGRATION: ${tableName}`);
-    sections.push(`-- Description: ${description}`);
-    sections.push(`-- Generated: ${new Date().toISOString()}`);
-    sections.push(`-- Safe to run multiple times`);
-    sections.push(`-- =====================================================`);
-    sections.push('');
+    const header = [
+      `-- =====================================================`,
+      `-- IDEMPOTENT MIGRATION: ${tableName}`,
+      `-- Description: ${description}`,
+      `-- Generated: ${new Date().toISOString()}`,
+      `-- Safe to run multiple times`,
+      `-- =====================================================`
+    ].join('\n');
 
     // Table creation
     sections.push(await this.generateIdempotentCreateTable(tableName, columns));
@@ -406,7 +455,7 @@ WHERE NOT EXISTS (
     sections.push(`-- Migration for ${tableName} completed`);
     sections.push(`-- All operations are idempotent and safe to rerun`);
 
-    return sections.join('\n');
+    return formatMigrationSections(header, sections.join('\n'), this.generateDropTableSQL(tableName, options.tableExists === true));
   }
 
   // Validate that SQL is idempotent
@@ -63,6 +63,17 @@ export class Logger {
     console.log(chalk.cyan(`[${progressBar}] ${percentage}%`), message);
   }
 
+  // Live progress for streamed AI output, redrawn on a single line
+  streamProgress(label: string, receivedChars: number): void {
+    if (!process.stdout.isTTY) return;
+    process.stdout.write(`\r${chalk.yellow('')} ${chalk.italic(`${label}: ${receivedChars} characters received`)}`);
+  }
+
+  endStream(): void {
+    if (!process.stdout.isTTY) return;
+    process.stdout.write('\n');
+  }
+
   // Formatted output methods
   section(title: string): void {
     console.log('\n' + chalk.bold.underline(title));
@@ -1,10 +1,14 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import fs from 'fs/promises';
 import path from 'path';
 import { Logger } from './logger';
 import { FileManager } from './file-manager';
 import { StateAnalyzer } from './state-analyzer';
 import { IdempotentSQLGenerator } from './idempotent-sql-generator';
+import { MIGRATE_DOWN_MARKER, parseMigrationSections } from './migration-format';
+import { copyStatementToInsert, splitSqlStatements, SqlStatement } from './sql-tokenizer';
+import { DatabaseDriver, DatabaseSession } from './database-driver';
+import { getDatabaseDriver } from './database-connection';
+import { getAgentConfig } from '../config/agent-config';
 
 export interface MigrationInfo {
   filename: string;
@@ -14,23 +18,61 @@ export interface MigrationInfo {
   executed: boolean;
   executedAt?: string;
   rollbackSql?: string;
+  checksum?: string;
+  // Baseline migration this one was consolidated into by `migrations squash`
+  squashedInto?: string;
 }
 
+// Where a migration's rollback SQL comes from: its -- migrate:down section or a guess from its statements
+export type RollbackSource = 'explicit' | 'generated';
+
 export interface MigrationResult {
   success: boolean;
   migration: MigrationInfo;
   error?: string;
   tablesCreated?: string[];
+  // Tables the migration creates that were already in the database before it ran
+  preexistingTables?: string[];
+  // Already executed earlier, nothing was run
+  skipped?: boolean;
   rollbackInfo?: {
     canRollback: boolean;
     rollbackSql?: string;
+    rollbackSource?: RollbackSource;
   };
 }
 
+export interface PlannedStatement {
+  statement: SqlStatement;
+  // SQL sent to the database
+  sql: string;
+  // Set when the statement is not executed
+  skipReason?: string;
+  // Set when the statement cannot be executed
+  error?: string;
+}
+
+const TRANSACTION_CONTROL = /^(?:BEGIN|COMMIT|ROLLBACK|END|ABORT|START\s+TRANSACTION)\b/i;
+
+// One-off seed data scripts: executed and recorded, then deleted
+export const TEMPORARY_MIGRATION_PREFIX = 'temp_populate_';
+
+export interface MigrationVerification {
+  verified: string[];
+  // Executed migrations whose file no longer matches the recorded checksum
+  edited: Array<{ filename: string; filepath: string }>;
+  // Executed migrations whose file is gone
+  missing: string[];
+  // Migration files that were never executed
+  untracked: string[];
+  // Executed before content checksums were recorded, so edits cannot be detected
+  unverifiable: string[];
+}
+
 export class MigrationExecutor {
   private logger: Logger;
   private fileManager: FileManager;
-  private supabase: SupabaseClient | null = null;
+  private driver: DatabaseDriver | null = null;
   private projectRoot: string;
   private migrationsTable = '_db_agent_migrations';
   private stateAnalyzer: StateAnalyzer;
@@ -44,13 +86,13 @@ export class MigrationExecutor {
     this.sqlGenerator = new IdempotentSQLGenerator(projectRoot);
   }
 
-  // Initialize Supabase connection
+  // Connect to the database through the configured driver
   async initialize(): Promise<void> {
     this.logger.info('Initializing migration executor...');
     
     try {
-      await this.validateEnvironment();
-      await this.createSupabaseClient();
+      this.driver = await getDatabaseDriver();
+      this.logger.info(`Database: ${this.driver.description}`);
       await this.ensureMigrationsTable();
       
       // Initialize state analyzer and SQL generator
@@ -65,67 +107,9 @@ export class MigrationExecutor {
     }
   }
 
-  // Validate environment variables and connection
-  private async validateEnvironment(): Promise<void> {
-    this.logger.analyzing('Validating environment configuration...');
-
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    if (!supabaseUrl || !supabaseAnonKey) {
-      throw new Error(
-        'Missing required Supabase environment variables.\n' +
-        'Required: NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY\n' +
-        'Optional (for advanced operations): SUPABASE_SERVICE_ROLE_KEY'
-      );
-    }
-
-    // Test connection
-    const testClient = createClient(supabaseUrl, supabaseAnonKey);
-    try {
-      const { error } = await testClient.from('_test_connection').select('*').limit(1);
-      // We expect this to fail, but it should fail with a specific error about table not existing
-      // If it fails with auth or network issues, we'll catch those
-      if (error && !error.message.includes('does not exist') && !error.message.includes('relation') && !error.message.includes('table')) {
-        if (error.message.includes('Invalid API key') || error.message.includes('unauthorized')) {
-          throw new Error('Invalid Supabase credentials. Please check your API keys.');
-        }
-        if (error.message.includes('network') || error.message.includes('fetch')) {
-          throw new Error('Cannot connect to Supabase. Please check your URL and network connection.');
-        }
-      }
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error('Failed to validate Supabase connection');
-    }
-
-    this.logger.success('Environment validation completed');
-  }
-
-  // Create Supabase client with appropriate permissions
-  private async createSupabaseClient(): Promise<void> {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-
-    // Use service role key if available for DDL operations, otherwise use anon key
-    const apiKey = supabaseServiceKey || supabaseAnonKey;
-    
-    if (!supabaseServiceKey) {
-      this.logger.warn('Using anon key for migrations. Some operations may be restricted.');
-      this.logger.info('For full functionality, set SUPABASE_SERVICE_ROLE_KEY environment variable.');
-    }
-
-    this.supabase = createClient(supabaseUrl, apiKey);
-    this.logger.success('Supabase client created');
-  }
-
   // Ensure migrations tracking table exists
   private async ensureMigrationsTable(): Promise<void> {
-    if (!this.supabase) throw new Error('Supabase client not initialized');
+    if (!this.driver) throw new Error('Database driver not initialized');
 
     this.logger.analyzing('Ensuring migrations table exists...');
 
@@ -138,9 +122,13 @@ export class MigrationExecutor {
         executed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
         rollback_sql TEXT,
         checksum TEXT,
+        squashed_into TEXT,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       );
 
+      -- Added after the table was first released
+      ALTER TABLE ${this.migrationsTable} ADD COLUMN IF NOT EXISTS squashed_into TEXT;
+
       -- Create index for faster lookups
       CREATE INDEX IF NOT EXISTS idx_migrations_filename ON ${this.migrationsTable}(filename);
       CREATE INDEX IF NOT EXISTS idx_migrations_executed_at ON ${this.migrationsTable}(executed_at);
@@ -150,34 +138,28 @@ export class MigrationExecutor {
     `;
 
     try {
-      const { error } = await this.supabase.rpc('exec_sql', { sql: migrationTableSql });
-      if (error) {
-        // If RPC doesn't exist, try direct SQL execution (less reliable but may work)
-        this.logger.warn('RPC exec_sql not available, attempting alternative method...');
-        
-        // Try to check if table exists first
-        const { error: checkError } = await this.supabase
-          .from(this.migrationsTable)
-          .select('id')
-          .limit(1);
-        
-        if (checkError && checkError.message.includes('does not exist')) {
+      await this.driver.execute(migrationTableSql);
+      this.logger.success('Migrations table is ready');
+    } catch (error) {
+      // With the Supabase driver this usually means the exec_sql function is not installed
+      this.logger.warn(`Could not create migrations table: ${error instanceof Error ? error.message : String(error)}`);
+
+      try {
+        if (!(await this.driver.tableExists(this.migrationsTable))) {
           this.logger.warn(
-            'Cannot automatically create migrations table. Please run this SQL in your Supabase dashboard:\n' +
+            'Cannot automatically create migrations table. Please run this SQL against your database:\n' +
             migrationTableSql
           );
         }
-      } else {
-        this.logger.success('Migrations table is ready');
+      } catch {
+        this.logger.warn('Could not verify migrations table. Proceeding with caution...');
       }
-    } catch (error) {
-      this.logger.warn('Could not verify migrations table. Proceeding with caution...');
     }
   }
 
   // Execute a single migration file
   async executeMigration(migrationPath: string): Promise<MigrationResult> {
-    if (!this.supabase) {
+    if (!this.driver) {
       throw new Error('Migration executor not initialized. Call initialize() first.');
     }
 
@@ -196,13 +178,15 @@ export class MigrationExecutor {
         return {
           success: true,
           migration: { ...migrationInfo, executed: true },
-          tablesCreated: []
+          tablesCreated: [],
+          skipped: true
         };
       }
 
       // Enhanced idempotency check using state analyzer
       const systemState = await this.stateAnalyzer.getSystemState();
-      const impactAnalysis = await this.sqlGenerator.analyzeImpact(migrationSql);
+      const { up: upSql } = parseMigrationSections(migrationSql);
+      const impactAnalysis = await this.sqlGenerator.analyzeImpact(upSql);
       
       // Check if tables that would be created already exist
       const existingTables = impactAnalysis.tablesCreated.filter(table => 
@@ -214,7 +198,7 @@ export class MigrationExecutor {
         this.logger.info('Validating SQL for idempotency...');
         
         // Validate SQL is idempotent
-        const validation = this.sqlGenerator.validateIdempotency(migrationSql);
+        const validation = this.sqlGenerator.validateIdempotency(upSql);
         if (!validation.isIdempotent) {
           this.logger.warn('SQL may not be idempotent. Issues found:');
           validation.issues.forEach(issue => this.logger.warn(`  - ${issue}`));
@@ -225,26 +209,37 @@ export class MigrationExecutor {
       }
 
       // Parse and validate SQL
-      const { statements, tablesCreated, rollbackSql } = await this.parseMigrationSql(migrationSql);
+      const { statements, tablesCreated, rollbackSql, rollbackSource } = await this.parseMigrationSql(migrationSql);
+
+      // Asked live rather than from the cached state, since rolling back must never drop these
+      const preexistingTables: string[] = [];
+      for (const table of tablesCreated) {
+        if (await this.driver.tableExists(table)) {
+          preexistingTables.push(table);
+        }
+      }
 
-      // Execute migration in transaction
-      const result = await this.executeMigrationTransaction(statements, migrationInfo, rollbackSql);
+      // Execute and record the migration in one transaction where the driver supports it
+      const result = await this.executeMigrationTransaction(statements, migrationInfo, migrationSql, rollbackSql);
 
       if (result.success) {
-        // Record successful migration
-        await this.recordMigration(migrationInfo, rollbackSql);
         this.logger.success(`Migration ${filename} executed successfully`);
         
         // Verify tables were created
         await this.verifyTablesCreated(tablesCreated);
+      } else if (this.driver.transactional) {
+        // The failed transaction was rolled back, so there is nothing left to undo
+        return { ...result, tablesCreated, rollbackInfo: { canRollback: false } };
       }
 
       return {
         ...result,
         tablesCreated,
+        preexistingTables,
         rollbackInfo: {
           canRollback: !!rollbackSql,
-          rollbackSql
+          rollbackSql,
+          rollbackSource
         }
       };
 
@@ -290,48 +285,68 @@ export class MigrationExecutor {
     return results;
   }
 
+  // Run a single SQL statement outside of any migration (used to undo partial work)
+  async executeSql(sql: string): Promise<void> {
+    if (!this.driver) {
+      throw new Error('Migration executor not initialized');
+    }
+
+    try {
+      await this.driver.execute(sql);
+    } catch (error) {
+      throw new Error(`SQL execution failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Forget that a migration ran, so it is reported as pending again
+  async deleteMigrationRecord(filename: string): Promise<void> {
+    if (!this.driver) {
+      throw new Error('Migration executor not initialized');
+    }
+
+    try {
+      await this.driver.delete(this.migrationsTable, { filename });
+    } catch (error) {
+      throw new Error(`Could not remove migration record: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   // Rollback a specific migration
   async rollbackMigration(filename: string): Promise<boolean> {
-    if (!this.supabase) {
+    if (!this.driver) {
       throw new Error('Migration executor not initialized');
     }
+    const driver = this.driver;
 
     this.logger.executing(`Rolling back migration: ${filename}`);
 
     try {
       // Get migration record
-      const { data: migration, error } = await this.supabase
-        .from(this.migrationsTable)
-        .select('*')
-        .eq('filename', filename)
-        .single();
+      const [migration] = await driver.select(this.migrationsTable, { where: { filename }, limit: 1 });
 
-      if (error || !migration) {
+      if (!migration) {
         throw new Error(`Migration ${filename} not found in records`);
       }
 
-      if (!migration.rollback_sql) {
-        throw new Error(`No rollback SQL available for migration ${filename}`);
-      }
-
-      // Execute rollback
-      const { error: rollbackError } = await this.supabase.rpc('exec_sql', { 
-        sql: migration.rollback_sql 
-      });
+      const rollbackSql = await this.resolveRollbackSql(filename, migration.rollback_sql);
 
-      if (rollbackError) {
-        throw new Error(`Rollback execution failed: ${rollbackError.message}`);
-      }
-
-      // Remove migration record
-      const { error: deleteError } = await this.supabase
-        .from(this.migrationsTable)
-        .delete()
-        .eq('filename', filename);
+      await driver.transaction(async session => {
+        // Execute rollback
+        try {
+          await session.execute(rollbackSql);
+        } catch (error) {
+          throw new Error(`Rollback execution failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
 
-      if (deleteError) {
-        this.logger.warn(`Could not remove migration record: ${deleteError.message}`);
-      }
+        // Remove migration record
+        try {
+          await session.delete(this.migrationsTable, { filename });
+        } catch (error) {
+          // In a transaction the rollback SQL is undone too, so the record stays accurate
+          if (driver.transactional) throw error;
+          this.logger.warn(`Could not remove migration record: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
 
       this.logger.success(`Migration ${filename} rolled back successfully`);
       return true;
@@ -344,7 +359,7 @@ export class MigrationExecutor {
 
   // Verify database schema matches expected state
   async verifyDatabaseSchema(expectedTables: string[]): Promise<{ valid: boolean; missing: string[]; extra: string[] }> {
-    if (!this.supabase) {
+    if (!this.driver) {
       throw new Error('Migration executor not initialized');
     }
 
@@ -352,23 +367,15 @@ export class MigrationExecutor {
 
     try {
       // Get all tables in public schema
-      const { data: tables, error } = await this.supabase
-        .from('information_schema.tables')
-        .select('table_name')
-        .eq('table_schema', 'public')
-        .neq('table_name', this.migrationsTable); // Exclude our migrations table
-
-      if (error) {
+      let existingTables: string[];
+      try {
+        existingTables = await this.driver.listTables('public');
+      } catch {
         this.logger.warn('Could not query information_schema, trying alternative method...');
         // Alternative: try to query each expected table individually
         const missing: string[] = [];
         for (const tableName of expectedTables) {
-          const { error: tableError } = await this.supabase
-            .from(tableName)
-            .select('*')
-            .limit(1);
-          
-          if (tableError && tableError.message.includes('does not exist')) {
+          if (!(await this.driver.tableExists(tableName))) {
             missing.push(tableName);
           }
         }
@@ -380,7 +387,6 @@ export class MigrationExecutor {
         };
       }
 
-      const existingTables = tables?.map(t => t.table_name) || [];
       const missing = expectedTables.filter(table => !existingTables.includes(table));
       const extra = existingTables.filter(table => 
         !expectedTables.includes(table) && 
@@ -408,7 +414,7 @@ export class MigrationExecutor {
 
   // Get migration status
   async getMigrationStatus(): Promise<{ executed: MigrationInfo[]; pending: string[] }> {
-    if (!this.supabase) {
+    if (!this.driver) {
       throw new Error('Migration executor not initialized');
     }
 
@@ -416,23 +422,24 @@ export class MigrationExecutor {
 
     try {
       // Get executed migrations
-      const { data: executedMigrations, error } = await this.supabase
-        .from(this.migrationsTable)
-        .select('*')
-        .order('executed_at', { ascending: true });
+      const executedMigrations = await this.driver.select(this.migrationsTable, {
+        orderBy: { column: 'executed_at', ascending: true }
+      });
 
-      const executed: MigrationInfo[] = (executedMigrations || []).map(m => ({
+      const executed: MigrationInfo[] = executedMigrations.map(m => ({
         filename: m.filename,
         filepath: '', // We don't store full path
         timestamp: m.filename.split('_')[0] || '',
         description: m.description || '',
         executed: true,
         executedAt: m.executed_at,
-        rollbackSql: m.rollback_sql
+        rollbackSql: m.rollback_sql,
+        checksum: m.checksum,
+        squashedInto: m.squashed_into || undefined
       }));
 
       // Find pending migrations
-      const migrationDirs = ['src/lib/migrations', 'supabase/migrations', 'migrations'];
+      const migrationDirs = getAgentConfig().migrationDirs;
       const allMigrationFiles: string[] = [];
       
       for (const dir of migrationDirs) {
@@ -457,8 +464,171 @@ export class MigrationExecutor {
     }
   }
 
+  /**
+   * Compares the migration files on disk with the tracking table. Unlike getMigrationStatus this throws
+   * when the table cannot be read, so a broken connection is never reported as a clean state.
+   */
+  async verifyMigrations(): Promise<MigrationVerification> {
+    if (!this.driver) {
+      throw new Error('Migration executor not initialized');
+    }
+
+    let records: Array<{ filename: string; checksum: string | null; squashed_into: string | null }>;
+    try {
+      records = await this.driver.select(this.migrationsTable, {
+        columns: ['filename', 'checksum', 'squashed_into'],
+        orderBy: { column: 'executed_at', ascending: true }
+      });
+    } catch (error) {
+      throw new Error(`Could not read ${this.migrationsTable}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const files = await this.findMigrationFiles();
+    const recorded = new Set<string>();
+    const verification: MigrationVerification = { verified: [], edited: [], missing: [], untracked: [], unverifiable: [] };
+
+    for (const record of records) {
+      const filename = record.filename;
+      recorded.add(filename);
+
+      const filepath = files.get(filename);
+      if (!filepath) {
+        // Squashed migrations are replaced by their baseline and normally deleted
+        if (!filename.startsWith(TEMPORARY_MIGRATION_PREFIX) && !record.squashed_into) {
+          verification.missing.push(filename);
+        }
+        continue;
+      }
+
+      if (!this.isContentChecksum(record.checksum)) {
+        verification.unverifiable.push(filename);
+        continue;
+      }
+
+      const content = await fs.readFile(filepath, 'utf8');
+      if (this.generateChecksum(content) === record.checksum) {
+        verification.verified.push(filename);
+      } else {
+        verification.edited.push({ filename, filepath: path.relative(this.projectRoot, filepath) });
+      }
+    }
+
+    verification.untracked = [...files.keys()].filter(filename => !recorded.has(filename)).sort();
+    return verification;
+  }
+
+  /**
+   * Records a squash baseline as executed without running it (the schema it describes already exists)
+   * and marks the migrations it replaces as squashed into it
+   */
+  async recordSquash(baselinePath: string, content: string, squashed: string[]): Promise<void> {
+    if (!this.driver) {
+      throw new Error('Migration executor not initialized');
+    }
+    const driver = this.driver;
+
+    const baseline = this.parseMigrationInfo(path.basename(baselinePath), baselinePath);
+    await driver.transaction(async session => {
+      try {
+        await session.insert(this.migrationsTable, {
+          filename: baseline.filename,
+          description: baseline.description,
+          checksum: this.generateChecksum(content)
+        });
+      } catch (error) {
+        throw new Error(`Could not record ${baseline.filename}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      try {
+        await session.update(this.migrationsTable, { squashed_into: baseline.filename }, { filename: squashed });
+      } catch (error) {
+        // Without a transaction the baseline record has to be removed by hand
+        if (!driver.transactional) {
+          await this.deleteMigrationRecord(baseline.filename);
+        }
+        throw new Error(`Could not mark migrations as squashed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  // Split migration SQL into the statements executeMigration would run
+  splitStatements(sql: string): string[] {
+    return this.parsePostgreSQLStatements(parseMigrationSections(sql).up);
+  }
+
+  /**
+   * How SQL is split for execution, statement by statement. Transaction control is skipped because the
+   * driver decides whether a migration runs in a transaction, and COPY ... FROM stdin data is rewritten
+   * as an INSERT.
+   */
+  splitForExecution(sql: string): PlannedStatement[] {
+    return splitSqlStatements(sql).map(statement => {
+      if (TRANSACTION_CONTROL.test(statement.sql)) {
+        return { statement, sql: statement.sql, skipReason: 'transaction command' };
+      }
+      if (statement.kind === 'copy') {
+        try {
+          return { statement, sql: copyStatementToInsert(statement.sql) };
+        } catch (error) {
+          return { statement, sql: statement.sql, error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+      return { statement, sql: statement.sql };
+    });
+  }
+
+  // Migration files by filename; the first configured directory wins when a name appears twice
+  async findMigrationFiles(): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+
+    for (const dir of getAgentConfig().migrationDirs) {
+      const fullPath = path.join(this.projectRoot, dir);
+      try {
+        const entries = await fs.readdir(fullPath);
+        for (const file of entries.filter(entry => entry.endsWith('.sql')).sort()) {
+          if (!files.has(file)) {
+            files.set(file, path.join(fullPath, file));
+          }
+        }
+      } catch {
+        // Directory doesn't exist
+      }
+    }
+
+    return files;
+  }
+
   // Private helper methods
 
+  /**
+   * The down section of the migration file as it is now wins over the rollback SQL recorded when the
+   * migration ran, which is either an older down section or a guess from the statements
+   */
+  private async resolveRollbackSql(filename: string, recordedSql: string | null): Promise<string> {
+    const filepath = (await this.findMigrationFiles()).get(filename);
+    if (filepath) {
+      const { down, hasSections } = parseMigrationSections(await fs.readFile(filepath, 'utf8'));
+      if (down) {
+        this.logger.info(`Using the ${MIGRATE_DOWN_MARKER} section of ${filename}`);
+        return down;
+      }
+      if (hasSections) {
+        throw new Error(`Migration ${filename} is irreversible (its ${MIGRATE_DOWN_MARKER} section is empty)`);
+      }
+    }
+
+    if (!recordedSql) {
+      throw new Error(`No rollback SQL available for migration ${filename}`);
+    }
+    if (filepath) {
+      this.logger.warn(`${filename} has no ${MIGRATE_DOWN_MARKER} section - falling back to the rollback SQL recorded when it ran, which may not fully undo it`);
+    } else {
+      // The recorded SQL is the down section the file had when it ran, or a guess if it had none
+      this.logger.info(`${filename} is missing - using the rollback SQL recorded when it ran`);
+    }
+    return recordedSql;
+  }
+
   private parseMigrationInfo(filename: string, filepath: string): MigrationInfo {
     const timestamp = filename.split('_')[0] || '';
     const description = filename.replace(timestamp + '_', '').replace('.sql', '').replace(/_/g, ' ');
@@ -473,16 +643,11 @@ export class MigrationExecutor {
   }
 
   private async isMigrationExecuted(filename: string): Promise<boolean> {
-    if (!this.supabase) return false;
+    if (!this.driver) return false;
 
     try {
-      const { data, error } = await this.supabase
-        .from(this.migrationsTable)
-        .select('filename')
-        .eq('filename', filename)
-        .single();
-
-      return !error && !!data;
+      const records = await this.driver.select(this.migrationsTable, { columns: ['filename'], where: { filename }, limit: 1 });
+      return records.length > 0;
     } catch {
       return false;
     }
@@ -492,11 +657,15 @@ export class MigrationExecutor {
     statements: string[];
     tablesCreated: string[];
     rollbackSql?: string;
+    rollbackSource?: RollbackSource;
   }> {
     this.logger.analyzing('Parsing SQL migration file...');
-    
+
+    // Only the up section is executed; the down section is kept as the rollback
+    const sections = parseMigrationSections(sql);
+
     // Parse SQL into statements using PostgreSQL-aware parser
-    const statements = this.parsePostgreSQLStatements(sql);
+    const statements = this.parsePostgreSQLStatements(sections.up);
     
     this.logger.info(`Parsed ${statements.length} SQL statements`);
     
@@ -520,94 +689,42 @@ export class MigrationExecutor {
     
     this.logger.info(`Tables to be created: ${tablesCreated.join(', ') || 'none'}`);
 
-    // Generate comprehensive rollback SQL
+    if (sections.down) {
+      return { statements, tablesCreated, rollbackSql: sections.down, rollbackSource: 'explicit' };
+    }
+    if (sections.hasSections) {
+      this.logger.warn(`Empty ${MIGRATE_DOWN_MARKER} section - this migration cannot be rolled back`);
+      return { statements, tablesCreated };
+    }
+
+    // Fall back to guessing rollback SQL from the statements
     const rollbackSql = this.generateRollbackSQL(statements, tablesCreated);
+    if (rollbackSql) {
+      this.logger.warn(`No ${MIGRATE_DOWN_MARKER} section - using generated rollback SQL, which cannot undo ALTERs, data changes or policy edits`);
+    }
 
     return {
       statements,
       tablesCreated,
-      rollbackSql
+      rollbackSql,
+      rollbackSource: rollbackSql ? 'generated' : undefined
     };
   }
 
   private parsePostgreSQLStatements(sql: string): string[] {
     const statements: string[] = [];
-    let currentStatement = '';
-    let inFunctionBody = false;
-    let inStringLiteral = false;
-    let inComment = false;
-    let functionDelimiter = '';
-    let i = 0;
-
-    const lines = sql.split('\n');
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      // Skip empty lines
-      if (trimmedLine === '') continue;
-      
-      // Skip single-line comments
-      if (trimmedLine.startsWith('--')) continue;
-      
-      // Check for function delimiter patterns ($$, $tag$, etc.)
-      const delimiterMatch = trimmedLine.match(/\$([^$]*)\$/);
-      if (delimiterMatch) {
-        const delimiter = delimiterMatch[0];
-        if (!inFunctionBody && trimmedLine.includes(delimiter)) {
-          inFunctionBody = true;
-          functionDelimiter = delimiter;
-        } else if (inFunctionBody && functionDelimiter === delimiter) {
-          inFunctionBody = false;
-          functionDelimiter = '';
-        }
-      }
-      
-      // Add line to current statement
-      if (currentStatement) {
-        currentStatement += '\n' + line;
-      } else {
-        currentStatement = line;
-      }
-      
-      // Check for statement termination
-      if (!inFunctionBody && !inStringLiteral && trimmedLine.endsWith(';')) {
-        // Clean up the statement
-        const cleanStatement = currentStatement.trim();
-        if (cleanStatement && !cleanStatement.startsWith('--')) {
-          // Filter out transaction control statements
-          const statementUpper = cleanStatement.toUpperCase();
-          const isTransactionCommand = statementUpper.startsWith('BEGIN') || 
-                                     statementUpper.startsWith('COMMIT') || 
-                                     statementUpper.startsWith('ROLLBACK') ||
-                                     statementUpper.startsWith('START TRANSACTION');
-          
-          if (!isTransactionCommand) {
-            statements.push(cleanStatement);
-          } else {
-            this.logger.info(`Skipping transaction command: ${cleanStatement.substring(0, 50)}...`);
-          }
-        }
-        currentStatement = '';
+
+    for (const planned of this.splitForExecution(sql)) {
+      if (planned.error) {
+        throw new Error(`Statement at line ${planned.statement.startLine}: ${planned.error}`);
       }
-    }
-    
-    // Add any remaining statement (with transaction filtering)
-    if (currentStatement.trim() && !currentStatement.trim().startsWith('--')) {
-      const cleanStatement = currentStatement.trim();
-      const statementUpper = cleanStatement.toUpperCase();
-      const isTransactionCommand = statementUpper.startsWith('BEGIN') || 
-                                 statementUpper.startsWith('COMMIT') || 
-                                 statementUpper.startsWith('ROLLBACK') ||
-                                 statementUpper.startsWith('START TRANSACTION');
-      
-      if (!isTransactionCommand) {
-        statements.push(cleanStatement);
-      } else {
-        this.logger.info(`Skipping transaction command: ${cleanStatement.substring(0, 50)}...`);
+      if (planned.skipReason) {
+        this.logger.info(`Skipping ${planned.skipReason}: ${planned.sql.substring(0, 50)}...`);
+        continue;
       }
+      statements.push(planned.sql);
     }
-    
+
     return statements;
   }
 
@@ -671,32 +788,46 @@ export class MigrationExecutor {
   private async executeMigrationTransaction(
     statements: string[],
     migrationInfo: MigrationInfo,
+    migrationSql: string,
     rollbackSql?: string
   ): Promise<MigrationResult> {
-    if (!this.supabase) {
-      throw new Error('Supabase client not initialized');
+    if (!this.driver) {
+      throw new Error('Database driver not initialized');
     }
+    const driver = this.driver;
 
-    this.logger.info(`Executing ${statements.length} SQL statements...`);
+    this.logger.info(`Executing ${statements.length} SQL statements${driver.transactional ? ' in a transaction' : ''}...`);
 
     try {
-      // Execute each statement with detailed logging
-      for (let i = 0; i < statements.length; i++) {
-        const statement = statements[i].trim();
-        if (statement) {
-          this.logger.info(`Executing statement ${i + 1}/${statements.length}:`);
-          this.logger.info(`${statement.substring(0, 100)}${statement.length > 100 ? '...' : ''}`);
-          
-          const { error } = await this.supabase.rpc('exec_sql', { sql: statement });
-          if (error) {
-            this.logger.error(`Statement ${i + 1} failed: ${error.message}`);
-            this.logger.error(`Full statement: ${statement}`);
-            throw new Error(`SQL execution failed: ${error.message}\nStatement: ${statement}`);
+      await driver.transaction(async session => {
+        // Execute each statement with detailed logging
+        for (let i = 0; i < statements.length; i++) {
+          const statement = statements[i].trim();
+          if (statement) {
+            this.logger.info(`Executing statement ${i + 1}/${statements.length}:`);
+            this.logger.info(`${statement.substring(0, 100)}${statement.length > 100 ? '...' : ''}`);
+            
+            try {
+              await session.execute(statement);
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              this.logger.error(`Statement ${i + 1} failed: ${message}`);
+              this.logger.error(`Full statement: ${statement}`);
+              throw new Error(`SQL execution failed: ${message}\nStatement: ${statement}`);
+            }
+            
+            this.logger.success(`Statement ${i + 1} executed successfully`);
           }
-          
-          this.logger.success(`Statement ${i + 1} executed successfully`);
         }
-      }
+
+        try {
+          await this.recordMigration(session, migrationInfo, migrationSql, rollbackSql);
+        } catch (error) {
+          // An unrecorded migration would run again, so inside a transaction it is not applied at all
+          if (driver.transactional) throw error;
+          this.logger.warn(error instanceof Error ? error.message : String(error));
+        }
+      });
 
       return {
         success: true,
@@ -705,6 +836,9 @@ export class MigrationExecutor {
 
     } catch (error) {
       this.logger.error(`Migration transaction failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (driver.transactional) {
+        this.logger.info('The transaction was rolled back; no changes from this migration were applied');
+      }
       return {
         success: false,
         migration: migrationInfo,
@@ -713,40 +847,32 @@ export class MigrationExecutor {
     }
   }
 
-  private async recordMigration(migrationInfo: MigrationInfo, rollbackSql?: string): Promise<void> {
-    if (!this.supabase) return;
-
+  private async recordMigration(
+    session: DatabaseSession,
+    migrationInfo: MigrationInfo,
+    migrationSql: string,
+    rollbackSql?: string
+  ): Promise<void> {
     try {
-      const { error } = await this.supabase
-        .from(this.migrationsTable)
-        .insert({
-          filename: migrationInfo.filename,
-          description: migrationInfo.description,
-          rollback_sql: rollbackSql,
-          checksum: this.generateChecksum(migrationInfo.filename)
-        });
-
-      if (error) {
-        this.logger.warn(`Could not record migration: ${error.message}`);
-      }
+      await session.insert(this.migrationsTable, {
+        filename: migrationInfo.filename,
+        description: migrationInfo.description,
+        rollback_sql: rollbackSql,
+        checksum: this.generateChecksum(migrationSql)
+      });
     } catch (error) {
-      this.logger.warn(`Could not record migration: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Could not record migration: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   private async verifyTablesCreated(tableNames: string[]): Promise<void> {
-    if (!this.supabase || tableNames.length === 0) return;
+    if (!this.driver || tableNames.length === 0) return;
 
     this.logger.analyzing('Verifying created tables...');
 
     for (const tableName of tableNames) {
       try {
-        const { error } = await this.supabase
-          .from(tableName)
-          .select('*')
-          .limit(1);
-
-        if (error && error.message.includes('does not exist')) {
+        if (!(await this.driver.tableExists(tableName))) {
           this.logger.error(`Table ${tableName} was not created successfully`);
         } else {
           this.logger.success(`Table ${tableName} verified`);
@@ -757,8 +883,13 @@ export class MigrationExecutor {
     }
   }
 
-  private generateChecksum(filename: string): string {
-    // Simple checksum for migration tracking
-    return Buffer.from(filename).toString('base64').substring(0, 8);
+  // SHA-256 of the migration content; line endings are normalized so a CRLF checkout is not reported as an edit
+  private generateChecksum(content: string): string {
+    return FileManager.hashContent(content.replace(/\r\n/g, '\n'));
+  }
+
+  // Migrations recorded before content checksums stored an 8 character hash of the filename
+  private isContentChecksum(checksum: unknown): checksum is string {
+    return typeof checksum === 'string' && /^[0-9a-f]{64}$/.test(checksum);
   }
 } 
\ No newline at end of file
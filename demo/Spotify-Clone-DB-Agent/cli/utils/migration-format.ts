@@ -0,0 +1,89 @@
+export const MIGRATE_UP_MARKER = '-- migrate:up';
+export const MIGRATE_DOWN_MARKER = '-- migrate:down';
+
+export interface MigrationSections {
+  up: string;
+  // Null when the file has no down section or it contains no SQL
+  down: string | null;
+  // Whether the file uses the -- migrate:up / -- migrate:down format at all
+  hasSections: boolean;
+  // 1-based lines in the file where the up and down SQL start
+  upLine: number;
+  downLine: number;
+}
+
+const MARKER_LINE = /^\s*--\s*migrate:(up|down)\s*$/i;
+
+/**
+ * Splits a migration file into its up and down SQL. Files without markers are treated as up-only,
+ * so migrations written before the format existed keep working.
+ */
+export function parseMigrationSections(sql: string): MigrationSections {
+  const lines = sql.split(/\r?\n/);
+  const markers = lines
+    .map((line, index) => ({ index, match: line.match(MARKER_LINE) }))
+    .filter(marker => marker.match)
+    .map(marker => ({ index: marker.index, section: (marker.match as RegExpMatchArray)[1].toLowerCase() }));
+
+  if (markers.length === 0) {
+    return { up: sql, down: null, hasSections: false, upLine: 1, downLine: lines.length + 1 };
+  }
+
+  const upMarkers = markers.filter(marker => marker.section === 'up');
+  const downMarkers = markers.filter(marker => marker.section === 'down');
+  if (upMarkers.length !== 1) {
+    throw new Error(`Migration must have exactly one "${MIGRATE_UP_MARKER}" line (found ${upMarkers.length})`);
+  }
+  if (downMarkers.length > 1) {
+    throw new Error(`Migration has ${downMarkers.length} "${MIGRATE_DOWN_MARKER}" lines`);
+  }
+
+  const upIndex = upMarkers[0].index;
+  const downIndex = downMarkers.length > 0 ? downMarkers[0].index : lines.length;
+  if (downIndex < upIndex) {
+    throw new Error(`"${MIGRATE_DOWN_MARKER}" must come after "${MIGRATE_UP_MARKER}"`);
+  }
+
+  // Only comments may precede the up section, otherwise that SQL would silently never run
+  if (hasSql(lines.slice(0, upIndex).join('\n'))) {
+    throw new Error(`Migration has SQL before "${MIGRATE_UP_MARKER}"`);
+  }
+
+  const up = lines.slice(upIndex + 1, downIndex).join('\n').trim();
+  const down = lines.slice(downIndex + 1).join('\n').trim();
+
+  // Sections are trimmed, so they start at their first non-blank line
+  const firstLine = (from: number, to: number) => {
+    let index = from;
+    while (index < to && lines[index].trim() === '') index++;
+    return index + 1;
+  };
+
+  return {
+    up,
+    down: hasSql(down) ? down : null,
+    hasSections: true,
+    upLine: firstLine(upIndex + 1, downIndex),
+    downLine: firstLine(downIndex + 1, lines.length)
+  };
+}
+
+// Builds a migration file from a header comment and its up and down SQL
+export function formatMigrationSections(header: string, up: string, down: string): string {
+  return [
+    ...(header.trim() ? [header.trim(), ''] : []),
+    MIGRATE_UP_MARKER,
+    up.trim(),
+    '',
+    MIGRATE_DOWN_MARKER,
+    down.trim(),
+    ''
+  ].join('\n');
+}
+
+function hasSql(text: string): boolean {
+  return text
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .split('\n')
+    .some(line => line.trim() !== '' && !line.trim().startsWith('--'));
+}
@@ -0,0 +1,291 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Logger } from './logger';
+import { FileManager } from './file-manager';
+import { MigrationExecutor, MigrationInfo, TEMPORARY_MIGRATION_PREFIX } from './migration-executor';
+
+type StatementKind =
+  | 'create_table' | 'drop_table'
+  | 'create_index' | 'drop_index'
+  | 'create_policy' | 'drop_policy'
+  | 'create_trigger' | 'drop_trigger'
+  | 'function' | 'data' | 'other';
+
+interface ClassifiedStatement {
+  kind: StatementKind;
+  sql: string;
+  // Table the statement changes, if any
+  table?: string;
+  // Index, policy, trigger or function name
+  name?: string;
+}
+
+interface ParsedMigration {
+  info: MigrationInfo;
+  filepath: string;
+  statements: ClassifiedStatement[];
+  tables: Set<string>;
+}
+
+export interface SquashPlan {
+  tables: string[];
+  migrations: Array<{ filename: string; filepath: string }>;
+  skipped: Array<{ filename: string; reason: string }>;
+  // Executed migrations whose file is gone, so their changes could not be considered
+  unreadable: string[];
+  // INSERT/UPDATE/DELETE statements left out of the baseline
+  omittedDataStatements: number;
+  baselinePath: string;
+  baselineSql: string;
+}
+
+const NAME = String.raw`(?:"?public"?\.)?"?(\w+)"?`;
+const QUOTED_NAME = String.raw`("[^"]+"|\w+)`;
+
+const PATTERNS: Array<{ kind: StatementKind; pattern: RegExp; table: number; name?: number }> = [
+  { kind: 'function', pattern: new RegExp(String.raw`^CREATE\s+(?:OR\s+REPLACE\s+)?FUNCTION\s+${NAME}`, 'i'), table: 0, name: 1 },
+  { kind: 'data', pattern: new RegExp(String.raw`^(?:INSERT\s+INTO|UPDATE|DELETE\s+FROM|TRUNCATE(?:\s+TABLE)?|COPY)\s+${NAME}`, 'i'), table: 1 },
+  { kind: 'drop_table', pattern: new RegExp(String.raw`^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?${NAME}`, 'i'), table: 1 },
+  { kind: 'drop_index', pattern: new RegExp(String.raw`^DROP\s+INDEX\s+(?:CONCURRENTLY\s+)?(?:IF\s+EXISTS\s+)?${NAME}`, 'i'), table: 0, name: 1 },
+  { kind: 'drop_policy', pattern: new RegExp(String.raw`^DROP\s+POLICY\s+(?:IF\s+EXISTS\s+)?${QUOTED_NAME}\s+ON\s+${NAME}`, 'i'), table: 2, name: 1 },
+  { kind: 'drop_trigger', pattern: new RegExp(String.raw`^DROP\s+TRIGGER\s+(?:IF\s+EXISTS\s+)?${QUOTED_NAME}\s+ON\s+${NAME}`, 'i'), table: 2, name: 1 },
+  { kind: 'create_table', pattern: new RegExp(String.raw`\bCREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?${NAME}`, 'i'), table: 1 },
+  { kind: 'create_index', pattern: new RegExp(String.raw`\bCREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:CONCURRENTLY\s+)?(?:IF\s+NOT\s+EXISTS\s+)?(\w+)\s+ON\s+(?:ONLY\s+)?${NAME}`, 'i'), table: 2, name: 1 },
+  { kind: 'create_policy', pattern: new RegExp(String.raw`\bCREATE\s+POLICY\s+${QUOTED_NAME}\s+ON\s+${NAME}`, 'i'), table: 2, name: 1 },
+  { kind: 'create_trigger', pattern: new RegExp(String.raw`\bCREATE\s+(?:OR\s+REPLACE\s+)?TRIGGER\s+${QUOTED_NAME}[\s\S]*?\bON\s+${NAME}`, 'i'), table: 2, name: 1 },
+  { kind: 'other', pattern: new RegExp(String.raw`\bALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?${NAME}`, 'i'), table: 1 },
+  { kind: 'other', pattern: new RegExp(String.raw`\bCOMMENT\s+ON\s+(?:TABLE|COLUMN)\s+${NAME}`, 'i'), table: 1 },
+  { kind: 'other', pattern: new RegExp(String.raw`\bGRANT\b[\s\S]*?\bON\s+(?:TABLE\s+)?${NAME}`, 'i'), table: 1 }
+];
+
+/**
+ * Consolidates the executed migrations of a set of tables into one baseline migration describing
+ * their effective schema. Superseded files are deleted and marked as squashed in the migrations table.
+ */
+export class MigrationSquasher {
+  private logger: Logger;
+  private projectRoot: string;
+  private fileManager: FileManager;
+  private executor: MigrationExecutor;
+
+  constructor(executor: MigrationExecutor, projectRoot: string = process.cwd()) {
+    this.logger = new Logger();
+    this.projectRoot = projectRoot;
+    this.fileManager = new FileManager(projectRoot);
+    this.executor = executor;
+  }
+
+  /**
+   * Builds the baseline for the given tables. Without tables, every table created by more than one
+   * executed migration is squashed (the duplicates left behind by repeated agent runs).
+   */
+  async plan(tables: string[] = []): Promise<SquashPlan> {
+    const status = await this.executor.getMigrationStatus();
+    const files = await this.executor.findMigrationFiles();
+
+    const unreadable: string[] = [];
+    const migrations: ParsedMigration[] = [];
+    for (const info of status.executed) {
+      if (info.squashedInto || info.filename.startsWith(TEMPORARY_MIGRATION_PREFIX)) continue;
+
+      const filepath = files.get(info.filename);
+      if (!filepath) {
+        unreadable.push(info.filename);
+        continue;
+      }
+      migrations.push(await this.parseMigration(info, filepath));
+    }
+
+    const tableSet = new Set((tables.length > 0 ? tables : this.findDuplicatedTables(migrations)).map(table => table.toLowerCase()));
+    if (tableSet.size === 0) {
+      throw new Error('No table is created by more than one executed migration - pass the tables to squash');
+    }
+
+    const squashed: ParsedMigration[] = [];
+    const skipped: SquashPlan['skipped'] = [];
+    for (const migration of migrations) {
+      const touched = [...migration.tables];
+      if (!touched.some(table => tableSet.has(table))) continue;
+
+      const others = touched.filter(table => !tableSet.has(table));
+      if (others.length > 0) {
+        skipped.push({ filename: migration.info.filename, reason: `also changes ${others.join(', ')}` });
+      } else {
+        squashed.push(migration);
+      }
+    }
+
+    if (squashed.length < 2) {
+      throw new Error(`Nothing to squash: ${squashed.length} executed migration(s) only change ${[...tableSet].join(', ')}`);
+    }
+
+    const { sql, omittedDataStatements } = this.buildBaseline([...tableSet], squashed);
+
+    // The baseline takes the place of the earliest migration it replaces, so later migrations that
+    // depend on these tables still run after it on a fresh database
+    const first = squashed[0];
+    const baselineName = `${first.info.timestamp}_squash_baseline_${[...tableSet].join('_')}.sql`;
+    const baselinePath = path.relative(this.projectRoot, path.join(path.dirname(first.filepath), baselineName));
+
+    return {
+      tables: [...tableSet],
+      migrations: squashed.map(migration => ({
+        filename: migration.info.filename,
+        filepath: path.relative(this.projectRoot, migration.filepath)
+      })),
+      skipped,
+      unreadable,
+      omittedDataStatements,
+      baselinePath,
+      baselineSql: sql
+    };
+  }
+
+  displayPlan(plan: SquashPlan): void {
+    this.logger.subsection(`Squash ${plan.tables.join(', ')}`);
+
+    this.logger.info(`${plan.migrations.length} executed migration(s) will be replaced:`);
+    plan.migrations.forEach(migration => this.logger.listItem(migration.filename));
+
+    for (const skipped of plan.skipped) {
+      this.logger.warn(`Keeping ${skipped.filename}: ${skipped.reason}`);
+    }
+    if (plan.unreadable.length > 0) {
+      this.logger.warn(`${plan.unreadable.length} executed migration(s) are missing on disk and were not considered`);
+    }
+    if (plan.omittedDataStatements > 0) {
+      this.logger.warn(`${plan.omittedDataStatements} data statement(s) are not carried over; rows already in the database are unaffected`);
+    }
+
+    this.logger.info(`Baseline: ${plan.baselinePath}`);
+    console.log(`\n${plan.baselineSql}`);
+  }
+
+  // Writes the baseline, records it as executed and removes the migrations it replaces
+  async apply(plan: SquashPlan): Promise<void> {
+    const baselineFullPath = path.resolve(this.projectRoot, plan.baselinePath);
+    await this.fileManager.createFile(plan.baselinePath, plan.baselineSql);
+
+    try {
+      await this.executor.recordSquash(baselineFullPath, plan.baselineSql, plan.migrations.map(migration => migration.filename));
+    } catch (error) {
+      await fs.unlink(baselineFullPath);
+      throw error;
+    }
+
+    for (const migration of plan.migrations) {
+      await this.fileManager.deleteFile(migration.filepath);
+    }
+  }
+
+  private async parseMigration(info: MigrationInfo, filepath: string): Promise<ParsedMigration> {
+    const sql = await fs.readFile(filepath, 'utf8');
+    const statements = this.executor.splitStatements(sql).map(statement => this.classify(statement));
+    const tables = new Set(statements.filter(statement => statement.table).map(statement => statement.table as string));
+    return { info, filepath, statements, tables };
+  }
+
+  private classify(statement: string): ClassifiedStatement {
+    const sql = statement.trim().replace(/;?\s*$/, ';');
+    // Leading comments are kept in the statement but must not hide its keyword
+    const body = sql.replace(/^(?:\s*--[^\n]*\n)+/, '').trim();
+
+    for (const { kind, pattern, table, name } of PATTERNS) {
+      const match = body.match(pattern);
+      if (match) {
+        return {
+          kind,
+          sql,
+          table: table ? match[table].toLowerCase() : undefined,
+          name: name ? match[name].replace(/"/g, '') : undefined
+        };
+      }
+    }
+    return { kind: 'other', sql };
+  }
+
+  private findDuplicatedTables(migrations: ParsedMigration[]): string[] {
+    const creations = new Map<string, number>();
+    for (const migration of migrations) {
+      for (const statement of migration.statements) {
+        if (statement.kind === 'create_table' && statement.table) {
+          creations.set(statement.table, (creations.get(statement.table) || 0) + 1);
+        }
+      }
+    }
+    return [...creations.entries()].filter(([, count]) => count > 1).map(([table]) => table).sort();
+  }
+
+  /**
+   * Replays the migrations' statements in execution order and keeps the ones that still have an
+   * effect: the first CREATE of each table, index, policy and trigger (later IF NOT EXISTS variants
+   * were no-ops), the last version of each function, and each distinct remaining statement once.
+   * DROP statements remove what they drop.
+   */
+  private buildBaseline(tables: string[], migrations: ParsedMigration[]): { sql: string; omittedDataStatements: number } {
+    const shared = new Map<string, string>();
+    const perTable = new Map<string, Map<string, string>>(tables.map(table => [table, new Map()]));
+    let omittedDataStatements = 0;
+
+    for (const migration of migrations) {
+      for (const statement of migration.statements) {
+        const entries = statement.table ? perTable.get(statement.table) : undefined;
+
+        switch (statement.kind) {
+          case 'data':
+            omittedDataStatements++;
+            break;
+          case 'function':
+            shared.set(`function:${statement.name}`, statement.sql);
+            break;
+          case 'drop_table':
+            entries?.clear();
+            break;
+          case 'drop_index':
+            perTable.forEach(tableEntries => tableEntries.delete(`index:${statement.name}`));
+            break;
+          case 'drop_policy':
+          case 'drop_trigger':
+            entries?.delete(`${statement.kind.replace('drop_', '')}:${statement.name}`);
+            break;
+          case 'create_table':
+          case 'create_index':
+          case 'create_policy':
+          case 'create_trigger': {
+            const key = statement.kind === 'create_table' ? 'table' : `${statement.kind.replace('create_', '')}:${statement.name}`;
+            if (entries && !entries.has(key)) entries.set(key, statement.sql);
+            break;
+          }
+          default: {
+            const key = `other:${statement.sql.replace(/\s+/g, ' ')}`;
+            const target = entries || shared;
+            if (!target.has(key)) target.set(key, statement.sql);
+          }
+        }
+      }
+    }
+
+    const missing = tables.filter(table => !perTable.get(table)?.has('table'));
+    if (missing.length > 0) {
+      throw new Error(`No CREATE TABLE for ${missing.join(', ')} in the executed migrations on disk`);
+    }
+
+    const blocks = [
+      [
+        `-- Squashed baseline for ${tables.join(', ')}`,
+        `-- Generated by 'db-agent migrations squash' on ${new Date().toISOString()}`,
+        `-- Replaces ${migrations.length} migrations:`,
+        ...migrations.map(migration => `--   ${migration.info.filename}`)
+      ].join('\n'),
+      ...shared.values()
+    ];
+    for (const table of tables) {
+      // The CREATE TABLE goes first; everything else keeps its original order
+      const entries = perTable.get(table) as Map<string, string>;
+      blocks.push(`-- Table: ${table}\n${entries.get('table')}`);
+      blocks.push(...[...entries].filter(([key]) => key !== 'table').map(([, sql]) => sql));
+    }
+
+    return { sql: blocks.join('\n\n') + '\n', omittedDataStatements };
+  }
+}
@@ -0,0 +1,186 @@
+import chalk from 'chalk';
+import { Logger } from './logger';
+import { OperationHistory, ProjectAnalyzer } from '../agents/project-analyzer';
+
+export interface HistoryFilter {
+  // Matches the recorded history type or the original operation type (e.g. create_hooks)
+  type?: string;
+  success?: boolean;
+  since?: Date;
+  // Exclusive, so --on can end at the next day's midnight
+  until?: Date;
+  table?: string;
+}
+
+export interface HistoryRun {
+  runId: string;
+  query: string | null;
+  startedAt: Date;
+  operations: OperationHistory[];
+}
+
+/**
+ * Read-only view over .db-agent-history.json for the `history` commands
+ */
+export class OperationHistoryBrowser {
+  private logger: Logger;
+  private entries: OperationHistory[];
+
+  constructor(entries: OperationHistory[]) {
+    this.logger = new Logger();
+    this.entries = entries;
+  }
+
+  static async load(projectRoot: string = process.cwd()): Promise<OperationHistoryBrowser> {
+    const analyzer = new ProjectAnalyzer(projectRoot);
+    return new OperationHistoryBrowser(await analyzer.loadOperationHistory());
+  }
+
+  filter(filter: HistoryFilter = {}): OperationHistory[] {
+    return this.entries.filter(entry => {
+      const executedAt = new Date(entry.executedAt);
+      if (filter.type && entry.type !== filter.type && entry.metadata?.operationType !== filter.type) return false;
+      if (filter.success !== undefined && entry.success !== filter.success) return false;
+      if (filter.since && executedAt < filter.since) return false;
+      if (filter.until && executedAt >= filter.until) return false;
+      if (filter.table && !this.touchesTable(entry, filter.table)) return false;
+      return true;
+    });
+  }
+
+  // Look up an operation by its full id or an unambiguous prefix
+  find(operationId: string): OperationHistory {
+    const exact = this.entries.find(entry => entry.operationId === operationId);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = this.entries.filter(entry => entry.operationId.startsWith(operationId));
+    if (matches.length === 0) {
+      throw new Error(`No operation found with id "${operationId}"`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Operation id "${operationId}" is ambiguous (${matches.length} matches)`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Groups operations by the run (and query) that produced them. Entries written before runs were
+   * recorded are grouped by their operation index: a new run starts whenever the index stops increasing.
+   */
+  groupByRun(entries: OperationHistory[]): HistoryRun[] {
+    const runs: HistoryRun[] = [];
+    let previousIndex = -1;
+
+    for (const entry of entries) {
+      const current = runs[runs.length - 1];
+      const index = Number(entry.operationId.split('-')[1]);
+
+      const startsRun = entry.runId
+        ? !current || current.runId !== entry.runId
+        : !current || !current.runId.startsWith('legacy-') || !(index > previousIndex);
+
+      if (startsRun) {
+        runs.push({
+          runId: entry.runId || `legacy-${entry.operationId.split('-')[0]}`,
+          query: entry.query || null,
+          startedAt: new Date(entry.executedAt),
+          operations: [entry]
+        });
+      } else {
+        current.operations.push(entry);
+      }
+      previousIndex = Number.isNaN(index) ? -1 : index;
+    }
+
+    return runs;
+  }
+
+  displayOperations(entries: OperationHistory[]): void {
+    if (entries.length === 0) {
+      console.log(chalk.gray('  No operations match'));
+      return;
+    }
+
+    entries.forEach(entry => console.log(this.formatOperationLine(entry)));
+    console.log(chalk.gray(`\n${entries.length} operation(s)`));
+  }
+
+  displayRuns(runs: HistoryRun[]): void {
+    if (runs.length === 0) {
+      console.log(chalk.gray('  No runs match'));
+      return;
+    }
+
+    for (const run of runs) {
+      const failed = run.operations.filter(entry => !entry.success).length;
+      const status = failed === 0 ? chalk.green('ok') : chalk.red(`${failed} failed`);
+      console.log(`\n${chalk.cyan(run.runId)}  ${this.formatDate(run.startedAt)}  ${status}`);
+      console.log(`  ${run.query ? chalk.white(`"${run.query}"`) : chalk.gray('(query not recorded)')}`);
+      run.operations.forEach(entry => console.log(`  ${this.formatOperationLine(entry)}`));
+    }
+    console.log(chalk.gray(`\n${runs.length} run(s)`));
+  }
+
+  displayOperation(entry: OperationHistory): void {
+    this.logger.subsection(`Operation ${entry.operationId}`);
+    console.log(`  Type:        ${this.formatType(entry)}`);
+    console.log(`  Description: ${entry.description}`);
+    console.log(`  Status:      ${entry.success ? chalk.green('succeeded') : chalk.red('failed')}`);
+    console.log(`  Executed:    ${this.formatDate(new Date(entry.executedAt))}`);
+    console.log(`  Rollback:    ${entry.rollbackAvailable ? 'available' : 'not available'}`);
+    if (entry.undoneAt) {
+      console.log(`  Undone:      ${this.formatDate(new Date(entry.undoneAt))}`);
+    }
+    if (entry.runId) {
+      console.log(`  Run:         ${entry.runId}`);
+    }
+    if (entry.query) {
+      console.log(`  Query:       "${entry.query}"`);
+    }
+    if (entry.usage) {
+      console.log(`  AI usage:    ${entry.usage.calls} calls, ${entry.usage.totalTokens} tokens, ~$${entry.usage.costUsd.toFixed(4)}`);
+    }
+
+    console.log('\n  Target files:');
+    if (entry.targetFiles.length === 0) {
+      console.log(chalk.gray('    (none)'));
+    }
+    entry.targetFiles.forEach(file => console.log(`    - ${file}`));
+
+    if (entry.fileChanges && entry.fileChanges.length > 0) {
+      console.log('\n  File changes:');
+      entry.fileChanges.forEach(change => console.log(`    ${change.type.padEnd(6)} ${change.path}`));
+    }
+
+    if (entry.metadata && Object.keys(entry.metadata).length > 0) {
+      console.log('\n  Metadata:');
+      console.log(JSON.stringify(entry.metadata, null, 2).split('\n').map(line => `    ${line}`).join('\n'));
+    }
+  }
+
+  private touchesTable(entry: OperationHistory, table: string): boolean {
+    const needle = table.toLowerCase();
+    const tableName = entry.metadata?.tableName || entry.metadata?.tableSchema?.name;
+    if (typeof tableName === 'string' && tableName.toLowerCase() === needle) {
+      return true;
+    }
+    return entry.description.toLowerCase().includes(needle) ||
+      entry.targetFiles.some(file => file.toLowerCase().includes(needle));
+  }
+
+  private formatOperationLine(entry: OperationHistory): string {
+    const status = entry.undoneAt ? chalk.yellow('↺') : entry.success ? chalk.green('✓') : chalk.red('✗');
+    return `${status} ${chalk.gray(entry.operationId)}  ${this.formatDate(new Date(entry.executedAt))}  [${this.formatType(entry)}] ${entry.description}`;
+  }
+
+  private formatType(entry: OperationHistory): string {
+    const operationType = entry.metadata?.operationType;
+    return operationType && operationType !== entry.type ? `${operationType} (${entry.type})` : entry.type;
+  }
+
+  private formatDate(date: Date): string {
+    return `${date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '')} UTC`;
+  }
+}
@@ -0,0 +1,209 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { Logger } from './logger';
+import { availableOperationTypes, DatabaseOperation, QueryPlan, validateOperation } from '../agents/database-agent';
+
+type ReviewAction = 'execute' | 'select' | 'edit' | 'move' | 'feedback' | 'cancel';
+
+/**
+ * Interactive review of a QueryPlan: operations can be skipped, reordered and edited,
+ * or the whole plan regenerated with feedback before anything is executed
+ */
+export class PlanReviewer {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Returns the approved plan, or null if the user cancelled
+   */
+  async review(plan: QueryPlan, regenerate: (plan: QueryPlan, feedback: string) => Promise<QueryPlan>): Promise<QueryPlan | null> {
+    let currentPlan = plan;
+    let operations = this.cloneOperations(plan.operations);
+    let included = operations.map(() => true);
+
+    while (true) {
+      this.displayPlan(currentPlan, operations, included);
+
+      const { action } = await inquirer.prompt<{ action: ReviewAction }>([
+        {
+          type: 'list',
+          name: 'action',
+          message: 'What would you like to do with this plan?',
+          // Operation actions need operations to pick from, and moving needs somewhere to move to
+          choices: [
+            { name: 'Execute the plan', value: 'execute' },
+            ...(operations.length > 0 ? [
+              { name: 'Choose which operations to run', value: 'select' },
+              { name: 'Edit an operation', value: 'edit' }
+            ] : []),
+            ...(operations.length > 1 ? [{ name: 'Move an operation', value: 'move' }] : []),
+            { name: 'Regenerate the plan with feedback', value: 'feedback' },
+            { name: 'Cancel', value: 'cancel' }
+          ]
+        }
+      ]);
+
+      switch (action) {
+        case 'execute':
+          return {
+            ...currentPlan,
+            operations: operations.filter((_, index) => included[index])
+          };
+
+        case 'select':
+          included = await this.selectOperations(operations, included);
+          break;
+
+        case 'edit': {
+          const index = await this.pickOperation(operations, 'Which operation do you want to edit?');
+          operations[index] = await this.editOperation(operations[index]);
+          break;
+        }
+
+        case 'move': {
+          const from = await this.pickOperation(operations, 'Which operation do you want to move?');
+          const { to } = await inquirer.prompt<{ to: number }>([
+            {
+              type: 'number',
+              name: 'to',
+              message: `New position (1-${operations.length}):`,
+              default: from + 1,
+              validate: (input: number) =>
+                Number.isInteger(input) && input >= 1 && input <= operations.length
+                  ? true
+                  : `Please enter a number between 1 and ${operations.length}`
+            }
+          ]);
+          const [operation] = operations.splice(from, 1);
+          const [includeFlag] = included.splice(from, 1);
+          operations.splice(to - 1, 0, operation);
+          included.splice(to - 1, 0, includeFlag);
+          break;
+        }
+
+        case 'feedback': {
+          const { feedback } = await inquirer.prompt<{ feedback: string }>([
+            {
+              type: 'input',
+              name: 'feedback',
+              message: 'What should be changed in the plan?',
+              validate: (input: string) => (input.trim() ? true : 'Please enter some feedback')
+            }
+          ]);
+          try {
+            currentPlan = await regenerate({ ...currentPlan, operations }, feedback);
+            operations = this.cloneOperations(currentPlan.operations);
+            included = operations.map(() => true);
+            this.logger.success('Plan regenerated');
+          } catch (error) {
+            this.logger.error(`Failed to regenerate plan: ${error instanceof Error ? error.message : String(error)}`);
+          }
+          break;
+        }
+
+        case 'cancel':
+          return null;
+      }
+    }
+  }
+
+  private displayPlan(plan: QueryPlan, operations: DatabaseOperation[], included: boolean[]): void {
+    this.logger.subsection('Plan Review');
+    this.logger.info(plan.analysis);
+
+    if (operations.length === 0) {
+      this.logger.warn('The plan has no operations');
+      return;
+    }
+
+    operations.forEach((operation, index) => {
+      const marker = included[index] ? chalk.green('[x]') : chalk.gray('[ ]');
+      console.log(`${marker} ${index + 1}. ${chalk.cyan(operation.type)} - ${operation.description}`);
+      operation.files.forEach(file => console.log(chalk.gray(`       ${file}`)));
+    });
+  }
+
+  private async selectOperations(operations: DatabaseOperation[], included: boolean[]): Promise<boolean[]> {
+    const { selected } = await inquirer.prompt<{ selected: number[] }>([
+      {
+        type: 'checkbox',
+        name: 'selected',
+        message: 'Select the operations to run:',
+        choices: operations.map((operation, index) => ({
+          name: `${index + 1}. ${operation.type} - ${operation.description}`,
+          value: index,
+          checked: included[index]
+        }))
+      }
+    ]);
+
+    return operations.map((_, index) => selected.includes(index));
+  }
+
+  private async pickOperation(operations: DatabaseOperation[], message: string): Promise<number> {
+    const { index } = await inquirer.prompt<{ index: number }>([
+      {
+        type: 'list',
+        name: 'index',
+        message,
+        choices: operations.map((operation, i) => ({
+          name: `${i + 1}. ${operation.type} - ${operation.description}`,
+          value: i
+        }))
+      }
+    ]);
+
+    return index;
+  }
+
+  // Asks again until the edited operation passes the same validation as AI plans, including plugin checks
+  private async editOperation(operation: DatabaseOperation): Promise<DatabaseOperation> {
+    let edited = operation;
+
+    while (true) {
+      const answers = await inquirer.prompt<{ type: DatabaseOperation['type']; description: string; files: string }>([
+        {
+          type: 'list',
+          name: 'type',
+          message: 'Operation type:',
+          choices: availableOperationTypes(),
+          default: edited.type
+        },
+        {
+          type: 'input',
+          name: 'description',
+          message: 'Description:',
+          default: edited.description,
+          validate: (input: string) => (input.trim() ? true : 'Description cannot be empty')
+        },
+        {
+          type: 'input',
+          name: 'files',
+          message: 'Target files (comma-separated):',
+          default: edited.files.join(', ')
+        }
+      ]);
+
+      edited = {
+        ...operation,
+        type: answers.type,
+        description: answers.description.trim(),
+        files: answers.files.split(',').map(file => file.trim()).filter(Boolean)
+      };
+
+      const problems = validateOperation(edited);
+      if (problems.length === 0) {
+        return edited;
+      }
+      this.logger.error('The edited operation is invalid:');
+      problems.forEach(problem => this.logger.listItem(problem));
+    }
+  }
+
+  private cloneOperations(operations: DatabaseOperation[]): DatabaseOperation[] {
+    return operations.map(operation => ({ ...operation, files: [...(operation.files || [])] }));
+  }
+}
@@ -0,0 +1,141 @@
+import { Pool, PoolClient } from 'pg';
+import { Logger } from './logger';
+import {
+  ColumnInfo,
+  DatabaseDriver,
+  DatabaseSession,
+  RowFilter,
+  RowValue,
+  SelectOptions
+} from './database-driver';
+import { SqlConnection, SqlSession } from './sql-session';
+
+/**
+ * Connects straight to PostgreSQL with a connection string such as DATABASE_URL. Works with a local
+ * database or Supabase's direct connection, needs no exec_sql function, and runs each migration in a
+ * real transaction.
+ */
+export class PostgresDriver implements DatabaseDriver {
+  readonly name = 'postgres';
+  readonly transactional = true;
+  private logger: Logger;
+  private connectionString: string;
+  private pool: Pool | null = null;
+
+  constructor(connectionString: string) {
+    this.logger = new Logger();
+    this.connectionString = connectionString;
+  }
+
+  get description(): string {
+    try {
+      const url = new URL(this.connectionString);
+      return `PostgreSQL ${url.host}${url.pathname}`;
+    } catch {
+      return 'PostgreSQL';
+    }
+  }
+
+  async connect(): Promise<void> {
+    this.logger.analyzing(`Connecting to ${this.description}...`);
+
+    // Idle connections must not keep the CLI running once a command is done
+    const pool = new Pool({ connectionString: this.connectionString, allowExitOnIdle: true });
+    try {
+      await pool.query('SELECT 1');
+    } catch (error) {
+      await pool.end().catch(() => undefined);
+      throw new Error(`Cannot connect to ${this.description}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.pool = pool;
+    this.logger.success(`Connected to ${this.description}`);
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+  }
+
+  execute(sql: string): Promise<void> {
+    return this.session().execute(sql);
+  }
+
+  select<TRow = Record<string, any>>(table: string, options?: SelectOptions): Promise<TRow[]> {
+    return this.session().select<TRow>(table, options);
+  }
+
+  insert(table: string, row: Record<string, RowValue | undefined>): Promise<void> {
+    return this.session().insert(table, row);
+  }
+
+  update(table: string, values: Record<string, RowValue>, where: RowFilter): Promise<void> {
+    return this.session().update(table, values, where);
+  }
+
+  delete(table: string, where: RowFilter): Promise<void> {
+    return this.session().delete(table, where);
+  }
+
+  async transaction<T>(work: (session: DatabaseSession) => Promise<T>): Promise<T> {
+    const client = await this.requirePool().connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(new SqlSession(toConnection(client)));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  listTables(schema?: string): Promise<string[]> {
+    return this.session().listTables(schema);
+  }
+
+  listIndexes(schema?: string): Promise<string[]> {
+    return this.session().listIndexes(schema);
+  }
+
+  listColumns(table: string, schema?: string): Promise<ColumnInfo[]> {
+    return this.session().listColumns(table, schema);
+  }
+
+  tableExists(table: string): Promise<boolean> {
+    return this.session().tableExists(table);
+  }
+
+  countRows(table: string): Promise<number> {
+    return this.session().countRows(table);
+  }
+
+  introspectSchema(schema?: string): Promise<unknown> {
+    return this.session().introspectSchema(schema);
+  }
+
+  private requirePool(): Pool {
+    if (!this.pool) {
+      throw new Error('PostgreSQL connection not initialized');
+    }
+    return this.pool;
+  }
+
+  private session(): SqlSession {
+    return new SqlSession(toConnection(this.requirePool()));
+  }
+}
+
+// Queries without parameters use the simple protocol, which accepts several statements at once
+function toConnection(client: Pool | PoolClient): SqlConnection {
+  return {
+    query: (text, values) => client.query(text, values),
+    exec: async sql => {
+      await client.query(sql);
+    }
+  };
+}
@@ -0,0 +1,159 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AICassette } from './ai-cassette';
+
+export const CHECKPOINT_DIR = '.db-agent-checkpoints';
+
+export type CheckpointRunStatus = 'running' | 'failed' | 'completed';
+export type CheckpointOperationStatus = 'pending' | 'completed' | 'failed';
+
+export interface CheckpointOperation<TOperation> {
+  operation: TOperation;
+  status: CheckpointOperationStatus;
+  error?: string;
+}
+
+export interface CheckpointData<TOperation> {
+  version: 1;
+  runId: string;
+  query: string;
+  status: CheckpointRunStatus;
+  createdAt: string;
+  updatedAt: string;
+  attempts: number;
+  operations: Array<CheckpointOperation<TOperation>>;
+}
+
+/**
+ * Persisted state of an agent run: the plan's operations, how far execution got, and the AI responses
+ * each operation used. Lives in .db-agent-checkpoints/<runId>/ until the run completes.
+ */
+export class RunCheckpoint<TOperation> {
+  readonly directory: string;
+  private data: CheckpointData<TOperation>;
+
+  private constructor(directory: string, data: CheckpointData<TOperation>) {
+    this.directory = directory;
+    this.data = data;
+  }
+
+  static async create<TOperation>(projectRoot: string, runId: string, query: string, operations: TOperation[]): Promise<RunCheckpoint<TOperation>> {
+    const now = new Date().toISOString();
+    const checkpoint = new RunCheckpoint<TOperation>(path.join(projectRoot, CHECKPOINT_DIR, runId), {
+      version: 1,
+      runId,
+      query,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      attempts: 1,
+      operations: operations.map(operation => ({ operation, status: 'pending' }))
+    });
+    await checkpoint.save();
+    return checkpoint;
+  }
+
+  // Load a run's checkpoint, or the most recently updated unfinished one when no run id is given
+  static async load<TOperation>(projectRoot: string, runId?: string): Promise<RunCheckpoint<TOperation>> {
+    if (runId) {
+      const directory = path.join(projectRoot, CHECKPOINT_DIR, runId);
+      try {
+        const content = await fs.readFile(path.join(directory, 'checkpoint.json'), 'utf8');
+        return new RunCheckpoint<TOperation>(directory, JSON.parse(content));
+      } catch {
+        throw new Error(`No checkpoint found for run ${runId}`);
+      }
+    }
+
+    const unfinished = (await RunCheckpoint.list<TOperation>(projectRoot)).filter(checkpoint => checkpoint.status !== 'completed');
+    if (unfinished.length === 0) {
+      throw new Error('No unfinished runs to resume');
+    }
+    return unfinished[0];
+  }
+
+  // All checkpoints, most recently updated first
+  static async list<TOperation>(projectRoot: string): Promise<Array<RunCheckpoint<TOperation>>> {
+    const root = path.join(projectRoot, CHECKPOINT_DIR);
+    let runIds: string[];
+    try {
+      runIds = await fs.readdir(root);
+    } catch {
+      return [];
+    }
+
+    const checkpoints: Array<RunCheckpoint<TOperation>> = [];
+    for (const runId of runIds) {
+      try {
+        checkpoints.push(await RunCheckpoint.load<TOperation>(projectRoot, runId));
+      } catch {
+        // Not a checkpoint directory
+      }
+    }
+    return checkpoints.sort((a, b) => b.data.updatedAt.localeCompare(a.data.updatedAt));
+  }
+
+  get runId(): string {
+    return this.data.runId;
+  }
+
+  get query(): string {
+    return this.data.query;
+  }
+
+  get status(): CheckpointRunStatus {
+    return this.data.status;
+  }
+
+  get attempts(): number {
+    return this.data.attempts;
+  }
+
+  get operations(): Array<CheckpointOperation<TOperation>> {
+    return this.data.operations;
+  }
+
+  // Index of the operation a resumed run continues from
+  firstUnfinishedIndex(): number {
+    const index = this.data.operations.findIndex(entry => entry.status !== 'completed');
+    return index === -1 ? this.data.operations.length : index;
+  }
+
+  // AI responses recorded while executing one operation
+  responseCache(index: number): AICassette {
+    return AICassette.open(path.join(this.directory, `operation-${index}.responses.json`), 'record');
+  }
+
+  // Forget the operation's AI responses so they are generated again
+  async discardResponses(index: number): Promise<void> {
+    await fs.rm(path.join(this.directory, `operation-${index}.responses.json`), { force: true });
+  }
+
+  async startAttempt(): Promise<void> {
+    this.data.attempts++;
+    this.data.status = 'running';
+    await this.save();
+  }
+
+  async markOperation(index: number, status: CheckpointOperationStatus, error?: string): Promise<void> {
+    this.data.operations[index] = { ...this.data.operations[index], status, error };
+    await this.save();
+  }
+
+  async markFailed(): Promise<void> {
+    this.data.status = 'failed';
+    await this.save();
+  }
+
+  // A completed run no longer needs its checkpoint
+  async complete(): Promise<void> {
+    this.data.status = 'completed';
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private async save(): Promise<void> {
+    this.data.updatedAt = new Date().toISOString();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, 'checkpoint.json'), JSON.stringify(this.data, null, 2));
+  }
+}
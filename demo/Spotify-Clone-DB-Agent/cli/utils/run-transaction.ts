@@ -0,0 +1,200 @@
+import { Logger } from './logger';
+import { FileManager } from './file-manager';
+import { MigrationExecutor, MigrationResult } from './migration-executor';
+import { splitSqlStatements } from './sql-tokenizer';
+
+export type TransactionEntry =
+  | {
+      kind: 'migration';
+      filename: string;
+      rollbackSql?: string;
+      // Whether the migration finished and was recorded in the migrations table
+      recorded: boolean;
+      // Tables it creates that existed before the run; rolling back never drops them
+      preexistingTables: string[];
+    }
+  | {
+      kind: 'seed_data';
+      tableName: string;
+      keyColumn: string;
+      // Null when some keys are generated by the database; the table was empty before, so all rows go
+      keys: Array<string | number> | null;
+      // Temporary migration the INSERT statements were executed as
+      filename: string;
+    }
+  | {
+      kind: 'plugin';
+      // Operation type the plugin registered
+      operationType: string;
+      rollback: () => Promise<void>;
+    };
+
+export interface TransactionRollbackReport {
+  filesRolledBack: boolean;
+  databaseEntriesRolledBack: number;
+  failures: string[];
+}
+
+/**
+ * Journal of everything a single agent run changed: files, executed migrations, inserted seed data and
+ * plugin operations. On failure or cancellation the run is rolled back as a whole, database first, so
+ * the project and the database stay in sync.
+ */
+export class RunTransaction {
+  private logger: Logger;
+  private fileManager: FileManager;
+  private migrationExecutor: MigrationExecutor;
+  private entries: TransactionEntry[] = [];
+  private fileMark = 0;
+  private active = false;
+
+  constructor(fileManager: FileManager, migrationExecutor: MigrationExecutor) {
+    this.logger = new Logger();
+    this.fileManager = fileManager;
+    this.migrationExecutor = migrationExecutor;
+  }
+
+  begin(): void {
+    this.entries = [];
+    this.fileMark = this.fileManager.getHistory().length;
+    this.active = true;
+  }
+
+  // Migrations that ran (fully or partially) as part of this run; skipped ones changed nothing
+  recordMigrations(results: MigrationResult[]): void {
+    if (!this.active) return;
+
+    for (const result of results) {
+      if (result.skipped) continue;
+      // A failure without generated rollback SQL never got as far as executing statements
+      if (!result.success && !result.rollbackInfo?.rollbackSql) continue;
+      this.entries.push({
+        kind: 'migration',
+        filename: result.migration.filename,
+        rollbackSql: result.rollbackInfo?.rollbackSql,
+        recorded: result.success,
+        preexistingTables: result.preexistingTables ?? []
+      });
+    }
+  }
+
+  recordSeedData(tableName: string, keyColumn: string, keys: Array<string | number> | null, filename: string): void {
+    if (!this.active) return;
+    this.entries.push({ kind: 'seed_data', tableName, keyColumn, keys, filename });
+  }
+
+  // A plugin operation whose rollback hook undoes what it changed outside files and migrations
+  recordPluginOperation(operationType: string, rollback: () => Promise<void>): void {
+    if (!this.active) return;
+    this.entries.push({ kind: 'plugin', operationType, rollback });
+  }
+
+  // The run succeeded: keep every change and start a fresh journal
+  commit(): void {
+    this.entries = [];
+    this.fileManager.clearHistory();
+    this.fileMark = 0;
+    this.active = false;
+  }
+
+  async rollback(): Promise<TransactionRollbackReport> {
+    const report: TransactionRollbackReport = { filesRolledBack: false, databaseEntriesRolledBack: 0, failures: [] };
+
+    for (const entry of [...this.entries].reverse()) {
+      try {
+        await this.rollbackEntry(entry);
+        report.databaseEntriesRolledBack++;
+      } catch (error) {
+        const message = `${this.describeEntry(entry)}: ${error instanceof Error ? error.message : String(error)}`;
+        this.logger.error(`Could not roll back ${message}`);
+        report.failures.push(message);
+      }
+    }
+
+    await this.fileManager.rollbackOperations(this.fileMark);
+    report.filesRolledBack = true;
+
+    if (report.failures.length > 0) {
+      this.logger.warn('The database may be out of sync with the project; review the failures above and fix them manually');
+    } else if (this.entries.length > 0) {
+      this.logger.success(`Rolled back ${report.databaseEntriesRolledBack} database change(s)`);
+    }
+
+    this.entries = [];
+    this.active = false;
+    return report;
+  }
+
+  private async rollbackEntry(entry: TransactionEntry): Promise<void> {
+    switch (entry.kind) {
+      case 'seed_data': {
+        if (entry.keys === null) {
+          await this.migrationExecutor.executeSql(`DELETE FROM ${entry.tableName};`);
+        } else if (entry.keys.length > 0) {
+          const keys = entry.keys.map(key => typeof key === 'number' ? String(key) : `'${key.replace(/'/g, "''")}'`);
+          await this.migrationExecutor.executeSql(`DELETE FROM ${entry.tableName} WHERE ${entry.keyColumn} IN (${keys.join(', ')});`);
+        }
+        await this.migrationExecutor.deleteMigrationRecord(entry.filename);
+        this.logger.info(`Removed seed data from ${entry.tableName}`);
+        return;
+      }
+
+      case 'migration': {
+        if (!entry.rollbackSql) {
+          throw new Error('no rollback SQL could be generated');
+        }
+        const rollbackSql = this.withoutPreexistingTableDrops(entry.rollbackSql, entry.preexistingTables);
+        if (rollbackSql) {
+          await this.migrationExecutor.executeSql(rollbackSql);
+        }
+        if (entry.recorded) {
+          await this.migrationExecutor.deleteMigrationRecord(entry.filename);
+        }
+        this.logger.info(`Rolled back migration ${entry.filename}`);
+        return;
+      }
+
+      case 'plugin': {
+        await entry.rollback();
+        this.logger.info(`Rolled back ${entry.operationType} operation`);
+        return;
+      }
+    }
+  }
+
+  // Leaves tables that were there before the run out of the rollback's DROP TABLE statements
+  private withoutPreexistingTableDrops(rollbackSql: string, preexistingTables: string[]): string {
+    if (preexistingTables.length === 0) return rollbackSql;
+
+    const kept: string[] = [];
+    for (const { sql } of splitSqlStatements(rollbackSql)) {
+      const drop = sql.match(/^DROP\s+TABLE\s+(IF\s+EXISTS\s+)?([\s\S]+?)(\s+(?:CASCADE|RESTRICT))?\s*;?$/i);
+      if (!drop) {
+        kept.push(sql);
+        continue;
+      }
+
+      const tables = drop[2].split(',').map(table => table.trim());
+      const remaining = tables.filter(table => !preexistingTables.includes(table.replace(/^public\./i, '').replace(/"/g, '')));
+      if (remaining.length < tables.length) {
+        this.logger.info(`Keeping ${tables.filter(table => !remaining.includes(table)).join(', ')}: it existed before the run`);
+      }
+      if (remaining.length > 0) {
+        kept.push(`DROP TABLE ${drop[1] ?? ''}${remaining.join(', ')}${drop[3] ?? ''};`);
+      }
+    }
+
+    return kept.map(sql => sql.endsWith(';') ? sql : `${sql};`).join('\n');
+  }
+
+  private describeEntry(entry: TransactionEntry): string {
+    switch (entry.kind) {
+      case 'migration':
+        return `migration ${entry.filename}`;
+      case 'seed_data':
+        return `seed data in ${entry.tableName}`;
+      case 'plugin':
+        return `${entry.operationType} operation`;
+    }
+  }
+}
@@ -1,9 +1,6 @@
 import { Logger } from './logger';
 import { ExtractedDataItem, MultiTableDataResult } from './hardcoded-data-extractor';
-
-// CRITICAL FIX: Default user UUID for development/demo purposes
-// This ensures consistent UUID format for all user_id fields that expect UUID type
-const DEFAULT_USER_UUID = '00000000-0000-0000-0000-000000000001';
+import { getAgentConfig } from '../config/agent-config';
 
 export interface SQLFunction {
   __sqlFunction: true;
@@ -109,7 +106,7 @@ export class SchemaDataMapper {
     const records = data.map((item, index) => ({
       // id field will be auto-generated as UUID by database - DO NOT include in mapping
       track_id: item.id || `track_${index + 1}`, // Use component ID as business identifier
-      user_id: DEFAULT_USER_UUID,
+      user_id: getAgentConfig().defaultUserUuid,
       title: item.title,
       artist: item.artist,
       album: item.album || item.title,
@@ -137,7 +134,7 @@ export class SchemaDataMapper {
     
     const records = data.map(item => ({
       id: this.generateUUID(item.id),
-      user_id: DEFAULT_USER_UUID,
+      user_id: getAgentConfig().defaultUserUuid,
       title: item.title,
       description: item.artist, // Artist field becomes description for playlists
       image_url: item.albumArt || item.image || '',
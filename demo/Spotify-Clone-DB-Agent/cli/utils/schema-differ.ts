@@ -0,0 +1,513 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { Logger } from './logger';
+import { FileManager } from './file-manager';
+import { DatabaseDriver } from './database-driver';
+import { TableDefinition } from './idempotent-sql-generator';
+import { formatMigrationSections } from './migration-format';
+import { formatReference, indexColumns, pullSchemaSnapshot, SchemaColumn, SchemaTable } from './schema-snapshot';
+import { formatZodIssues } from './structured-output';
+import { AgentConfig, getAgentConfig, readConfigFile } from '../config/agent-config';
+
+export interface SchemaChange {
+  table: string;
+  description: string;
+  up: string;
+  down: string;
+  // Can lose data: dropping a column or converting its values to another type
+  destructive: boolean;
+}
+
+export interface SchemaDiffPlan {
+  changes: SchemaChange[];
+  // Live tables the desired schema does not declare; they are left alone
+  undeclaredTables: string[];
+  migrationPath: string;
+  migrationSql: string;
+}
+
+const ON_DELETE_ACTIONS = ['CASCADE', 'SET NULL', 'SET DEFAULT', 'RESTRICT', 'NO ACTION'] as const;
+
+const desiredTablesSchema: z.ZodType<TableDefinition[]> = z.array(z.object({
+  name: z.string().min(1),
+  columns: z.array(z.object({
+    name: z.string().min(1),
+    type: z.string().min(1),
+    constraints: z.string().optional(),
+    nullable: z.boolean().optional(),
+    default: z.string().optional(),
+    unique: z.boolean().optional(),
+    references: z.string().regex(/^[\w."]+\s*\([^)]+\)$/, 'must look like "table(column)"').optional(),
+    onDelete: z.enum(ON_DELETE_ACTIONS).optional(),
+    renamedFrom: z.string().min(1).optional()
+  }).strict()).min(1),
+  primaryKey: z.string().optional(),
+  indexes: z.array(z.string()).optional(),
+  policies: z.array(z.string()).optional(),
+  seedData: z.array(z.any()).optional()
+}).strict());
+
+/**
+ * Typed helper for db-agent.tables.ts: `export default defineTables([ ... ])`
+ */
+export function defineTables(tables: TableDefinition[]): TableDefinition[] {
+  return tables;
+}
+
+export async function loadDesiredTables(projectRoot: string): Promise<TableDefinition[]> {
+  const tablesFile = getAgentConfig().tablesFile;
+  const tablesPath = path.join(projectRoot, tablesFile);
+  try {
+    await fs.access(tablesPath);
+  } catch {
+    throw new Error(`No desired schema found - declare your tables in ${tablesFile}`);
+  }
+
+  const result = desiredTablesSchema.safeParse(await readConfigFile(tablesPath));
+  if (!result.success) {
+    throw new Error(`Invalid ${path.basename(tablesPath)}:\n${formatZodIssues(result.error).map(issue => `  - ${issue}`).join('\n')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Compares declared tables with the live schema and writes the ALTER migration that closes the gap.
+ * Columns, types, nullability, defaults, primary keys, single-column unique and foreign key
+ * constraints and plain indexes are diffed; policies and triggers are not. A table without
+ * `primaryKey` or `indexes` keeps the live ones, and tables that are not declared are never touched.
+ */
+export class SchemaDiffer {
+  private logger: Logger;
+  private projectRoot: string;
+  private fileManager: FileManager;
+  private driver: DatabaseDriver;
+  private config: AgentConfig;
+
+  constructor(driver: DatabaseDriver, projectRoot: string = process.cwd()) {
+    this.logger = new Logger();
+    this.projectRoot = projectRoot;
+    this.fileManager = new FileManager(projectRoot);
+    this.driver = driver;
+    this.config = getAgentConfig();
+  }
+
+  async plan(schema: string = 'public'): Promise<SchemaDiffPlan> {
+    const desired = await loadDesiredTables(this.projectRoot);
+    const snapshot = await pullSchemaSnapshot(this.driver, schema);
+
+    const changes = diffTables(desired, snapshot.tables);
+    const declared = new Set(desired.map(table => table.name));
+    const changedTables = [...new Set(changes.map(change => change.table))];
+
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
+    const migrationPath = `${this.config.migrationOutputDir}/${timestamp}_schema_diff_${changedTables.join('_')}.sql`;
+
+    return {
+      changes,
+      undeclaredTables: snapshot.tables.map(table => table.name).filter(name => !declared.has(name)),
+      migrationPath,
+      migrationSql: changes.length > 0 ? buildMigration(changes, changedTables) : ''
+    };
+  }
+
+  displayPlan(plan: SchemaDiffPlan): void {
+    this.logger.subsection(`Schema diff (${plan.changes.length} change(s))`);
+
+    for (const change of plan.changes) {
+      this.logger.listItem(change.destructive ? `${change.description} [destructive]` : change.description);
+    }
+    const destructive = plan.changes.filter(change => change.destructive).length;
+    if (destructive > 0) {
+      this.logger.warn(`${destructive} change(s) can lose data`);
+    }
+    if (plan.undeclaredTables.length > 0) {
+      this.logger.info(`Not declared, left unchanged: ${plan.undeclaredTables.join(', ')}`);
+    }
+
+    this.logger.info(`Migration: ${plan.migrationPath}`);
+    console.log(`\n${plan.migrationSql}`);
+  }
+
+  async apply(plan: SchemaDiffPlan): Promise<void> {
+    await this.fileManager.createFile(plan.migrationPath, plan.migrationSql);
+  }
+}
+
+interface ResolvedColumn {
+  name: string;
+  renamedFrom?: string;
+  type: string;
+  notNull: boolean;
+  default?: string;
+  unique: boolean;
+  // Normalized like formatReference, e.g. auth.users(id)
+  references?: string;
+  onDelete: string;
+  // Parts of `constraints` the diff does not model, such as CHECK (...); only used when the column is created
+  extra: string;
+}
+
+interface ResolvedTable {
+  name: string;
+  columns: ResolvedColumn[];
+  primaryKey: string[];
+  // Null when the table does not declare its indexes
+  indexes: string[][] | null;
+}
+
+// Column constraints that can follow a DEFAULT expression
+const CONSTRAINT_KEYWORD = /^(?:NOT\s+NULL|NULL|UNIQUE|PRIMARY\s+KEY|REFERENCES|CHECK|CONSTRAINT|GENERATED|COLLATE)\b/i;
+
+const REFERENCES_PATTERN = /\bREFERENCES\s+([\w."]+)\s*\(([^)]*)\)((?:\s+ON\s+(?:DELETE|UPDATE)\s+(?:CASCADE|SET\s+NULL|SET\s+DEFAULT|RESTRICT|NO\s+ACTION))*)/i;
+
+/**
+ * Changes that turn the live tables into the desired ones, in the order they must run
+ */
+export function diffTables(desired: TableDefinition[], live: SchemaTable[]): SchemaChange[] {
+  return desired.flatMap(definition => {
+    const table = resolveTable(definition);
+    const liveTable = live.find(candidate => candidate.name === table.name);
+    return liveTable ? diffTable(table, liveTable) : [createTableChange(table)];
+  });
+}
+
+function resolveTable(definition: TableDefinition): ResolvedTable {
+  const primaryKey = splitColumns(definition.primaryKey || '');
+
+  const columns = definition.columns.map(column => {
+    let extra = column.constraints || '';
+    const take = (pattern: RegExp): RegExpMatchArray | null => {
+      const match = extra.match(pattern);
+      if (match) extra = extra.replace(pattern, ' ');
+      return match;
+    };
+
+    const reference = take(REFERENCES_PATTERN);
+    const defaultClause = takeDefault(extra);
+    extra = defaultClause.rest;
+    if (take(/\bPRIMARY\s+KEY\b/i) && !primaryKey.includes(column.name)) {
+      primaryKey.push(column.name);
+    }
+    const notNull = !!take(/\bNOT\s+NULL\b/i) || column.nullable === false;
+    take(/\bNULL\b/i);
+    const unique = !!take(/\bUNIQUE\b/i) || !!column.unique;
+
+    const referenceTarget = reference ? `${reference[1]}(${reference[2]})` : column.references;
+    const onDelete = reference?.[3].match(/ON\s+DELETE\s+(SET\s+NULL|SET\s+DEFAULT|NO\s+ACTION|\w+)/i)?.[1] || column.onDelete || 'NO ACTION';
+
+    return {
+      name: column.name,
+      renamedFrom: column.renamedFrom,
+      type: column.type,
+      notNull,
+      default: column.default ?? defaultClause.expression,
+      unique,
+      references: referenceTarget ? normalizeReference(referenceTarget) : undefined,
+      onDelete: onDelete.toUpperCase().replace(/\s+/g, ' '),
+      extra: extra.replace(/\s+/g, ' ').trim()
+    };
+  });
+
+  // Primary key columns are always NOT NULL
+  for (const column of columns) {
+    if (primaryKey.includes(column.name)) column.notNull = true;
+  }
+
+  return {
+    name: definition.name,
+    columns,
+    primaryKey,
+    indexes: definition.indexes ? definition.indexes.map(splitColumns) : null
+  };
+}
+
+// Splits `DEFAULT <expression>` off column constraints; the expression runs until the next constraint
+function takeDefault(constraints: string): { expression?: string; rest: string } {
+  const match = constraints.match(/\bDEFAULT\s+/i);
+  if (!match || match.index === undefined) return { rest: constraints };
+
+  const start = match.index + match[0].length;
+  let end = constraints.length;
+  let depth = 0;
+  let quoted = false;
+  for (let i = start; i < constraints.length; i++) {
+    const char = constraints[i];
+    if (quoted) {
+      // A doubled quote inside a string closes and reopens it
+      if (char === "'") quoted = false;
+    } else if (char === "'") {
+      quoted = true;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && /\s/.test(char) && CONSTRAINT_KEYWORD.test(constraints.slice(i + 1))) {
+      end = i;
+      break;
+    }
+  }
+
+  return {
+    expression: constraints.slice(start, end).trim(),
+    rest: `${constraints.slice(0, match.index)} ${constraints.slice(end)}`
+  };
+}
+
+function createTableChange(table: ResolvedTable): SchemaChange {
+  const definitions = [
+    ...table.columns.map(columnDefinition),
+    ...(table.primaryKey.length > 0 ? [`PRIMARY KEY (${table.primaryKey.join(', ')})`] : []),
+    ...table.columns.filter(column => column.unique).map(column => `UNIQUE (${column.name})`),
+    ...table.columns.filter(column => column.references).map(column =>
+      `FOREIGN KEY (${column.name}) REFERENCES ${column.references} ON DELETE ${column.onDelete}`)
+  ];
+  const statements = [
+    `CREATE TABLE IF NOT EXISTS ${table.name} (\n    ${definitions.join(',\n    ')}\n);`,
+    ...(table.indexes || []).map(columns => createIndexSQL(table.name, columns))
+  ];
+
+  return {
+    table: table.name,
+    description: `Create table ${table.name}`,
+    up: statements.join('\n'),
+    down: `DROP TABLE IF EXISTS ${table.name} CASCADE;`,
+    destructive: false
+  };
+}
+
+function diffTable(table: ResolvedTable, live: SchemaTable): SchemaChange[] {
+  const t = table.name;
+  const renames: SchemaChange[] = [];
+  const drops: SchemaChange[] = [];
+  const alters: SchemaChange[] = [];
+  const adds: SchemaChange[] = [];
+  const change = (phase: SchemaChange[], description: string, up: string[], down: string[], destructive: boolean = false) => {
+    phase.push({ table: t, description, up: up.join('\n'), down: down.join('\n'), destructive });
+  };
+
+  // Match desired columns to live ones, following renames
+  const liveColumns = new Map(live.columns.map(column => [column.name, column]));
+  const matched = new Map<string, SchemaColumn>();
+  const renamedTo = new Map<string, string>();
+  for (const column of table.columns) {
+    let liveColumn = liveColumns.get(column.name);
+    const from = column.renamedFrom;
+    if (!liveColumn && from && liveColumns.has(from) && !table.columns.some(other => other.name === from)) {
+      liveColumn = liveColumns.get(from);
+      renamedTo.set(from, column.name);
+      change(renames, `Rename column ${t}.${from} to ${column.name}`,
+        [`ALTER TABLE ${t} RENAME COLUMN ${from} TO ${column.name};`],
+        [`ALTER TABLE ${t} RENAME COLUMN ${column.name} TO ${from};`]);
+    }
+    if (liveColumn) matched.set(column.name, liveColumn);
+  }
+
+  // Live column names as they are after the renames; constraints on renamed columns follow them
+  const current = (name: string) => renamedTo.get(name) ?? name;
+  const desiredColumn = (name: string) => table.columns.find(column => column.name === current(name));
+  const matchedLive = new Set(matched.values());
+
+  // Foreign keys: composite keys are not managed, and keys on dropped columns go with the column
+  for (const foreignKey of live.foreignKeys) {
+    const column = foreignKey.columns.length === 1 ? desiredColumn(foreignKey.columns[0]) : undefined;
+    if (!column || (column.references === formatReference(foreignKey).toLowerCase() && column.onDelete === foreignKey.onDelete)) continue;
+    change(drops, `Drop foreign key ${foreignKey.name} on ${t}.${column.name}`,
+      [`ALTER TABLE ${t} DROP CONSTRAINT ${foreignKey.name};`],
+      [`ALTER TABLE ${t} ADD CONSTRAINT ${foreignKey.name} FOREIGN KEY (${column.name}) REFERENCES ${formatReference(foreignKey)} ON DELETE ${foreignKey.onDelete};`]);
+  }
+
+  // Unique constraints and plain indexes, by the columns they cover
+  const liveIndexes = live.indexes
+    .filter(index => !index.primary)
+    .map(index => ({ ...index, columns: indexColumns(index.definition)?.map(current) }))
+    .filter((index): index is typeof index & { columns: string[] } =>
+      !!index.columns && index.columns.every(name => table.columns.some(column => column.name === name)));
+
+  // Restores use the columns' names after the renames, which the down section undoes last
+  for (const index of liveIndexes.filter(index => index.unique && index.columns.length === 1)) {
+    if (desiredColumn(index.columns[0])?.unique) continue;
+    change(drops, `Drop unique constraint ${index.name} on ${t}.${index.columns[0]}`,
+      [`ALTER TABLE ${t} DROP CONSTRAINT IF EXISTS ${index.name};`, `DROP INDEX IF EXISTS ${index.name};`],
+      [`ALTER TABLE ${t} ADD CONSTRAINT ${index.name} UNIQUE (${index.columns[0]});`]);
+  }
+  if (table.indexes) {
+    for (const index of liveIndexes.filter(index => !index.unique)) {
+      if (table.indexes.some(columns => sameColumns(columns, index.columns))) continue;
+      change(drops, `Drop index ${index.name} on ${t} (${index.columns.join(', ')})`,
+        [`DROP INDEX IF EXISTS ${index.name};`],
+        [`CREATE INDEX IF NOT EXISTS ${index.name} ON ${t} (${index.columns.join(', ')});`]);
+    }
+  }
+
+  // Columns that are no longer declared
+  for (const liveColumn of live.columns.filter(column => !matchedLive.has(column))) {
+    const restore = [`ALTER TABLE ${t} ADD COLUMN IF NOT EXISTS ${liveColumn.name} ${liveColumn.type}${liveColumn.default !== null ? ` DEFAULT ${liveColumn.default}` : ''};`];
+    change(alters, `Drop column ${t}.${liveColumn.name} with its data`,
+      [`ALTER TABLE ${t} DROP COLUMN ${liveColumn.name};`],
+      [`-- The values of ${liveColumn.name} are not restored`, ...restore],
+      true);
+  }
+
+  const livePrimaryKey = live.primaryKey.map(current);
+  for (const column of table.columns) {
+    const liveColumn = matched.get(column.name);
+    if (!liveColumn) {
+      const risk = column.notNull && column.default === undefined ? ' (fails if the table has rows, as it has no default)' : '';
+      change(alters, `Add column ${t}.${column.name}${risk}`,
+        [`ALTER TABLE ${t} ADD COLUMN ${columnDefinition(column)};`],
+        [`ALTER TABLE ${t} DROP COLUMN IF EXISTS ${column.name};`]);
+      continue;
+    }
+
+    const c = `ALTER TABLE ${t} ALTER COLUMN ${column.name}`;
+    if (normalizeType(column.type) !== normalizeType(liveColumn.type)) {
+      change(alters, `Change type of ${t}.${column.name} from ${liveColumn.type} to ${column.type}`,
+        [`${c} TYPE ${column.type} USING ${column.name}::${column.type};`],
+        [`${c} TYPE ${liveColumn.type} USING ${column.name}::${liveColumn.type};`],
+        true);
+    }
+
+    // serial columns get their sequence default from PostgreSQL
+    if (!isSerial(column.type) && normalizeDefault(column.default) !== normalizeDefault(liveColumn.default ?? undefined)) {
+      const restore = liveColumn.default !== null ? `${c} SET DEFAULT ${liveColumn.default};` : `${c} DROP DEFAULT;`;
+      if (column.default !== undefined) {
+        change(alters, `Set default of ${t}.${column.name} to ${column.default}`, [`${c} SET DEFAULT ${column.default};`], [restore]);
+      } else {
+        change(alters, `Drop default of ${t}.${column.name}`, [`${c} DROP DEFAULT;`], [restore]);
+      }
+    }
+
+    // Primary key columns are NOT NULL by definition; a key change takes care of them
+    const inPrimaryKey = table.primaryKey.includes(column.name) || livePrimaryKey.includes(column.name);
+    if (!inPrimaryKey && column.notNull !== !liveColumn.nullable) {
+      if (column.notNull) {
+        change(alters, `Make ${t}.${column.name} NOT NULL (fails if any row has no value)`, [`${c} SET NOT NULL;`], [`${c} DROP NOT NULL;`]);
+      } else {
+        change(alters, `Allow NULL in ${t}.${column.name}`, [`${c} DROP NOT NULL;`], [`${c} SET NOT NULL;`]);
+      }
+    }
+  }
+
+  if (table.primaryKey.length > 0 && !sameColumns(table.primaryKey, livePrimaryKey)) {
+    const liveKey = live.indexes.find(index => index.primary);
+    change(adds, `Set primary key of ${t} to (${table.primaryKey.join(', ')})`,
+      [
+        ...(liveKey ? [`ALTER TABLE ${t} DROP CONSTRAINT IF EXISTS ${liveKey.name};`] : []),
+        `ALTER TABLE ${t} ADD PRIMARY KEY (${table.primaryKey.join(', ')});`
+      ],
+      [
+        `ALTER TABLE ${t} DROP CONSTRAINT IF EXISTS ${t}_pkey;`,
+        ...(liveKey ? [`ALTER TABLE ${t} ADD CONSTRAINT ${liveKey.name} PRIMARY KEY (${livePrimaryKey.join(', ')});`] : [])
+      ]);
+  }
+
+  for (const column of table.columns) {
+    if (column.unique && !liveIndexes.some(index => index.unique && sameColumns(index.columns, [column.name]))) {
+      change(adds, `Add unique constraint on ${t}.${column.name}`,
+        [`ALTER TABLE ${t} ADD CONSTRAINT ${t}_${column.name}_key UNIQUE (${column.name});`],
+        [`ALTER TABLE ${t} DROP CONSTRAINT IF EXISTS ${t}_${column.name}_key;`]);
+    }
+
+    const hasForeignKey = live.foreignKeys.some(foreignKey =>
+      foreignKey.columns.length === 1 && current(foreignKey.columns[0]) === column.name &&
+      formatReference(foreignKey).toLowerCase() === column.references && foreignKey.onDelete === column.onDelete);
+    if (column.references && !hasForeignKey) {
+      change(adds, `Add foreign key ${t}.${column.name} -> ${column.references} ON DELETE ${column.onDelete}`,
+        [`ALTER TABLE ${t} ADD CONSTRAINT ${t}_${column.name}_fkey FOREIGN KEY (${column.name}) REFERENCES ${column.references} ON DELETE ${column.onDelete};`],
+        [`ALTER TABLE ${t} DROP CONSTRAINT IF EXISTS ${t}_${column.name}_fkey;`]);
+    }
+  }
+
+  for (const columns of table.indexes || []) {
+    if (liveIndexes.some(index => !index.unique && sameColumns(index.columns, columns))) continue;
+    change(adds, `Add index on ${t} (${columns.join(', ')})`,
+      [createIndexSQL(t, columns)],
+      [`DROP INDEX IF EXISTS ${indexName(t, columns)};`]);
+  }
+
+  return [...renames, ...drops, ...alters, ...adds];
+}
+
+function buildMigration(changes: SchemaChange[], tables: string[]): string {
+  const header = [
+    `-- Schema diff: ${tables.join(', ')}`,
+    `-- Generated at: ${new Date().toISOString()}`,
+    '-- Steps that can lose data are marked DESTRUCTIVE'
+  ].join('\n');
+  const up = changes.map(change => `-- ${change.destructive ? 'DESTRUCTIVE: ' : ''}${change.description}\n${change.up}`);
+  const down = [...changes].reverse().map(change => `-- Undo: ${change.description}\n${change.down}`);
+  return formatMigrationSections(header, up.join('\n\n'), down.join('\n\n'));
+}
+
+function columnDefinition(column: ResolvedColumn): string {
+  return [
+    column.name,
+    column.type,
+    ...(column.default !== undefined ? [`DEFAULT ${column.default}`] : []),
+    ...(column.notNull ? ['NOT NULL'] : []),
+    ...(column.extra ? [column.extra] : [])
+  ].join(' ');
+}
+
+// Same naming as the generated create-table migrations, e.g. idx_playlists_user_id
+function indexName(table: string, columns: string[]): string {
+  return `idx_${table}_${columns.join('_')}`;
+}
+
+function createIndexSQL(table: string, columns: string[]): string {
+  return `CREATE INDEX IF NOT EXISTS ${indexName(table, columns)} ON ${table} (${columns.join(', ')});`;
+}
+
+function splitColumns(list: string): string[] {
+  return list.split(',').map(column => column.trim().replace(/"/g, '')).filter(Boolean);
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((column, index) => column === b[index]);
+}
+
+function normalizeReference(reference: string): string {
+  const match = reference.match(/^([\w."]+)\s*\(([^)]*)\)$/);
+  if (!match) return reference.trim().toLowerCase();
+  const table = match[1].replace(/"/g, '').replace(/^public\./i, '');
+  return `${table}(${splitColumns(match[2]).join(', ')})`.toLowerCase();
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  int: 'integer', int4: 'integer', serial: 'integer', serial4: 'integer',
+  int8: 'bigint', bigserial: 'bigint', serial8: 'bigint',
+  int2: 'smallint', smallserial: 'smallint', serial2: 'smallint',
+  bool: 'boolean',
+  float: 'double precision', float8: 'double precision', float4: 'real',
+  decimal: 'numeric',
+  varchar: 'character varying', char: 'character', bpchar: 'character',
+  timestamp: 'timestamp without time zone', timestamptz: 'timestamp with time zone',
+  time: 'time without time zone', timetz: 'time with time zone'
+};
+
+function isSerial(type: string): boolean {
+  return /^(small|big)?serial[248]?$/i.test(type.trim());
+}
+
+// Spells a type the way format_type() prints it, so "VARCHAR(255)" matches "character varying(255)"
+function normalizeType(type: string): string {
+  let normalized = type.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\s*([(),])\s*/g, '$1');
+  const isArray = normalized.endsWith('[]');
+  if (isArray) normalized = normalized.slice(0, -2);
+
+  const match = normalized.match(/^([a-z0-9_ ]+?)(\([\d,]+\))?$/);
+  if (match) {
+    normalized = (TYPE_ALIASES[match[1]] ?? match[1]) + (match[2] ?? '');
+  }
+  return isArray ? `${normalized}[]` : normalized;
+}
+
+// Drops the casts and letter case pg_get_expr() adds, so "'active'" matches "'active'::text" and NOW() matches now()
+function normalizeDefault(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const parts = value.trim().replace(/::[a-z][a-z ]*(\(\d+(,\d+)?\))?(\[\])?/gi, '').split("'");
+  let normalized = parts.map((part, index) => index % 2 === 0 ? part.toLowerCase().replace(/\s+/g, '') : part).join("'");
+  if (normalized === 'current_timestamp') normalized = 'now()';
+  return normalized.replace(/^'(-?\d+(\.\d+)?)'$/, '$1');
+}
@@ -0,0 +1,305 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { DatabaseDriver } from './database-driver';
+import { formatZodIssues } from './structured-output';
+import { getAgentConfig } from '../config/agent-config';
+
+// Bumped when the snapshot layout changes; older files must be pulled again
+export const SCHEMA_SNAPSHOT_VERSION = 2;
+
+/**
+ * Catalog query behind `schema pull`: one JSON object with every table and enum type in schema $1. The
+ * Supabase driver runs the same query through get_schema_snapshot() in supabase-functions.sql; keep the
+ * two in sync.
+ */
+export const SCHEMA_INTROSPECTION_SQL = `
+SELECT jsonb_build_object(
+  'tables', (
+    SELECT COALESCE(jsonb_agg(t.definition ORDER BY t.name), '[]'::jsonb)
+    FROM (
+      SELECT c.relname AS name, jsonb_build_object(
+        'name', c.relname,
+        'rlsEnabled', c.relrowsecurity,
+        'columns', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'name', a.attname,
+            'type', format_type(a.atttypid, a.atttypmod),
+            'nullable', NOT a.attnotnull,
+            'default', pg_get_expr(d.adbin, d.adrelid)
+          ) ORDER BY a.attnum), '[]'::jsonb)
+          FROM pg_attribute a
+          LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+        ),
+        'primaryKey', (
+          SELECT COALESCE(jsonb_agg(a.attname ORDER BY k.ord), '[]'::jsonb)
+          FROM pg_constraint con
+          CROSS JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          WHERE con.conrelid = c.oid AND con.contype = 'p'
+        ),
+        'foreignKeys', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'name', con.conname,
+            'columns', (
+              SELECT jsonb_agg(a.attname ORDER BY k.ord)
+              FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+            ),
+            'referencedSchema', rn.nspname,
+            'referencedTable', rc.relname,
+            'referencedColumns', (
+              SELECT jsonb_agg(a.attname ORDER BY k.ord)
+              FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+            ),
+            'onDelete', CASE con.confdeltype WHEN 'c' THEN 'CASCADE' WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' WHEN 'r' THEN 'RESTRICT' ELSE 'NO ACTION' END,
+            'onUpdate', CASE con.confupdtype WHEN 'c' THEN 'CASCADE' WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' WHEN 'r' THEN 'RESTRICT' ELSE 'NO ACTION' END
+          ) ORDER BY con.conname), '[]'::jsonb)
+          FROM pg_constraint con
+          JOIN pg_class rc ON rc.oid = con.confrelid
+          JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+          WHERE con.conrelid = c.oid AND con.contype = 'f'
+        ),
+        'indexes', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'name', ic.relname,
+            'unique', i.indisunique,
+            'primary', i.indisprimary,
+            'definition', pg_get_indexdef(i.indexrelid)
+          ) ORDER BY ic.relname), '[]'::jsonb)
+          FROM pg_index i
+          JOIN pg_class ic ON ic.oid = i.indexrelid
+          WHERE i.indrelid = c.oid
+        ),
+        'policies', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'name', p.policyname,
+            'command', p.cmd,
+            'permissive', p.permissive = 'PERMISSIVE',
+            'roles', to_jsonb(p.roles),
+            'using', p.qual,
+            'withCheck', p.with_check
+          ) ORDER BY p.policyname), '[]'::jsonb)
+          FROM pg_policies p
+          WHERE p.schemaname = n.nspname AND p.tablename = c.relname
+        ),
+        'triggers', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'name', tg.tgname,
+            'timing', CASE WHEN tg.tgtype::int & 2 = 2 THEN 'BEFORE' WHEN tg.tgtype::int & 64 = 64 THEN 'INSTEAD OF' ELSE 'AFTER' END,
+            'events', to_jsonb(array_remove(ARRAY[
+              CASE WHEN tg.tgtype::int & 4 = 4 THEN 'INSERT' END,
+              CASE WHEN tg.tgtype::int & 16 = 16 THEN 'UPDATE' END,
+              CASE WHEN tg.tgtype::int & 8 = 8 THEN 'DELETE' END,
+              CASE WHEN tg.tgtype::int & 32 = 32 THEN 'TRUNCATE' END
+            ], NULL)),
+            'function', tp.proname,
+            'definition', pg_get_triggerdef(tg.oid)
+          ) ORDER BY tg.tgname), '[]'::jsonb)
+          FROM pg_trigger tg
+          JOIN pg_proc tp ON tp.oid = tg.tgfoid
+          WHERE tg.tgrelid = c.oid AND NOT tg.tgisinternal
+        )
+      ) AS definition
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p')
+    ) t
+  ),
+  'enums', (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'name', ty.typname,
+      'values', (SELECT jsonb_agg(e.enumlabel ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = ty.oid)
+    ) ORDER BY ty.typname), '[]'::jsonb)
+    FROM pg_type ty
+    JOIN pg_namespace tn ON tn.oid = ty.typnamespace
+    WHERE tn.nspname = $1 AND ty.typtype = 'e'
+  )
+) AS snapshot`;
+
+const schemaColumnSchema = z.object({
+  name: z.string(),
+  // As PostgreSQL prints it, e.g. "character varying(255)" or "timestamp with time zone"
+  type: z.string(),
+  nullable: z.boolean(),
+  default: z.string().nullable()
+});
+
+const schemaForeignKeySchema = z.object({
+  name: z.string(),
+  columns: z.array(z.string()),
+  referencedSchema: z.string(),
+  referencedTable: z.string(),
+  referencedColumns: z.array(z.string()),
+  onDelete: z.string(),
+  onUpdate: z.string()
+});
+
+const schemaIndexSchema = z.object({
+  name: z.string(),
+  unique: z.boolean(),
+  primary: z.boolean(),
+  definition: z.string()
+});
+
+const schemaPolicySchema = z.object({
+  name: z.string(),
+  command: z.string(),
+  permissive: z.boolean(),
+  roles: z.array(z.string()),
+  using: z.string().nullable(),
+  withCheck: z.string().nullable()
+});
+
+const schemaTriggerSchema = z.object({
+  name: z.string(),
+  timing: z.string(),
+  events: z.array(z.string()),
+  function: z.string(),
+  definition: z.string()
+});
+
+const schemaTableSchema = z.object({
+  name: z.string(),
+  rlsEnabled: z.boolean(),
+  columns: z.array(schemaColumnSchema),
+  primaryKey: z.array(z.string()),
+  foreignKeys: z.array(schemaForeignKeySchema),
+  indexes: z.array(schemaIndexSchema),
+  policies: z.array(schemaPolicySchema),
+  triggers: z.array(schemaTriggerSchema)
+});
+
+const schemaEnumSchema = z.object({
+  name: z.string(),
+  values: z.array(z.string())
+});
+
+const introspectionResultSchema = z.object({
+  tables: z.array(schemaTableSchema),
+  enums: z.array(schemaEnumSchema)
+});
+
+const schemaSnapshotSchema = introspectionResultSchema.extend({
+  version: z.literal(SCHEMA_SNAPSHOT_VERSION),
+  pulledAt: z.string(),
+  // Database the snapshot was pulled from, without credentials
+  source: z.string(),
+  schema: z.string()
+});
+
+export type SchemaColumn = z.infer<typeof schemaColumnSchema>;
+export type SchemaForeignKey = z.infer<typeof schemaForeignKeySchema>;
+export type SchemaTable = z.infer<typeof schemaTableSchema>;
+export type SchemaEnum = z.infer<typeof schemaEnumSchema>;
+export type SchemaSnapshot = z.infer<typeof schemaSnapshotSchema>;
+
+/**
+ * Introspects the live database into a snapshot. The agent's own bookkeeping tables are left out.
+ */
+export async function pullSchemaSnapshot(driver: DatabaseDriver, schema: string = 'public'): Promise<SchemaSnapshot> {
+  const result = introspectionResultSchema.safeParse(await driver.introspectSchema(schema));
+  if (!result.success) {
+    throw new Error(`Unexpected schema introspection result:\n${formatZodIssues(result.error).map(issue => `  - ${issue}`).join('\n')}`);
+  }
+
+  return {
+    version: SCHEMA_SNAPSHOT_VERSION,
+    pulledAt: new Date().toISOString(),
+    source: driver.description,
+    schema,
+    tables: result.data.tables.filter(table => !table.name.startsWith('_db_agent')),
+    enums: result.data.enums
+  };
+}
+
+export function getSchemaSnapshotPath(projectRoot: string): string {
+  return path.join(projectRoot, getAgentConfig().schemaFile);
+}
+
+// The project's snapshot, or null when schema pull has not been run
+export async function loadSchemaSnapshot(projectRoot: string): Promise<SchemaSnapshot | null> {
+  const snapshotPath = getSchemaSnapshotPath(projectRoot);
+  let content: string;
+  try {
+    content = await fs.readFile(snapshotPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const fileName = path.basename(snapshotPath);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (version !== SCHEMA_SNAPSHOT_VERSION) {
+    throw new Error(`${fileName} has snapshot version ${String(version)}, expected ${SCHEMA_SNAPSHOT_VERSION}; run "db-agent schema pull" again`);
+  }
+
+  const result = schemaSnapshotSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid ${fileName}:\n${formatZodIssues(result.error).map(issue => `  - ${issue}`).join('\n')}`);
+  }
+  return result.data;
+}
+
+export async function saveSchemaSnapshot(projectRoot: string, snapshot: SchemaSnapshot): Promise<string> {
+  const snapshotPath = getSchemaSnapshotPath(projectRoot);
+  await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+  await fs.writeFile(snapshotPath, JSON.stringify(snapshot, null, 2) + '\n', 'utf-8');
+  return snapshotPath;
+}
+
+/**
+ * Describes tables for AI prompts: column types, nullability, defaults, keys, RLS and triggers
+ */
+export function describeSchemaTables(tables: SchemaTable[]): string {
+  if (tables.length === 0) {
+    return 'No tables';
+  }
+
+  return tables.map(table => {
+    const lines = [`Table ${table.name}${table.rlsEnabled ? ' (row level security enabled)' : ''}:`];
+    for (const column of table.columns) {
+      const details = [
+        column.type,
+        ...(table.primaryKey.includes(column.name) ? ['PRIMARY KEY'] : []),
+        ...(column.nullable ? [] : ['NOT NULL']),
+        ...(column.default !== null ? [`DEFAULT ${column.default}`] : [])
+      ];
+      lines.push(`  - ${column.name}: ${details.join(' ')}`);
+    }
+    for (const foreignKey of table.foreignKeys) {
+      lines.push(`  - foreign key (${foreignKey.columns.join(', ')}) -> ${formatReference(foreignKey)} ON DELETE ${foreignKey.onDelete}`);
+    }
+    for (const policy of table.policies) {
+      lines.push(`  - policy "${policy.name}" for ${policy.command} to ${policy.roles.join(', ')}${policy.using ? ` using ${policy.using}` : ''}`);
+    }
+    for (const trigger of table.triggers) {
+      lines.push(`  - trigger ${trigger.name} ${trigger.timing} ${trigger.events.join(' OR ')} -> ${trigger.function}()`);
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+// Columns of a plain btree index from pg_get_indexdef, or null for expression, partial and covering indexes
+export function indexColumns(definition: string): string[] | null {
+  const match = definition.match(/\bUSING\s+btree\s+\(([^()]*)\)$/i);
+  if (!match) return null;
+  const columns = match[1].split(',').map(column => column.trim().replace(/"/g, ''));
+  return columns.every(column => /^\w+$/.test(column)) ? columns : null;
+}
+
+// e.g. auth.users(id), or albums(id) for tables in the public schema
+export function formatReference(foreignKey: SchemaForeignKey): string {
+  const table = foreignKey.referencedSchema === 'public'
+    ? foreignKey.referencedTable
+    : `${foreignKey.referencedSchema}.${foreignKey.referencedTable}`;
+  return `${table}(${foreignKey.referencedColumns.join(', ')})`;
+}
@@ -0,0 +1,135 @@
+import {
+  ColumnInfo,
+  DatabaseSession,
+  quoteIdentifier,
+  RowFilter,
+  RowValue,
+  SelectOptions
+} from './database-driver';
+import { SCHEMA_INTROSPECTION_SQL } from './schema-snapshot';
+
+/**
+ * Minimal client interface shared by node-postgres and the embedded engine
+ */
+export interface SqlConnection {
+  query(text: string, values?: unknown[]): Promise<{ rows: any[] }>;
+  // Runs one or more statements without parameters
+  exec(sql: string): Promise<void>;
+}
+
+/**
+ * Row operations and catalog queries as parameterized SQL, for drivers that speak PostgreSQL directly
+ */
+export class SqlSession implements DatabaseSession {
+  private connection: SqlConnection;
+
+  constructor(connection: SqlConnection) {
+    this.connection = connection;
+  }
+
+  async execute(sql: string): Promise<void> {
+    await this.connection.exec(sql);
+  }
+
+  async select<TRow = Record<string, any>>(table: string, options: SelectOptions = {}): Promise<TRow[]> {
+    const values: unknown[] = [];
+    const columns = options.columns ? options.columns.map(quoteIdentifier).join(', ') : '*';
+    let sql = `SELECT ${columns} FROM ${quoteIdentifier(table)}${buildWhere(options.where, values)}`;
+    if (options.orderBy) {
+      sql += ` ORDER BY ${quoteIdentifier(options.orderBy.column)} ${options.orderBy.ascending === false ? 'DESC' : 'ASC'}`;
+    }
+    if (options.limit !== undefined) {
+      sql += ` LIMIT ${Math.floor(options.limit)}`;
+    }
+
+    const result = await this.connection.query(sql, values);
+    // Timestamps come back as strings, the way PostgREST returns them, so rows look the same with every driver
+    return result.rows.map(row => Object.fromEntries(
+      Object.entries(row).map(([column, value]) => [column, value instanceof Date ? value.toISOString() : value])
+    ) as TRow);
+  }
+
+  async insert(table: string, row: Record<string, RowValue | undefined>): Promise<void> {
+    const entries = Object.entries(row).filter(([, value]) => value !== undefined);
+    const columns = entries.map(([column]) => quoteIdentifier(column)).join(', ');
+    const placeholders = entries.map((_entry, index) => `$${index + 1}`).join(', ');
+    await this.connection.query(
+      `INSERT INTO ${quoteIdentifier(table)} (${columns}) VALUES (${placeholders})`,
+      entries.map(([, value]) => value)
+    );
+  }
+
+  async update(table: string, values: Record<string, RowValue>, where: RowFilter): Promise<void> {
+    const params: unknown[] = [];
+    const assignments = Object.entries(values).map(([column, value]) => {
+      params.push(value);
+      return `${quoteIdentifier(column)} = $${params.length}`;
+    });
+    await this.connection.query(
+      `UPDATE ${quoteIdentifier(table)} SET ${assignments.join(', ')}${buildWhere(where, params)}`,
+      params
+    );
+  }
+
+  async delete(table: string, where: RowFilter): Promise<void> {
+    const params: unknown[] = [];
+    await this.connection.query(`DELETE FROM ${quoteIdentifier(table)}${buildWhere(where, params)}`, params);
+  }
+
+  async listTables(schema: string = 'public'): Promise<string[]> {
+    const result = await this.connection.query(
+      `SELECT table_name FROM information_schema.tables
+       WHERE table_schema = $1 AND table_type = 'BASE TABLE'
+       ORDER BY table_name`,
+      [schema]
+    );
+    return result.rows.map(row => row.table_name);
+  }
+
+  async listIndexes(schema: string = 'public'): Promise<string[]> {
+    const result = await this.connection.query(
+      'SELECT indexname FROM pg_indexes WHERE schemaname = $1 ORDER BY indexname',
+      [schema]
+    );
+    return result.rows.map(row => row.indexname);
+  }
+
+  async listColumns(table: string, schema: string = 'public'): Promise<ColumnInfo[]> {
+    const result = await this.connection.query(
+      `SELECT column_name, data_type, is_nullable FROM information_schema.columns
+       WHERE table_schema = $1 AND table_name = $2
+       ORDER BY ordinal_position`,
+      [schema, table]
+    );
+    return result.rows.map(row => ({ name: row.column_name, dataType: row.data_type, nullable: row.is_nullable !== 'NO' }));
+  }
+
+  async tableExists(table: string): Promise<boolean> {
+    const result = await this.connection.query('SELECT to_regclass($1) IS NOT NULL AS exists', [quoteIdentifier(table)]);
+    return result.rows[0].exists;
+  }
+
+  async countRows(table: string): Promise<number> {
+    const result = await this.connection.query(`SELECT count(*) AS count FROM ${quoteIdentifier(table)}`);
+    return Number(result.rows[0].count);
+  }
+
+  async introspectSchema(schema: string = 'public'): Promise<unknown> {
+    const result = await this.connection.query(SCHEMA_INTROSPECTION_SQL, [schema]);
+    return result.rows[0].snapshot;
+  }
+}
+
+// WHERE clause for a filter, appending its parameters to values
+function buildWhere(where: RowFilter | undefined, values: unknown[]): string {
+  const conditions = Object.entries(where || {}).map(([column, value]) => {
+    if (value === null) {
+      return `${quoteIdentifier(column)} IS NULL`;
+    }
+    values.push(value);
+    return Array.isArray(value)
+      ? `${quoteIdentifier(column)} = ANY($${values.length})`
+      : `${quoteIdentifier(column)} = $${values.length}`;
+  });
+  return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+}
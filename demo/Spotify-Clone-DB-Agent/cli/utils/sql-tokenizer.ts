@@ -0,0 +1,277 @@
+export type SqlTokenType =
+  | 'whitespace'
+  | 'line_comment'
+  | 'block_comment'
+  | 'string'
+  | 'dollar_string'
+  | 'quoted_identifier'
+  | 'word'
+  | 'semicolon'
+  | 'copy_data'
+  | 'other';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  // 1-based line the token starts on
+  line: number;
+}
+
+export interface SqlStatement {
+  sql: string;
+  startLine: number;
+  endLine: number;
+  // COPY ... FROM stdin statements carry their data rows (up to the \. terminator) in sql
+  kind: 'statement' | 'copy';
+  // False for a final statement without a semicolon
+  terminated: boolean;
+}
+
+const IDENTIFIER_START = /[A-Za-z_\u0080-\uFFFF]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$\u0080-\uFFFF]/;
+const DOLLAR_TAG = /^\$(?:[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\u0080-\uFFFF]*)?\$/;
+
+/**
+ * Splits SQL into tokens following PostgreSQL's lexical rules: dollar-quoted strings with any tag,
+ * standard and E'' strings, quoted identifiers, nested block comments and COPY ... FROM stdin data
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let pos = 0;
+  let line = 1;
+  // Words of the statement being read, to recognize COPY ... FROM stdin
+  let statementWords: string[] = [];
+
+  const push = (type: SqlTokenType, end: number) => {
+    const text = sql.slice(pos, end);
+    tokens.push({ type, text, line });
+    line += countNewlines(text);
+    pos = end;
+  };
+
+  while (pos < sql.length) {
+    const char = sql[pos];
+    const next = sql[pos + 1];
+
+    if (/\s/.test(char)) {
+      let end = pos;
+      while (end < sql.length && /\s/.test(sql[end])) end++;
+      push('whitespace', end);
+    } else if (char === '-' && next === '-') {
+      const newline = sql.indexOf('\n', pos);
+      push('line_comment', newline === -1 ? sql.length : newline);
+    } else if (char === '/' && next === '*') {
+      push('block_comment', readBlockComment(sql, pos));
+    } else if (char === "'") {
+      push('string', readString(sql, pos, false));
+    } else if ((char === 'E' || char === 'e') && next === "'" && !isIdentifierChar(sql[pos - 1])) {
+      push('string', readString(sql, pos + 1, true));
+    } else if (char === '"') {
+      push('quoted_identifier', readQuoted(sql, pos, '"'));
+    } else if (char === '$' && !isIdentifierChar(sql[pos - 1]) && DOLLAR_TAG.test(sql.slice(pos))) {
+      const tag = (sql.slice(pos).match(DOLLAR_TAG) as RegExpMatchArray)[0];
+      const close = sql.indexOf(tag, pos + tag.length);
+      push('dollar_string', close === -1 ? sql.length : close + tag.length);
+    } else if (IDENTIFIER_START.test(char)) {
+      let end = pos + 1;
+      while (end < sql.length && IDENTIFIER_PART.test(sql[end])) end++;
+      statementWords.push(sql.slice(pos, end).toUpperCase());
+      push('word', end);
+    } else if (char === ';') {
+      const semicolon = pos;
+      push('semicolon', pos + 1);
+      if (isCopyFromStdin(statementWords)) {
+        // Data starts on the next line and ends with a line holding only \.
+        const lineEnd = sql.indexOf('\n', semicolon);
+        if (lineEnd !== -1) {
+          push('whitespace', lineEnd + 1);
+          push('copy_data', readCopyData(sql, semicolon));
+        }
+      }
+      statementWords = [];
+    } else {
+      push('other', pos + 1);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Splits SQL into the statements PostgreSQL would execute. Semicolons inside strings, dollar-quoted
+ * bodies, comments and BEGIN ATOMIC ... END function bodies do not end a statement.
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+  let words: string[] = [];
+  let atomicDepth = 0;
+
+  const flush = (terminated: boolean) => {
+    // Leading comments and whitespace belong to no statement
+    const first = current.findIndex(token => !isTrivia(token));
+    if (first !== -1) {
+      const tokens = current.slice(first);
+      let last = tokens.length - 1;
+      while (last > 0 && tokens[last].type === 'whitespace') last--;
+      const lastToken = tokens[last];
+      statements.push({
+        sql: tokens.slice(0, last + 1).map(token => token.text).join('').replace(/\s+$/, ''),
+        startLine: tokens[0].line,
+        endLine: lastToken.line + countNewlines(lastToken.text.replace(/\n$/, '')),
+        kind: lastToken.type === 'copy_data' ? 'copy' : 'statement',
+        terminated
+      });
+    }
+    current = [];
+    words = [];
+    atomicDepth = 0;
+  };
+
+  for (const token of tokenizeSql(sql)) {
+    current.push(token);
+
+    if (token.type === 'word') {
+      const word = token.text.toUpperCase();
+      if (word === 'ATOMIC' && words[words.length - 1] === 'BEGIN') {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && word === 'CASE') {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && word === 'END') {
+        atomicDepth--;
+      }
+      words.push(word);
+    } else if (token.type === 'semicolon' && atomicDepth === 0 && !isCopyFromStdin(words)) {
+      flush(true);
+    } else if (token.type === 'copy_data') {
+      // A COPY statement ends after its data rows, not at its semicolon
+      flush(true);
+    }
+  }
+
+  flush(false);
+  return statements;
+}
+
+/**
+ * Rewrites a COPY ... FROM stdin statement in the default text format as an INSERT, for connections
+ * that cannot stream COPY data (such as the exec_sql RPC). Values are passed as untyped literals,
+ * which PostgreSQL casts to the column types.
+ */
+export function copyStatementToInsert(statement: string): string {
+  const match = statement.match(/^COPY\s+([\s\S]+?)\s+FROM\s+stdin\s*(.*?);[^\n]*\n([\s\S]*)$/i);
+  if (!match) {
+    throw new Error('Not a COPY ... FROM stdin statement');
+  }
+
+  const [, target, options, data] = match;
+  if (options.trim()) {
+    throw new Error(`COPY options are not supported (${options.trim()}); use the default text format`);
+  }
+
+  const rows = data
+    .split(/\r?\n/)
+    .filter(row => row !== '\\.' && row !== '')
+    .map(row => `(${row.split('\t').map(copyValueToLiteral).join(', ')})`);
+
+  if (rows.length === 0) {
+    return `-- ${target}: COPY without rows`;
+  }
+  return `INSERT INTO ${target} VALUES\n${rows.join(',\n')};`;
+}
+
+function copyValueToLiteral(value: string): string {
+  if (value === '\\N') {
+    return 'NULL';
+  }
+  const unescaped = value.replace(/\\(?:([0-7]{1,3})|x([0-9A-Fa-f]{1,2})|(.))/g, (_escape, octal, hex, char) => {
+    if (octal) return String.fromCharCode(parseInt(octal, 8));
+    if (hex) return String.fromCharCode(parseInt(hex, 16));
+    return ({ b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v' } as Record<string, string>)[char] ?? char;
+  });
+  return `'${unescaped.replace(/'/g, "''")}'`;
+}
+
+function readBlockComment(sql: string, start: number): number {
+  // Block comments nest in PostgreSQL
+  let depth = 0;
+  let pos = start;
+  while (pos < sql.length) {
+    if (sql[pos] === '/' && sql[pos + 1] === '*') {
+      depth++;
+      pos += 2;
+    } else if (sql[pos] === '*' && sql[pos + 1] === '/') {
+      depth--;
+      pos += 2;
+      if (depth === 0) return pos;
+    } else {
+      pos++;
+    }
+  }
+  return sql.length;
+}
+
+// Reads a '...' literal starting at the opening quote; '' is an escaped quote, and so is \' in E'' strings
+function readString(sql: string, quote: number, backslashEscapes: boolean): number {
+  let pos = quote + 1;
+  while (pos < sql.length) {
+    if (backslashEscapes && sql[pos] === '\\') {
+      pos += 2;
+    } else if (sql[pos] === "'") {
+      if (sql[pos + 1] === "'") {
+        pos += 2;
+      } else {
+        return pos + 1;
+      }
+    } else {
+      pos++;
+    }
+  }
+  return sql.length;
+}
+
+function readQuoted(sql: string, start: number, quote: string): number {
+  let pos = start + 1;
+  while (pos < sql.length) {
+    if (sql[pos] === quote) {
+      if (sql[pos + 1] === quote) {
+        pos += 2;
+      } else {
+        return pos + 1;
+      }
+    } else {
+      pos++;
+    }
+  }
+  return sql.length;
+}
+
+// End of the COPY data after the statement's semicolon: through the \. line, or the end of the SQL
+function readCopyData(sql: string, semicolon: number): number {
+  const dataStart = sql.indexOf('\n', semicolon) + 1;
+  const terminator = /^\\\.[ \t]*(?:\r?\n|$)/m;
+  const match = terminator.exec(sql.slice(dataStart));
+  return match ? dataStart + match.index + match[0].length : sql.length;
+}
+
+function isCopyFromStdin(words: string[]): boolean {
+  if (words[0] !== 'COPY') return false;
+  const from = words.indexOf('FROM');
+  return from !== -1 && words[from + 1] === 'STDIN';
+}
+
+function isTrivia(token: SqlToken): boolean {
+  return token.type === 'whitespace' || token.type === 'line_comment' || token.type === 'block_comment';
+}
+
+function isIdentifierChar(char: string | undefined): boolean {
+  return char !== undefined && IDENTIFIER_PART.test(char);
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (const char of text) {
+    if (char === '\n') count++;
+  }
+  return count;
+}
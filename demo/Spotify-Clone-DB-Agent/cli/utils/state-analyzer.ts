@@ -1,8 +1,11 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import fs from 'fs/promises';
 import path from 'path';
 import { Logger } from './logger';
+import { DatabaseDriver } from './database-driver';
+import { getDatabaseDriver } from './database-connection';
 import { ProjectContext } from '../agents/project-analyzer';
+import { AgentConfig, getAgentConfig } from '../config/agent-config';
+import { FEATURE_REGISTRY } from '../config/feature-registry';
 
 export interface DatabaseState {
   tables: string[];
@@ -62,13 +65,14 @@ export interface SystemState {
 export class StateAnalyzer {
   private logger: Logger;
   private projectRoot: string;
-  private supabase: SupabaseClient | null = null;
+  private driver: DatabaseDriver | null = null;
   private cacheFile: string;
-  private cacheValidityMinutes = 5; // Cache validity in minutes
+  private config: AgentConfig;
 
   constructor(projectRoot: string = process.cwd()) {
     this.logger = new Logger();
     this.projectRoot = projectRoot;
+    this.config = getAgentConfig();
     this.cacheFile = path.join(projectRoot, '.db-agent-state.json');
   }
 
@@ -77,8 +81,8 @@ export class StateAnalyzer {
     this.logger.info('Initializing state analyzer...');
     
     try {
-      // Initialize Supabase client if available
-      await this.initializeSupabase();
+      // Connect to the database if one is configured
+      await this.initializeDatabase();
       this.logger.success('State analyzer initialized successfully');
     } catch (error) {
       this.logger.warn(`State analyzer initialization warning: ${error instanceof Error ? error.message : String(error)}`);
@@ -127,40 +131,25 @@ export class StateAnalyzer {
       lastChecked: new Date()
     };
 
-    if (!this.supabase) {
-      this.logger.warn('Supabase not available, skipping database state analysis');
+    if (!this.driver) {
+      this.logger.warn('Database not available, skipping database state analysis');
       return state;
     }
+    const driver = this.driver;
+
+    // Each lookup is optional; one failing leaves its list empty
+    const optional = <T>(lookup: Promise<T[]>): Promise<T[]> => lookup.catch(() => []);
 
     try {
       // Get all tables in public schema
-      const { data: tables, error: tablesError } = await this.supabase
-        .from('information_schema.tables')
-        .select('table_name')
-        .eq('table_schema', 'public');
-
-      if (!tablesError && tables) {
-        state.tables = tables.map(t => t.table_name);
-      }
+      state.tables = await optional(driver.listTables('public'));
 
       // Get all indexes
-      const { data: indexes, error: indexError } = await this.supabase
-        .from('information_schema.statistics')
-        .select('index_name')
-        .eq('table_schema', 'public');
-
-      if (!indexError && indexes) {
-        state.indexes = indexes.map(i => i.index_name).filter(Boolean);
-      }
+      state.indexes = await optional(driver.listIndexes('public'));
 
       // Get executed migrations
-      const { data: migrations, error: migrationError } = await this.supabase
-        .from('_db_agent_migrations')
-        .select('filename');
-
-      if (!migrationError && migrations) {
-        state.migrationsExecuted = migrations.map(m => m.filename);
-      }
+      const migrations = await optional(driver.select<{ filename: string }>('_db_agent_migrations', { columns: ['filename'] }));
+      state.migrationsExecuted = migrations.map(m => m.filename);
 
       this.logger.success(`Database state: ${state.tables.length} tables, ${state.indexes.length} indexes, ${state.migrationsExecuted.length} migrations executed`);
     } catch (error) {
@@ -182,7 +171,7 @@ export class StateAnalyzer {
     try {
       // Find all API route files
       const apiDirs = [
-        path.join(this.projectRoot, 'src/app/api'),
+        path.join(this.projectRoot, this.config.apiRoot),
         path.join(this.projectRoot, 'pages/api')
       ];
 
@@ -246,27 +235,25 @@ export class StateAnalyzer {
 
     try {
       // Get executed migrations from database
-      if (this.supabase) {
-        const { data: migrations, error } = await this.supabase
-          .from('_db_agent_migrations')
-          .select('filename, description, executed_at')
-          .order('executed_at', { ascending: false });
+      if (this.driver) {
+        try {
+          const migrations = await this.driver.select('_db_agent_migrations', {
+            columns: ['filename', 'description', 'executed_at'],
+            orderBy: { column: 'executed_at', ascending: false }
+          });
 
-        if (!error && migrations) {
           state.executedMigrations = migrations.map(m => ({
             filename: m.filename,
             description: m.description || '',
             executedAt: new Date(m.executed_at)
           }));
+        } catch {
+          // Migrations table not created yet
         }
       }
 
       // Find pending migrations
-      const migrationDirs = [
-        path.join(this.projectRoot, 'src/lib/migrations'),
-        path.join(this.projectRoot, 'supabase/migrations'),
-        path.join(this.projectRoot, 'migrations')
-      ];
+      const migrationDirs = this.config.migrationDirs.map(dir => path.join(this.projectRoot, dir));
 
       for (const migrationDir of migrationDirs) {
         try {
@@ -296,13 +283,9 @@ export class StateAnalyzer {
 
     try {
       // Load feature history from cache or analyze current state
-      const featurePatterns = [
-        { name: 'recently_played', table: 'recently_played', api: '/api/recently-played' },
-        { name: 'made_for_you', table: 'made_for_you', api: '/api/made-for-you' },
-        { name: 'popular_albums', table: 'popular_albums', api: '/api/popular-albums' },
-        { name: 'user_playlists', table: 'user_playlists', api: '/api/playlists' },
-        { name: 'search_functionality', table: 'search_history', api: '/api/search' }
-      ];
+      const featurePatterns = FEATURE_REGISTRY
+        .filter(feature => feature.endpoint)
+        .map(feature => ({ name: feature.name, table: feature.table, api: feature.endpoint! }));
 
       for (const pattern of featurePatterns) {
         const implemented = await this.isFeatureImplemented(pattern);
@@ -326,7 +309,7 @@ export class StateAnalyzer {
   private async isFeatureImplemented(pattern: { name: string; table: string; api: string }): Promise<boolean> {
     try {
       // Check if table exists
-      const tableExists = this.supabase ? await this.checkTableExists(pattern.table) : false;
+      const tableExists = this.driver ? await this.checkTableExists(pattern.table) : false;
       
       // Check if API exists
       const apiExists = await this.checkAPIExists(pattern.api);
@@ -339,15 +322,10 @@ export class StateAnalyzer {
 
   // Check if a table exists in the database
   private async checkTableExists(tableName: string): Promise<boolean> {
-    if (!this.supabase) return false;
+    if (!this.driver) return false;
 
     try {
-      const { error } = await this.supabase
-        .from(tableName)
-        .select('*')
-        .limit(1);
-
-      return !error || !error.message.includes('does not exist');
+      return await this.driver.tableExists(tableName);
     } catch (error) {
       return false;
     }
@@ -366,16 +344,11 @@ export class StateAnalyzer {
   }
 
   // Helper methods
-  private async initializeSupabase(): Promise<void> {
+  private async initializeDatabase(): Promise<void> {
     try {
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-      if (supabaseUrl && supabaseKey) {
-        this.supabase = createClient(supabaseUrl, supabaseKey);
-      }
+      this.driver = await getDatabaseDriver();
     } catch (error) {
-      this.logger.warn('Could not initialize Supabase client');
+      this.logger.warn(`Database not available: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -488,7 +461,7 @@ export class StateAnalyzer {
     const pathWithoutApi = apiPath.replace(/^\/api\//, '');
     
     // Try Next.js 13+ app directory structure first
-    const appRouteFile = path.join(this.projectRoot, 'src/app/api', pathWithoutApi, 'route.ts');
+    const appRouteFile = path.join(this.projectRoot, this.config.apiRoot, pathWithoutApi, 'route.ts');
     
     return appRouteFile;
   }
@@ -500,7 +473,7 @@ export class StateAnalyzer {
       
       // Check if cache is still valid
       const cacheAge = Date.now() - new Date(cached.timestamp).getTime();
-      const maxAge = this.cacheValidityMinutes * 60 * 1000;
+      const maxAge = this.config.stateCacheTtlMinutes * 60 * 1000;
       
       if (cacheAge < maxAge) {
         return cached.state;
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+export type StructuredOutputResult<T> =
+  | { success: true; data: T; json: string }
+  | { success: false; errors: string[] };
+
+/**
+ * Extracts the JSON object from a model response, tolerating markdown fences and surrounding prose
+ */
+export function extractJSONObject(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/i);
+  const source = fenced && fenced[1].includes('{') ? fenced[1] : text;
+
+  const start = source.indexOf('{');
+  if (start === -1) return null;
+
+  // Walk to the matching closing brace, ignoring braces inside strings
+  let depth = 0;
+  let inString = false;
+  let escapeNext = false;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (escapeNext) {
+      escapeNext = false;
+    } else if (char === '\\' && inString) {
+      escapeNext = true;
+    } else if (char === '"') {
+      inString = !inString;
+    } else if (!inString && char === '{') {
+      depth++;
+    } else if (!inString && char === '}') {
+      depth--;
+      if (depth === 0) {
+        return source.substring(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses a model response against a zod schema, returning readable errors that can be sent back to the model
+ */
+export function parseStructuredOutput<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): StructuredOutputResult<T> {
+  const json = extractJSONObject(text);
+  if (!json) {
+    return { success: false, errors: ['Response does not contain a JSON object'] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { success: false, errors: formatZodIssues(result.error) };
+  }
+
+  return { success: true, data: result.data, json };
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
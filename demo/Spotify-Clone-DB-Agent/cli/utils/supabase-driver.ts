@@ -0,0 +1,195 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from './logger';
+import {
+  ColumnInfo,
+  DatabaseDriver,
+  DatabaseSession,
+  RowFilter,
+  RowValue,
+  SelectOptions
+} from './database-driver';
+
+/**
+ * Runs SQL through the exec_sql RPC (see supabase-functions.sql) and row operations through PostgREST.
+ * Each call is its own request, so migrations cannot run in a transaction.
+ */
+export class SupabaseDriver implements DatabaseDriver {
+  readonly name = 'supabase';
+  readonly transactional = false;
+  private logger: Logger;
+  private supabase: SupabaseClient | null = null;
+  private url: string | undefined;
+
+  constructor() {
+    this.logger = new Logger();
+    this.url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  }
+
+  get description(): string {
+    try {
+      return `Supabase project ${new URL(this.url || '').host} (exec_sql RPC)`;
+    } catch {
+      return 'Supabase (exec_sql RPC)';
+    }
+  }
+
+  async connect(): Promise<void> {
+    this.logger.analyzing('Validating environment configuration...');
+
+    const supabaseUrl = this.url;
+    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error(
+        'Missing required Supabase environment variables.\n' +
+        'Required: NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY\n' +
+        'Optional (for advanced operations): SUPABASE_SERVICE_ROLE_KEY\n' +
+        'To use a Postgres database directly, set DATABASE_URL instead.'
+      );
+    }
+
+    // Test connection
+    const testClient = createClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await testClient.from('_test_connection').select('*').limit(1);
+    // We expect this to fail, but it should fail with a specific error about table not existing
+    // If it fails with auth or network issues, we'll catch those
+    if (error && !error.message.includes('does not exist') && !error.message.includes('relation') && !error.message.includes('table')) {
+      if (error.message.includes('Invalid API key') || error.message.includes('unauthorized')) {
+        throw new Error('Invalid Supabase credentials. Please check your API keys.');
+      }
+      if (error.message.includes('network') || error.message.includes('fetch')) {
+        throw new Error('Cannot connect to Supabase. Please check your URL and network connection.');
+      }
+    }
+
+    this.logger.success('Environment validation completed');
+
+    // Use service role key if available for DDL operations, otherwise use anon key
+    if (!supabaseServiceKey) {
+      this.logger.warn('Using anon key for migrations. Some operations may be restricted.');
+      this.logger.info('For full functionality, set SUPABASE_SERVICE_ROLE_KEY environment variable.');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey || supabaseAnonKey);
+    this.logger.success('Supabase client created');
+  }
+
+  async close(): Promise<void> {
+    this.supabase = null;
+  }
+
+  async execute(sql: string): Promise<void> {
+    const { error } = await this.client().rpc('exec_sql', { sql });
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async select<TRow = Record<string, any>>(table: string, options: SelectOptions = {}): Promise<TRow[]> {
+    let query: any = this.client().from(table).select(options.columns ? options.columns.join(', ') : '*');
+    query = this.applyFilter(query, options.where);
+    if (options.orderBy) {
+      query = query.order(options.orderBy.column, { ascending: options.orderBy.ascending ?? true });
+    }
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data || [];
+  }
+
+  async insert(table: string, row: Record<string, RowValue | undefined>): Promise<void> {
+    const { error } = await this.client().from(table).insert(row);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async update(table: string, values: Record<string, RowValue>, where: RowFilter): Promise<void> {
+    const { error } = await this.applyFilter(this.client().from(table).update(values), where);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async delete(table: string, where: RowFilter): Promise<void> {
+    const { error } = await this.applyFilter(this.client().from(table).delete(), where);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async transaction<T>(work: (session: DatabaseSession) => Promise<T>): Promise<T> {
+    return work(this);
+  }
+
+  async listTables(schema: string = 'public'): Promise<string[]> {
+    const rows = await this.select<{ table_name: string }>('information_schema.tables', {
+      columns: ['table_name'],
+      where: { table_schema: schema }
+    });
+    return rows.map(row => row.table_name);
+  }
+
+  async listIndexes(schema: string = 'public'): Promise<string[]> {
+    const rows = await this.select<{ index_name: string | null }>('information_schema.statistics', {
+      columns: ['index_name'],
+      where: { table_schema: schema }
+    });
+    return rows.map(row => row.index_name).filter((name): name is string => !!name);
+  }
+
+  async listColumns(table: string, schema: string = 'public'): Promise<ColumnInfo[]> {
+    const rows = await this.select<{ column_name: string; data_type: string; is_nullable: string }>('information_schema.columns', {
+      columns: ['column_name', 'data_type', 'is_nullable'],
+      where: { table_name: table, table_schema: schema }
+    });
+    return rows.map(row => ({ name: row.column_name, dataType: row.data_type, nullable: row.is_nullable !== 'NO' }));
+  }
+
+  async tableExists(table: string): Promise<boolean> {
+    const { error } = await this.client().from(table).select('*').limit(1);
+    return !error || !error.message.includes('does not exist');
+  }
+
+  async countRows(table: string): Promise<number> {
+    const { error, count } = await this.client().from(table).select('*', { count: 'exact', head: true });
+    if (error) {
+      throw new Error(error.message);
+    }
+    return count || 0;
+  }
+
+  async introspectSchema(schema: string = 'public'): Promise<unknown> {
+    const { data, error } = await this.client().rpc('get_schema_snapshot', { schema_name: schema });
+    if (error) {
+      throw new Error(`get_schema_snapshot failed (install it from cli/utils/supabase-functions.sql): ${error.message}`);
+    }
+    return data;
+  }
+
+  private client(): SupabaseClient {
+    if (!this.supabase) {
+      throw new Error('Supabase client not initialized');
+    }
+    return this.supabase;
+  }
+
+  private applyFilter(query: any, where: RowFilter = {}): any {
+    for (const [column, value] of Object.entries(where)) {
+      if (Array.isArray(value)) {
+        query = query.in(column, value);
+      } else if (value === null) {
+        query = query.is(column, null);
+      } else {
+        query = query.eq(column, value);
+      }
+    }
+    return query;
+  }
+}
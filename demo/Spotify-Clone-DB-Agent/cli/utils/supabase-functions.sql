@@ -126,6 +126,120 @@ BEGIN
 END;
 $$;
 
+-- Function to snapshot every table and enum type in a schema for db-agent schema pull
+-- Keep in sync with SCHEMA_INTROSPECTION_SQL in schema-snapshot.ts
+CREATE OR REPLACE FUNCTION get_schema_snapshot(schema_name TEXT DEFAULT 'public')
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'tables', (
+      SELECT COALESCE(jsonb_agg(t.definition ORDER BY t.name), '[]'::jsonb)
+      FROM (
+        SELECT c.relname AS name, jsonb_build_object(
+          'name', c.relname,
+          'rlsEnabled', c.relrowsecurity,
+          'columns', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+              'name', a.attname,
+              'type', format_type(a.atttypid, a.atttypmod),
+              'nullable', NOT a.attnotnull,
+              'default', pg_get_expr(d.adbin, d.adrelid)
+            ) ORDER BY a.attnum), '[]'::jsonb)
+            FROM pg_attribute a
+            LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+            WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+          ),
+          'primaryKey', (
+            SELECT COALESCE(jsonb_agg(a.attname ORDER BY k.ord), '[]'::jsonb)
+            FROM pg_constraint con
+            CROSS JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+            JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+            WHERE con.conrelid = c.oid AND con.contype = 'p'
+          ),
+          'foreignKeys', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+              'name', con.conname,
+              'columns', (
+                SELECT jsonb_agg(a.attname ORDER BY k.ord)
+                FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+              ),
+              'referencedSchema', rn.nspname,
+              'referencedTable', rc.relname,
+              'referencedColumns', (
+                SELECT jsonb_agg(a.attname ORDER BY k.ord)
+                FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+                JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+              ),
+              'onDelete', CASE con.confdeltype WHEN 'c' THEN 'CASCADE' WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' WHEN 'r' THEN 'RESTRICT' ELSE 'NO ACTION' END,
+              'onUpdate', CASE con.confupdtype WHEN 'c' THEN 'CASCADE' WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' WHEN 'r' THEN 'RESTRICT' ELSE 'NO ACTION' END
+            ) ORDER BY con.conname), '[]'::jsonb)
+            FROM pg_constraint con
+            JOIN pg_class rc ON rc.oid = con.confrelid
+            JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+            WHERE con.conrelid = c.oid AND con.contype = 'f'
+          ),
+          'indexes', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+              'name', ic.relname,
+              'unique', i.indisunique,
+              'primary', i.indisprimary,
+              'definition', pg_get_indexdef(i.indexrelid)
+            ) ORDER BY ic.relname), '[]'::jsonb)
+            FROM pg_index i
+            JOIN pg_class ic ON ic.oid = i.indexrelid
+            WHERE i.indrelid = c.oid
+          ),
+          'policies', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+              'name', p.policyname,
+              'command', p.cmd,
+              'permissive', p.permissive = 'PERMISSIVE',
+              'roles', to_jsonb(p.roles),
+              'using', p.qual,
+              'withCheck', p.with_check
+            ) ORDER BY p.policyname), '[]'::jsonb)
+            FROM pg_policies p
+            WHERE p.schemaname = n.nspname AND p.tablename = c.relname
+          ),
+          'triggers', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+              'name', tg.tgname,
+              'timing', CASE WHEN tg.tgtype::int & 2 = 2 THEN 'BEFORE' WHEN tg.tgtype::int & 64 = 64 THEN 'INSTEAD OF' ELSE 'AFTER' END,
+              'events', to_jsonb(array_remove(ARRAY[
+                CASE WHEN tg.tgtype::int & 4 = 4 THEN 'INSERT' END,
+                CASE WHEN tg.tgtype::int & 16 = 16 THEN 'UPDATE' END,
+                CASE WHEN tg.tgtype::int & 8 = 8 THEN 'DELETE' END,
+                CASE WHEN tg.tgtype::int & 32 = 32 THEN 'TRUNCATE' END
+              ], NULL)),
+              'function', tp.proname,
+              'definition', pg_get_triggerdef(tg.oid)
+            ) ORDER BY tg.tgname), '[]'::jsonb)
+            FROM pg_trigger tg
+            JOIN pg_proc tp ON tp.oid = tg.tgfoid
+            WHERE tg.tgrelid = c.oid AND NOT tg.tgisinternal
+          )
+        ) AS definition
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = schema_name AND c.relkind IN ('r', 'p')
+      ) t
+    ),
+    'enums', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'name', ty.typname,
+        'values', (SELECT jsonb_agg(e.enumlabel ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = ty.oid)
+      ) ORDER BY ty.typname), '[]'::jsonb)
+      FROM pg_type ty
+      JOIN pg_namespace tn ON tn.oid = ty.typnamespace
+      WHERE tn.nspname = schema_name AND ty.typtype = 'e'
+    )
+  ) AS snapshot;
+$$;
+
 -- Grant execute permissions on functions
 -- Note: These grants may need to be adjusted based on your RLS policies
 GRANT EXECUTE ON FUNCTION exec_sql TO authenticated;
@@ -134,6 +248,7 @@ GRANT EXECUTE ON FUNCTION table_exists TO authenticated;
 GRANT EXECUTE ON FUNCTION get_public_tables TO authenticated;
 GRANT EXECUTE ON FUNCTION create_table_safe TO authenticated;
 GRANT EXECUTE ON FUNCTION seed_table_data TO authenticated;
+GRANT EXECUTE ON FUNCTION get_schema_snapshot TO authenticated;
 
 -- Create the migrations tracking table if it doesn't exist
 CREATE TABLE IF NOT EXISTS _db_agent_migrations (
@@ -143,9 +258,13 @@ CREATE TABLE IF NOT EXISTS _db_agent_migrations (
   executed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   rollback_sql TEXT,
   checksum TEXT,
+  squashed_into TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Added after the table was first released
+ALTER TABLE _db_agent_migrations ADD COLUMN IF NOT EXISTS squashed_into TEXT;
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_migrations_filename ON _db_agent_migrations(filename);
 CREATE INDEX IF NOT EXISTS idx_migrations_executed_at ON _db_agent_migrations(executed_at);
@@ -168,4 +287,5 @@ COMMENT ON FUNCTION get_table_info IS 'Returns column information for a given ta
 COMMENT ON FUNCTION table_exists IS 'Checks if a table exists in the public schema';
 COMMENT ON FUNCTION get_public_tables IS 'Returns list of all tables in public schema';
 COMMENT ON FUNCTION create_table_safe IS 'Creates table with error handling and returns result';
-COMMENT ON FUNCTION seed_table_data IS 'Seeds table with JSON data safely'; 
\ No newline at end of file
+COMMENT ON FUNCTION seed_table_data IS 'Seeds table with JSON data safely';
+COMMENT ON FUNCTION get_schema_snapshot IS 'Returns columns, keys, indexes, policies and triggers of every table in a schema, plus its enum types'; 
\ No newline at end of file
@@ -0,0 +1,236 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Logger } from './logger';
+import { FileManager } from './file-manager';
+import { MigrationExecutor } from './migration-executor';
+import { OperationHistoryBrowser } from './operation-history';
+import { OperationHistory, ProjectAnalyzer } from '../agents/project-analyzer';
+import { getAgentConfig } from '../config/agent-config';
+
+export type UndoStepKind = 'rollback_migration' | 'delete_file' | 'restore_file';
+
+export interface UndoStep {
+  kind: UndoStepKind;
+  operationId: string;
+  path: string;
+  backup?: string;
+  contentHash?: string;
+}
+
+export interface UndoPlan {
+  target: string;
+  operations: OperationHistory[];
+  steps: UndoStep[];
+  skipped: Array<{ operationId: string; reason: string }>;
+}
+
+interface ExecutedMigrations {
+  executor: MigrationExecutor;
+  executed: Set<string>;
+}
+
+export interface UndoResult {
+  undoneOperations: string[];
+  failures: Array<{ step: UndoStep; error: string }>;
+  // Steps not attempted because an earlier step of the same operation failed
+  skippedSteps: UndoStep[];
+}
+
+/**
+ * Reverts a past operation or run from .db-agent-history.json: rolls back the migrations it created
+ * and restores or deletes the files it wrote, newest change first
+ */
+export class UndoManager {
+  private logger: Logger;
+  private projectRoot: string;
+
+  constructor(projectRoot: string = process.cwd()) {
+    this.logger = new Logger();
+    this.projectRoot = projectRoot;
+  }
+
+  // Target is a run id (see `history runs`) or an operation id / unique prefix
+  async plan(target: string): Promise<UndoPlan> {
+    const browser = await OperationHistoryBrowser.load(this.projectRoot);
+    const run = browser.groupByRun(browser.filter()).find(candidate => candidate.runId === target);
+    const operations = run ? run.operations : [browser.find(target)];
+
+    const plan: UndoPlan = { target, operations: [], steps: [], skipped: [] };
+
+    for (const entry of [...operations].reverse()) {
+      if (entry.undoneAt) {
+        plan.skipped.push({ operationId: entry.operationId, reason: `already undone at ${new Date(entry.undoneAt).toISOString()}` });
+        continue;
+      }
+      if (!entry.fileChanges) {
+        plan.skipped.push({ operationId: entry.operationId, reason: 'recorded before file changes were tracked' });
+        continue;
+      }
+
+      plan.operations.push(entry);
+      const changes = [...entry.fileChanges].reverse();
+
+      // Database changes were applied after their migration files were written, so they are reverted first
+      for (const change of changes) {
+        if (change.type === 'create' && this.isMigrationFile(change.path)) {
+          plan.steps.push({ kind: 'rollback_migration', operationId: entry.operationId, path: change.path });
+        }
+      }
+
+      for (const change of changes) {
+        plan.steps.push({
+          kind: change.type === 'create' ? 'delete_file' : 'restore_file',
+          operationId: entry.operationId,
+          path: change.path,
+          backup: change.backup,
+          contentHash: change.contentHash
+        });
+      }
+    }
+
+    return plan;
+  }
+
+  displayPlan(plan: UndoPlan): void {
+    this.logger.subsection(`Undo ${plan.target}`);
+
+    for (const entry of plan.operations) {
+      this.logger.listItem(`${entry.operationId} [${entry.metadata?.operationType || entry.type}] ${entry.description}`);
+    }
+    if (plan.operations.length > 0 && plan.operations[0].query) {
+      this.logger.info(`Query: "${plan.operations[0].query}"`);
+    }
+
+    if (plan.steps.length > 0) {
+      this.logger.info('Changes to revert (in this order):');
+      plan.steps.forEach((step, index) => this.logger.info(`  ${index + 1}. ${this.describeStep(step)}`));
+    }
+
+    for (const skipped of plan.skipped) {
+      this.logger.warn(`Skipping ${skipped.operationId}: ${skipped.reason}`);
+    }
+  }
+
+  /**
+   * Applies the plan. Files edited since the run are left alone unless force is set.
+   * After a failed step the rest of that operation is skipped, so a migration file is never deleted
+   * while its schema change is still applied. Operations are only marked undone in the history when
+   * every one of their steps succeeded.
+   */
+  async execute(plan: UndoPlan, options: { force?: boolean } = {}): Promise<UndoResult> {
+    const result: UndoResult = { undoneOperations: [], failures: [], skippedSteps: [] };
+    const migrations = await this.loadExecutedMigrations(plan);
+    const failedOperations = new Set<string>();
+
+    for (const step of plan.steps) {
+      if (failedOperations.has(step.operationId)) {
+        this.logger.warn(`Skipped: ${this.describeStep(step)} (an earlier change of ${step.operationId} could not be reverted)`);
+        result.skippedSteps.push(step);
+        continue;
+      }
+
+      try {
+        await this.applyStep(step, migrations, options.force === true);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Could not ${this.describeStep(step)}: ${message}`);
+        result.failures.push({ step, error: message });
+        failedOperations.add(step.operationId);
+      }
+    }
+
+    result.undoneOperations = plan.operations
+      .map(entry => entry.operationId)
+      .filter(operationId => !failedOperations.has(operationId));
+
+    if (result.undoneOperations.length > 0) {
+      await new ProjectAnalyzer(this.projectRoot).markOperationsUndone(result.undoneOperations);
+    }
+
+    return result;
+  }
+
+  private async applyStep(step: UndoStep, migrations: ExecutedMigrations | null, force: boolean): Promise<void> {
+    const fullPath = path.resolve(this.projectRoot, step.path);
+
+    switch (step.kind) {
+      case 'rollback_migration': {
+        const filename = path.basename(step.path);
+        if (!migrations || !migrations.executed.has(filename)) {
+          this.logger.info(`Migration ${filename} was never executed - nothing to roll back`);
+          return;
+        }
+        if (!(await migrations.executor.rollbackMigration(filename))) {
+          throw new Error(`rollback of ${filename} failed`);
+        }
+        return;
+      }
+
+      case 'delete_file': {
+        const current = await fs.readFile(fullPath, 'utf8').catch(() => null);
+        if (current === null) {
+          this.logger.info(`${step.path} no longer exists - nothing to delete`);
+          return;
+        }
+        this.assertUnchanged(step, current, force);
+        await fs.unlink(fullPath);
+        this.logger.info(`Deleted ${step.path}`);
+        return;
+      }
+
+      case 'restore_file': {
+        if (!step.backup) {
+          throw new Error('no backup was recorded');
+        }
+        // Older history entries store absolute backup paths, newer ones paths relative to the project
+        const backupContent = await fs.readFile(path.resolve(this.projectRoot, step.backup), 'utf8').catch(() => null);
+        if (backupContent === null) {
+          throw new Error(`backup ${step.backup} is missing`);
+        }
+        const current = await fs.readFile(fullPath, 'utf8').catch(() => null);
+        if (current !== null) {
+          this.assertUnchanged(step, current, force);
+        }
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.writeFile(fullPath, backupContent, 'utf8');
+        this.logger.info(`Restored ${step.path} from ${path.basename(step.backup)}`);
+        return;
+      }
+    }
+  }
+
+  private assertUnchanged(step: UndoStep, current: string, force: boolean): void {
+    if (!force && step.contentHash && FileManager.hashContent(current) !== step.contentHash) {
+      throw new Error(`${step.path} was modified after the run (use --force to revert anyway)`);
+    }
+  }
+
+  // Only connects to the database when the plan has migrations to roll back
+  private async loadExecutedMigrations(plan: UndoPlan): Promise<ExecutedMigrations | null> {
+    if (!plan.steps.some(step => step.kind === 'rollback_migration')) {
+      return null;
+    }
+
+    const executor = new MigrationExecutor(this.projectRoot);
+    await executor.initialize();
+    const status = await executor.getMigrationStatus();
+    return { executor, executed: new Set(status.executed.map(migration => migration.filename)) };
+  }
+
+  private isMigrationFile(filePath: string): boolean {
+    const normalized = path.normalize(filePath);
+    return normalized.endsWith('.sql') &&
+      getAgentConfig().migrationDirs.some(dir => path.dirname(normalized) === path.normalize(dir));
+  }
+
+  private describeStep(step: UndoStep): string {
+    switch (step.kind) {
+      case 'rollback_migration':
+        return `roll back migration ${path.basename(step.path)}`;
+      case 'delete_file':
+        return `delete ${step.path}`;
+      case 'restore_file':
+        return `restore ${step.path} from backup`;
+    }
+  }
+}
@@ -0,0 +1,145 @@
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Computes a line-based diff between two strings using the longest common subsequence
+ */
+export function diffLines(oldContent: string, newContent: string): DiffLine[] {
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'context', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'remove', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'add', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) result.push({ type: 'remove', text: oldLines[i++] });
+  while (j < m) result.push({ type: 'add', text: newLines[j++] });
+
+  return result;
+}
+
+/**
+ * Groups diff lines into hunks with the given number of context lines
+ */
+export function buildHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const changeIndexes = lines
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter(index => index !== -1);
+
+  if (changeIndexes.length === 0) {
+    return hunks;
+  }
+
+  // Merge change ranges whose context windows overlap
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  // Track line numbers in both files up to each range
+  let oldLine = 1;
+  let newLine = 1;
+  let cursor = 0;
+
+  for (const range of ranges) {
+    for (; cursor < range.start; cursor++) {
+      if (lines[cursor].type !== 'add') oldLine++;
+      if (lines[cursor].type !== 'remove') newLine++;
+    }
+
+    const hunkLines = lines.slice(range.start, range.end + 1);
+    const oldCount = hunkLines.filter(line => line.type !== 'add').length;
+    const newCount = hunkLines.filter(line => line.type !== 'remove').length;
+
+    hunks.push({
+      oldStart: oldCount === 0 ? oldLine - 1 : oldLine,
+      oldLines: oldCount,
+      newStart: newCount === 0 ? newLine - 1 : newLine,
+      newLines: newCount,
+      lines: hunkLines
+    });
+
+    for (; cursor <= range.end; cursor++) {
+      if (lines[cursor].type !== 'add') oldLine++;
+      if (lines[cursor].type !== 'remove') newLine++;
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Creates a unified diff (as produced by `diff -u`) for a single file
+ */
+export function createUnifiedDiff(filePath: string, oldContent: string, newContent: string, context: number = 3): string {
+  const hunks = buildHunks(diffLines(oldContent, newContent), context);
+
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const output: string[] = [
+    `--- ${oldContent ? `a/${filePath}` : '/dev/null'}`,
+    `+++ b/${filePath}`
+  ];
+
+  for (const hunk of hunks) {
+    output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (const line of hunk.lines) {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+function splitLines(content: string): string[] {
+  if (!content) return [];
+  const lines = content.split('\n');
+  // A trailing newline does not introduce an extra empty line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
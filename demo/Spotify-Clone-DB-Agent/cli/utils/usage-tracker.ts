@@ -0,0 +1,146 @@
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  provider: string;
+  model: string;
+  scope: string;
+  costUsd: number;
+  priced: boolean;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byScope: Record<string, UsageTotals>;
+  unpricedModels: string[];
+}
+
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+// USD per million tokens, [input, output]
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'gpt-4': [30, 60],
+  'gpt-4o': [2.5, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+  'claude-3-7-sonnet-20250219': [3, 15],
+  'claude-3-5-sonnet-20241022': [3, 15],
+  'claude-3-5-haiku-20241022': [0.8, 4],
+  'gemini-pro': [0.5, 1.5]
+};
+
+/**
+ * Collects token usage from every AI call in the process, grouped by scope (planning or operation type),
+ * and enforces an optional per-run budget
+ */
+export class UsageTracker {
+  private static instance: UsageTracker | null = null;
+
+  private records: UsageRecord[] = [];
+  private scope = 'planning';
+  private budget: UsageBudget = {};
+  private runStart = 0;
+
+  // AIClient is created by several agents; usage is aggregated across all of them
+  static getInstance(): UsageTracker {
+    if (!UsageTracker.instance) {
+      UsageTracker.instance = new UsageTracker();
+    }
+    return UsageTracker.instance;
+  }
+
+  // Budget from DB_AGENT_MAX_TOKENS / DB_AGENT_MAX_COST_USD, if set
+  static budgetFromEnv(): UsageBudget {
+    const budget: UsageBudget = {};
+    const maxTokens = Number(process.env.DB_AGENT_MAX_TOKENS);
+    const maxCostUsd = Number(process.env.DB_AGENT_MAX_COST_USD);
+    if (process.env.DB_AGENT_MAX_TOKENS && Number.isFinite(maxTokens)) budget.maxTokens = maxTokens;
+    if (process.env.DB_AGENT_MAX_COST_USD && Number.isFinite(maxCostUsd)) budget.maxCostUsd = maxCostUsd;
+    return budget;
+  }
+
+  static estimateCost(model: string, usage: TokenUsage): number | null {
+    // Responses name dated snapshots (gpt-4-0613, gpt-4o-2024-08-06), priced like their base model
+    const pricing = MODEL_PRICING[model] ?? MODEL_PRICING[model.replace(/-(?:\d{4}|\d{4}-\d{2}-\d{2})$/, '')];
+    if (!pricing) return null;
+    return (usage.promptTokens * pricing[0] + usage.completionTokens * pricing[1]) / 1_000_000;
+  }
+
+  startRun(budget: UsageBudget = {}): void {
+    this.budget = budget;
+    this.runStart = this.records.length;
+    this.scope = 'planning';
+  }
+
+  setScope(scope: string): void {
+    this.scope = scope;
+  }
+
+  // Position to later summarize usage from (e.g. the start of an operation)
+  mark(): number {
+    return this.records.length;
+  }
+
+  // Throws if the current run has already used up its budget
+  assertWithinBudget(): void {
+    const totals = this.summarize(this.runStart);
+    if (this.budget.maxTokens !== undefined && totals.totalTokens >= this.budget.maxTokens) {
+      throw new Error(`Token budget exceeded: ${totals.totalTokens} of ${this.budget.maxTokens} tokens used`);
+    }
+    if (this.budget.maxCostUsd !== undefined && totals.costUsd >= this.budget.maxCostUsd) {
+      throw new Error(`Cost budget exceeded: $${totals.costUsd.toFixed(4)} of $${this.budget.maxCostUsd.toFixed(2)} spent`);
+    }
+  }
+
+  record(provider: string, model: string, usage: TokenUsage): void {
+    const cost = UsageTracker.estimateCost(model, usage);
+    this.records.push({
+      ...usage,
+      provider,
+      model,
+      scope: this.scope,
+      costUsd: cost ?? 0,
+      priced: cost !== null
+    });
+  }
+
+  getRunSummary(): UsageSummary {
+    return this.summarize(this.runStart);
+  }
+
+  summarize(fromMark: number = 0): UsageSummary {
+    const summary: UsageSummary = { ...emptyTotals(), byScope: {}, unpricedModels: [] };
+
+    for (const record of this.records.slice(fromMark)) {
+      addRecord(summary, record);
+      summary.byScope[record.scope] = summary.byScope[record.scope] || emptyTotals();
+      addRecord(summary.byScope[record.scope], record);
+      if (!record.priced && !summary.unpricedModels.includes(record.model)) {
+        summary.unpricedModels.push(record.model);
+      }
+    }
+
+    return summary;
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.costUsd += record.costUsd;
+}
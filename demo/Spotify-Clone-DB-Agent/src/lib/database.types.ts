@@ -0,0 +1,251 @@
+// Generated by `db-agent types generate`. Do not edit by hand.
+// Source: Embedded PostgreSQL (.db-agent-db), schema "public", pulled at 2026-10-19T18:12:39.996Z
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      albums: {
+        Row: {
+          album_id: string | null;
+          artist: string;
+          created_at: string;
+          duration: number | null;
+          genre: string | null;
+          id: string;
+          image_url: string | null;
+          popularity_score: number;
+          release_date: string | null;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          album_id?: string | null;
+          artist: string;
+          created_at?: string;
+          duration?: number | null;
+          genre?: string | null;
+          id?: string;
+          image_url?: string | null;
+          popularity_score?: number;
+          release_date?: string | null;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          album_id?: string | null;
+          artist?: string;
+          created_at?: string;
+          duration?: number | null;
+          genre?: string | null;
+          id?: string;
+          image_url?: string | null;
+          popularity_score?: number;
+          release_date?: string | null;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      made_for_you: {
+        Row: {
+          created_at: string;
+          description: string;
+          id: string;
+          image_url: string | null;
+          playlist_type: string;
+          title: string;
+          updated_at: string;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          description: string;
+          id?: string;
+          image_url?: string | null;
+          playlist_type: string;
+          title: string;
+          updated_at?: string;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          description?: string;
+          id?: string;
+          image_url?: string | null;
+          playlist_type?: string;
+          title?: string;
+          updated_at?: string;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
+      playlists: {
+        Row: {
+          created_at: string;
+          description: string | null;
+          id: string;
+          image_url: string | null;
+          title: string;
+          type: string;
+          updated_at: string;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          image_url?: string | null;
+          title: string;
+          type?: string;
+          updated_at?: string;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          image_url?: string | null;
+          title?: string;
+          type?: string;
+          updated_at?: string;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
+      popular_albums: {
+        Row: {
+          artist: string;
+          created_at: string;
+          duration: number;
+          id: string;
+          image_url: string | null;
+          popularity_score: number;
+          release_date: string | null;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          artist: string;
+          created_at?: string;
+          duration: number;
+          id?: string;
+          image_url?: string | null;
+          popularity_score?: number;
+          release_date?: string | null;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          artist?: string;
+          created_at?: string;
+          duration?: number;
+          id?: string;
+          image_url?: string | null;
+          popularity_score?: number;
+          release_date?: string | null;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      recently_played: {
+        Row: {
+          album: string;
+          artist: string;
+          created_at: string;
+          duration: number;
+          id: string;
+          image_url: string | null;
+          played_at: string;
+          title: string;
+          track_id: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          album: string;
+          artist: string;
+          created_at?: string;
+          duration: number;
+          id?: string;
+          image_url?: string | null;
+          played_at?: string;
+          title: string;
+          track_id?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          album?: string;
+          artist?: string;
+          created_at?: string;
+          duration?: number;
+          id?: string;
+          image_url?: string | null;
+          played_at?: string;
+          title?: string;
+          track_id?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
+      songs: {
+        Row: {
+          artist: string;
+          created_at: string;
+          duration: number | null;
+          id: string;
+          playlist_id: string;
+          position: number;
+          title: string;
+        };
+        Insert: {
+          artist: string;
+          created_at?: string;
+          duration?: number | null;
+          id?: string;
+          playlist_id: string;
+          position?: number;
+          title: string;
+        };
+        Update: {
+          artist?: string;
+          created_at?: string;
+          duration?: number | null;
+          id?: string;
+          playlist_id?: string;
+          position?: number;
+          title?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'songs_playlist_id_fkey';
+            columns: ['playlist_id'];
+            isOneToOne: false;
+            referencedRelation: 'playlists';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      [_ in never]: never;
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type Schema = Database['public'];
+
+export type Tables<T extends keyof Schema['Tables']> = Schema['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof Schema['Tables']> = Schema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof Schema['Tables']> = Schema['Tables'][T]['Update'];
+export type Enums<T extends keyof Schema['Enums']> = Schema['Enums'][T];
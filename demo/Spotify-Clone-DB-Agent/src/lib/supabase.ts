@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
 
 // Environment variables validation
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -13,127 +14,11 @@ if (!supabaseUrl || !supabaseAnonKey) {
   );
 }
 
-// Create Supabase client
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Create Supabase client, typed with the schema so unknown tables and columns fail type-checking
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
-// Database Types (will be auto-generated based on your schema)
-export type Database = {
-  public: {
-    Tables: {
-      recently_played: {
-        Row: {
-          id: string;
-          title: string;
-          artist: string;
-          album: string;
-          image_url: string | null;
-          duration: number;
-          played_at: string;
-          user_id: string | null;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          title: string;
-          artist: string;
-          album: string;
-          image_url?: string | null;
-          duration: number;
-          played_at?: string;
-          user_id?: string | null;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          title?: string;
-          artist?: string;
-          album?: string;
-          image_url?: string | null;
-          duration?: number;
-          played_at?: string;
-          user_id?: string | null;
-          created_at?: string;
-        };
-      };
-      made_for_you: {
-        Row: {
-          id: string;
-          title: string;
-          description: string;
-          image_url: string | null;
-          playlist_type: string;
-          user_id: string | null;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          title: string;
-          description: string;
-          image_url?: string | null;
-          playlist_type: string;
-          user_id?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          title?: string;
-          description?: string;
-          image_url?: string | null;
-          playlist_type?: string;
-          user_id?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      popular_albums: {
-        Row: {
-          id: string;
-          title: string;
-          artist: string;
-          image_url: string | null;
-          release_date: string | null;
-          duration: number;
-          popularity_score: number;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          title: string;
-          artist: string;
-          image_url?: string | null;
-          release_date?: string | null;
-          duration: number;
-          popularity_score?: number;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          title?: string;
-          artist?: string;
-          image_url?: string | null;
-          release_date?: string | null;
-          duration?: number;
-          popularity_score?: number;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-    };
-    Views: {
-      [_ in never]: never;
-    };
-    Functions: {
-      [_ in never]: never;
-    };
-    Enums: {
-      [_ in never]: never;
-    };
-  };
-};
+// Database types are generated from the live schema by `npm run db-agent:types:generate`
+export type { Database };
 
 // Helper types for easier usage
 export type Tables<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Row'];
@@ -272,7 +157,7 @@ export async function testConnection(): Promise<boolean> {
 
 // Schema validation function
 export async function validateSchema(): Promise<{ valid: boolean; missing: string[] }> {
-  const requiredTables = ['recently_played', 'made_for_you', 'popular_albums'];
+  const requiredTables = ['recently_played', 'made_for_you', 'popular_albums'] as const;
   const missing: string[] = [];
   
   for (const table of requiredTables) {